@@ -0,0 +1,239 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  JsonWebKey,
+  KeyObject,
+  randomInt,
+  randomUUID,
+  scryptSync,
+  sign,
+  timingSafeEqual,
+} from 'crypto';
+import type { PostAuthenticationTriggerEvent, PostConfirmationTriggerEvent } from 'aws-lambda';
+
+// Longer than Cognito's one hour, as there is no refresh token to renew a local session with
+const TOKEN_VALIDITY_SECONDS = 12 * 60 * 60;
+
+interface LocalUser {
+  sub: string;
+  email: string;
+  salt: string;
+  passwordHash: string;
+  confirmed: boolean;
+  confirmationCode?: string;
+}
+
+// What is kept in the data directory, so sessions and accounts survive a restart
+interface IssuerState {
+  privateKey: string; // PKCS#8 PEM
+  users: LocalUser[];
+}
+
+export type TriggerInvoker = (trigger: string, event: object) => Promise<void>;
+
+// Rejected requests, named like the Cognito errors the web app would otherwise see
+export class LocalAuthError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+    this.name = 'LocalAuthError';
+  }
+}
+
+/**
+ * Stands in for the Cognito user pool: signs up and confirms users, running the pool's Lambda
+ * triggers, and issues RS256 ID tokens with the claims Cognito puts in them. The authorizer
+ * verifies them like Cognito tokens once it is given this issuer's keys (see jwks()).
+ * Verification codes are written to the log instead of being emailed.
+ */
+export class LocalIssuer {
+  readonly region: string;
+  readonly userPoolId: string;
+  readonly clientId: string;
+  private readonly privateKey: KeyObject;
+  private readonly kid: string;
+  private readonly users: Map<string, LocalUser>;
+  private readonly statePath?: string;
+  private readonly invokeTrigger: TriggerInvoker;
+
+  constructor(options: {
+    userPoolId: string; // Must look like a Cognito pool ID, e.g. us-east-1_local
+    clientId: string;
+    dataDir?: string;
+    invokeTrigger: TriggerInvoker;
+  }) {
+    this.userPoolId = options.userPoolId;
+    this.region = options.userPoolId.split('_')[0];
+    this.clientId = options.clientId;
+    this.invokeTrigger = options.invokeTrigger;
+    this.statePath = options.dataDir && join(options.dataDir, 'local-auth.json');
+
+    const state: IssuerState | undefined = this.statePath && existsSync(this.statePath)
+      ? JSON.parse(readFileSync(this.statePath, 'utf8'))
+      : undefined;
+    this.privateKey = state
+      ? createPrivateKey(state.privateKey)
+      : generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey;
+    this.users = new Map((state?.users ?? []).map(user => [user.email, user]));
+    this.kid = createHash('sha256').update(JSON.stringify(this.publicJwk())).digest('base64url').slice(0, 16);
+    this.save();
+  }
+
+  get issuer(): string {
+    return `https://cognito-idp.${this.region}.amazonaws.com/${this.userPoolId}`;
+  }
+
+  jwks(): { keys: JsonWebKey[] } {
+    return { keys: [{ ...this.publicJwk(), kid: this.kid, alg: 'RS256', use: 'sig' }] };
+  }
+
+  async signUp(email: string, password: string): Promise<void> {
+    const key = normalizeEmail(email);
+    if (this.users.get(key)?.confirmed) {
+      throw new LocalAuthError('UsernameExistsException', 'An account with the given email already exists.');
+    }
+
+    const salt = randomUUID();
+    const user: LocalUser = {
+      sub: this.users.get(key)?.sub ?? randomUUID(),
+      email: key,
+      salt,
+      passwordHash: hashPassword(password, salt),
+      confirmed: false,
+      confirmationCode: String(randomInt(0, 1000000)).padStart(6, '0'),
+    };
+    this.users.set(key, user);
+    this.save();
+
+    console.log(`Verification code for ${user.email}: ${user.confirmationCode}`);
+  }
+
+  async confirmSignUp(email: string, code: string): Promise<void> {
+    const user = this.users.get(normalizeEmail(email));
+    if (!user) {
+      throw new LocalAuthError('UserNotFoundException', 'Username/client id combination not found.');
+    }
+    if (user.confirmed) {
+      return;
+    }
+    if (code.trim() !== user.confirmationCode) {
+      throw new LocalAuthError('CodeMismatchException', 'Invalid verification code provided, please try again.');
+    }
+
+    user.confirmed = true;
+    delete user.confirmationCode;
+    this.save();
+
+    const event: PostConfirmationTriggerEvent = {
+      ...this.triggerEventBase(user),
+      triggerSource: 'PostConfirmation_ConfirmSignUp',
+      request: { userAttributes: this.userAttributes(user) },
+      response: {},
+    };
+    await this.invokeTrigger('PostConfirmation', event);
+  }
+
+  async signIn(
+    email: string,
+    password: string
+  ): Promise<{ idToken: string; expiresAt: number; user: { sub: string; email: string } }> {
+    const user = this.users.get(normalizeEmail(email));
+    if (!user || !passwordMatches(user, password)) {
+      throw new LocalAuthError('NotAuthorizedException', 'Incorrect username or password.');
+    }
+    if (!user.confirmed) {
+      throw new LocalAuthError('UserNotConfirmedException', 'User is not confirmed.');
+    }
+
+    const event: PostAuthenticationTriggerEvent = {
+      ...this.triggerEventBase(user),
+      triggerSource: 'PostAuthentication_Authentication',
+      request: { userAttributes: this.userAttributes(user), newDeviceUsed: false },
+      response: {},
+    };
+    await this.invokeTrigger('PostAuthentication', event);
+
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = now + TOKEN_VALIDITY_SECONDS;
+    const idToken = this.signToken({
+      sub: user.sub,
+      email_verified: true,
+      iss: this.issuer,
+      'cognito:username': user.sub,
+      aud: this.clientId,
+      event_id: randomUUID(),
+      token_use: 'id',
+      auth_time: now,
+      exp: expiresAt,
+      iat: now,
+      jti: randomUUID(),
+      email: user.email,
+    });
+
+    return { idToken, expiresAt, user: { sub: user.sub, email: user.email } };
+  }
+
+  private signToken(payload: Record<string, unknown>): string {
+    const header = { kid: this.kid, alg: 'RS256' };
+    const signingInput = `${encodeJson(header)}.${encodeJson(payload)}`;
+    const signature = sign('sha256', Buffer.from(signingInput), this.privateKey).toString('base64url');
+    return `${signingInput}.${signature}`;
+  }
+
+  private publicJwk(): JsonWebKey {
+    return createPublicKey(this.privateKey).export({ format: 'jwk' });
+  }
+
+  private triggerEventBase(user: LocalUser) {
+    return {
+      version: '1',
+      region: this.region,
+      userPoolId: this.userPoolId,
+      userName: user.sub,
+      callerContext: { awsSdkVersion: 'local', clientId: this.clientId },
+    };
+  }
+
+  private userAttributes(user: LocalUser): Record<string, string> {
+    return {
+      sub: user.sub,
+      email: user.email,
+      email_verified: 'true',
+      'cognito:user_status': 'CONFIRMED',
+    };
+  }
+
+  private save(): void {
+    if (!this.statePath) {
+      return;
+    }
+    const state: IssuerState = {
+      privateKey: this.privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      users: [...this.users.values()],
+    };
+    writeFileSync(this.statePath, JSON.stringify(state, null, 2));
+  }
+}
+
+// The pool signs users in by email, which Cognito matches case-insensitively
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function hashPassword(password: string, salt: string): string {
+  return scryptSync(password, salt, 32).toString('hex');
+}
+
+function passwordMatches(user: LocalUser, password: string): boolean {
+  return timingSafeEqual(
+    Buffer.from(hashPassword(password, user.salt), 'hex'),
+    Buffer.from(user.passwordHash, 'hex')
+  );
+}
+
+function encodeJson(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
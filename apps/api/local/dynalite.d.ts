@@ -0,0 +1,13 @@
+declare module 'dynalite' {
+  import { Server } from 'http';
+
+  interface DynaliteOptions {
+    path?: string; // LevelDB directory; in memory when omitted
+    createTableMs?: number;
+    deleteTableMs?: number;
+    updateTableMs?: number;
+    maxItemSizeKb?: number;
+  }
+
+  export default function dynalite(options?: DynaliteOptions): Server;
+}
@@ -0,0 +1,42 @@
+import { AddressInfo } from 'net';
+import dynalite from 'dynalite';
+import {
+  CreateTableCommand,
+  CreateTableCommandInput,
+  DynamoDBClient,
+  ListTablesCommand,
+} from '@aws-sdk/client-dynamodb';
+
+export interface LocalDynamoDb {
+  endpoint: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Starts dynalite, a DynamoDB implementation that keeps tables in memory, or in a LevelDB store
+ * under `dataDir` so they survive restarts. Tables missing from the store are created.
+ */
+export async function startDynamoDb(
+  tables: CreateTableCommandInput[],
+  options: { port: number; dataDir?: string }
+): Promise<LocalDynamoDb> {
+  const server = dynalite({ path: options.dataDir, createTableMs: 0, deleteTableMs: 0, updateTableMs: 0 });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port, '127.0.0.1', () => resolve());
+  });
+
+  const endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const client = new DynamoDBClient({ endpoint });
+  const existing = new Set((await client.send(new ListTablesCommand({}))).TableNames);
+
+  for (const table of tables.filter(table => !existing.has(table.TableName!))) {
+    await client.send(new CreateTableCommand(table));
+  }
+  client.destroy();
+
+  return {
+    endpoint,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,255 @@
+import { randomUUID } from 'crypto';
+import type {
+  APIGatewayAuthorizerResult,
+  APIGatewayEventRequestContextWithAuthorizer,
+  APIGatewayProxyEvent,
+  APIGatewayProxyResult,
+  APIGatewayRequestAuthorizerEvent,
+} from 'aws-lambda';
+import { LocalTemplate, RouteDefinition } from './template.js';
+
+const API_ID = 'local';
+const ACCOUNT_ID = '000000000000';
+const REGION = 'us-east-1';
+
+export type Invoker = (functionName: string, event: object) => Promise<any>;
+
+export interface LocalRequest {
+  method: string;
+  url: string; // Path and query string
+  rawHeaders: string[]; // Alternating names and values, as sent
+  body: string;
+  sourceIp: string;
+}
+
+export interface LocalResponse {
+  statusCode: number;
+  headers: Record<string, string | string[]>;
+  body: string | Buffer;
+}
+
+interface MatchedRoute {
+  functionName: string;
+  route: RouteDefinition;
+  pathParameters: Record<string, string>;
+}
+
+/**
+ * Plays API Gateway for the template's routes: runs the Lambda authorizer on protected routes,
+ * turns requests into proxy events for the handlers and answers CORS preflights. Rejected
+ * requests get the template's gateway responses. Unlike API Gateway, authorizer decisions are
+ * not cached, so a revoked token stops working at once.
+ */
+export class LocalGateway {
+  private readonly routes: { functionName: string; route: RouteDefinition; pattern: RegExp }[];
+
+  constructor(private readonly template: LocalTemplate, private readonly invoke: Invoker) {
+    this.routes = template.functions.flatMap(fn => fn.routes.map(route => ({
+      functionName: fn.name,
+      route,
+      pattern: new RegExp(`^${route.path.replace(/\{(\w+)\}/g, '(?<$1>[^/]+)')}$`),
+    })));
+  }
+
+  get routeCount(): number {
+    return this.routes.length;
+  }
+
+  async handle(request: LocalRequest): Promise<LocalResponse> {
+    const requestId = randomUUID();
+    const url = new URL(request.url, 'http://localhost');
+
+    if (request.method === 'OPTIONS') {
+      return this.findRoute(url.pathname)
+        ? { statusCode: 200, headers: this.template.corsHeaders, body: '' }
+        : this.gatewayError('MISSING_AUTHENTICATION_TOKEN', 403, 'Missing Authentication Token', requestId);
+    }
+
+    const matched = this.findRoute(url.pathname, request.method);
+    if (!matched) {
+      return this.gatewayError('MISSING_AUTHENTICATION_TOKEN', 403, 'Missing Authentication Token', requestId);
+    }
+
+    const headers: Record<string, string> = {};
+    const multiValueHeaders: Record<string, string[]> = {};
+    for (let i = 0; i < request.rawHeaders.length; i += 2) {
+      const [name, value] = [request.rawHeaders[i], request.rawHeaders[i + 1]];
+      headers[name] = value;
+      (multiValueHeaders[name] ??= []).push(value);
+    }
+
+    const queryStringParameters: Record<string, string> = {};
+    const multiValueQueryStringParameters: Record<string, string[]> = {};
+    url.searchParams.forEach((value, name) => {
+      queryStringParameters[name] = value;
+      (multiValueQueryStringParameters[name] ??= []).push(value);
+    });
+    const hasQuery = Object.keys(queryStringParameters).length > 0;
+    const hasPathParameters = Object.keys(matched.pathParameters).length > 0;
+
+    const methodArn =
+      `arn:aws:execute-api:${REGION}:${ACCOUNT_ID}:${API_ID}/${this.template.stageName}/${request.method}${url.pathname}`;
+    const requestContext: APIGatewayEventRequestContextWithAuthorizer<undefined> = {
+      accountId: ACCOUNT_ID,
+      apiId: API_ID,
+      authorizer: undefined,
+      protocol: 'HTTP/1.1',
+      httpMethod: request.method,
+      identity: localIdentity(request.sourceIp, lookupHeader(headers, 'User-Agent')),
+      path: `/${this.template.stageName}${url.pathname}`,
+      stage: this.template.stageName,
+      requestId,
+      requestTimeEpoch: Date.now(),
+      resourceId: matched.route.path,
+      resourcePath: matched.route.path,
+    };
+
+    let authorizerContext: Record<string, any> | undefined;
+    if (matched.route.authorized && this.template.authorizer) {
+      // API Gateway rejects a request without the identity source before calling the authorizer
+      if (!lookupHeader(headers, 'Authorization')) {
+        return this.gatewayError('UNAUTHORIZED', 401, 'Unauthorized', requestId);
+      }
+
+      const authorizerEvent: APIGatewayRequestAuthorizerEvent = {
+        type: 'REQUEST',
+        methodArn,
+        resource: matched.route.path,
+        path: url.pathname,
+        httpMethod: request.method,
+        headers,
+        multiValueHeaders,
+        pathParameters: hasPathParameters ? matched.pathParameters : null,
+        queryStringParameters: hasQuery ? queryStringParameters : null,
+        multiValueQueryStringParameters: hasQuery ? multiValueQueryStringParameters : null,
+        stageVariables: null,
+        requestContext,
+      };
+
+      let result: APIGatewayAuthorizerResult;
+      try {
+        result = await this.invoke(this.template.authorizer, authorizerEvent);
+      } catch {
+        return this.gatewayError('UNAUTHORIZED', 401, 'Unauthorized', requestId);
+      }
+      if (!isAllowed(result, methodArn)) {
+        return this.gatewayError('ACCESS_DENIED', 403, 'User is not authorized to access this resource', requestId);
+      }
+      authorizerContext = { ...result.context, principalId: result.principalId };
+    }
+
+    const event: APIGatewayProxyEvent = {
+      resource: matched.route.path,
+      path: url.pathname,
+      httpMethod: request.method,
+      headers,
+      multiValueHeaders,
+      pathParameters: hasPathParameters ? matched.pathParameters : null,
+      queryStringParameters: hasQuery ? queryStringParameters : null,
+      multiValueQueryStringParameters: hasQuery ? multiValueQueryStringParameters : null,
+      stageVariables: null,
+      body: request.body || null,
+      isBase64Encoded: false,
+      requestContext: { ...requestContext, authorizer: authorizerContext },
+    };
+
+    let result: APIGatewayProxyResult;
+    try {
+      result = await this.invoke(matched.functionName, event);
+    } catch (error) {
+      console.error(`${matched.functionName} failed:`, error);
+      return this.gatewayError('DEFAULT_5XX', 502, 'Internal server error', requestId);
+    }
+
+    return {
+      statusCode: result.statusCode,
+      headers: responseHeaders(result),
+      body: result.isBase64Encoded ? Buffer.from(result.body, 'base64') : result.body,
+    };
+  }
+
+  private findRoute(path: string, method?: string): MatchedRoute | undefined {
+    for (const { functionName, route, pattern } of this.routes) {
+      const match = pattern.exec(path);
+      if (match && (!method || route.method === method)) {
+        const pathParameters = Object.fromEntries(
+          Object.entries(match.groups ?? {}).map(([name, value]) => [name, decodeURIComponent(value)])
+        );
+        return { functionName, route, pathParameters };
+      }
+    }
+    return undefined;
+  }
+
+  // Falls back to the DEFAULT_4XX/5XX response like API Gateway, then to its built-in body
+  private gatewayError(type: string, statusCode: number, message: string, requestId: string): LocalResponse {
+    const response = this.template.gatewayResponses[type] ??
+      this.template.gatewayResponses[statusCode >= 500 ? 'DEFAULT_5XX' : 'DEFAULT_4XX'];
+
+    const body = response?.template
+      ? response.template
+        .replace('$context.error.messageString', JSON.stringify(message))
+        .replace('$context.requestId', requestId)
+      : JSON.stringify({ message });
+
+    return {
+      statusCode,
+      headers: { 'Content-Type': 'application/json', ...response?.headers },
+      body,
+    };
+  }
+}
+
+function lookupHeader(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(header => header.toLowerCase() === name.toLowerCase());
+  return key && headers[key];
+}
+
+// Single-value headers win, as API Gateway merges them over the multi-value ones
+function responseHeaders(result: APIGatewayProxyResult): Record<string, string | string[]> {
+  const headers: Record<string, string | string[]> = {};
+  Object.entries(result.multiValueHeaders ?? {}).forEach(([name, values]) => {
+    headers[name] = values.map(String);
+  });
+  Object.entries(result.headers ?? {}).forEach(([name, value]) => {
+    headers[name] = String(value);
+  });
+  return headers;
+}
+
+// Policy resources are ARNs with * wildcards
+function matchesResource(resource: string, methodArn: string): boolean {
+  const pattern = resource.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${pattern}$`).test(methodArn);
+}
+
+// An explicit Deny wins over any Allow, as in IAM
+function isAllowed(result: APIGatewayAuthorizerResult, methodArn: string): boolean {
+  const statements = result.policyDocument.Statement.map(statement => statement as Record<string, any>);
+  const matching = statements.filter(statement =>
+    [statement.Resource ?? []].flat().some((resource: string) => matchesResource(resource, methodArn))
+  );
+
+  return matching.some(statement => statement.Effect === 'Allow') &&
+    !matching.some(statement => statement.Effect === 'Deny');
+}
+
+function localIdentity(sourceIp: string, userAgent: string | undefined): APIGatewayProxyEvent['requestContext']['identity'] {
+  return {
+    accessKey: null,
+    accountId: null,
+    apiKey: null,
+    apiKeyId: null,
+    caller: null,
+    clientCert: null,
+    cognitoAuthenticationProvider: null,
+    cognitoAuthenticationType: null,
+    cognitoIdentityId: null,
+    cognitoIdentityPoolId: null,
+    principalOrgId: null,
+    sourceIp,
+    user: null,
+    userAgent: userAgent ?? null,
+    userArn: null,
+  };
+}
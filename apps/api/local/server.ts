@@ -0,0 +1,279 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { mkdirSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { parseArgs } from 'util';
+import { randomUUID } from 'crypto';
+import type { ScheduledEvent } from 'aws-lambda';
+import { loadTemplate, FunctionDefinition } from './template.js';
+import { startDynamoDb } from './dynamodb.js';
+import { LocalGateway, LocalResponse } from './gateway.js';
+import { LocalAuthError, LocalIssuer } from './auth.js';
+
+// Local development server: every API function from template.yaml behind one HTTP server, with
+// dynalite for DynamoDB, recorded weather, the bundled gazetteer and a local Cognito stand-in.
+// Run `npm run dev` from apps/api; see the README for the options.
+
+type Handler = (event: object) => Promise<any>;
+
+const API_ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const USER_POOL_ID = 'us-east-1_local'; // Cognito pool IDs carry their region
+const USER_POOL_CLIENT_ID = 'local';
+
+// CORS for the /_local routes, which the web app calls from another origin
+const LOCAL_HEADERS = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET,POST,OPTIONS',
+};
+
+const { values: options } = parseArgs({
+  options: {
+    port: { type: 'string', default: '4000' },
+    'dynamodb-port': { type: 'string', default: '4001' },
+    'data-dir': { type: 'string' }, // Keeps tables and accounts across restarts; in memory when omitted
+  },
+});
+const port = Number(options.port);
+const dataDir = options['data-dir'] && resolve(options['data-dir']);
+if (dataDir) {
+  mkdirSync(dataDir, { recursive: true });
+}
+
+// The SDK must never go looking for real credentials or reach AWS
+process.env.AWS_REGION = 'us-east-1';
+process.env.AWS_ACCESS_KEY_ID = 'local';
+process.env.AWS_SECRET_ACCESS_KEY = 'local';
+
+const template = loadTemplate(join(API_ROOT, 'template.yaml'), {
+  WeatherProvider: 'fixture',
+  GeocodingProvider: 'gazetteer',
+  MailTransport: 'console',
+});
+
+const dynamoDb = await startDynamoDb(template.tables, {
+  port: Number(options['dynamodb-port']),
+  dataDir: dataDir && join(dataDir, 'dynamodb'),
+});
+
+const handlers = new Map<string, Handler>();
+const issuer = new LocalIssuer({
+  userPoolId: USER_POOL_ID,
+  clientId: USER_POOL_CLIENT_ID,
+  dataDir,
+  invokeTrigger: async (trigger, event) => {
+    const functionName = template.cognitoTriggers[trigger];
+    if (functionName) {
+      await invoke(functionName, event);
+    }
+  },
+});
+
+// Functions share one process, so they share one environment: the template's, under anything
+// already set in the shell (e.g. WEATHER_PROVIDER=open-meteo), under what has to be local
+const environment: Record<string, string> = Object.assign(
+  {},
+  template.environment,
+  ...template.functions.map(fn => fn.environment)
+);
+Object.entries(environment).forEach(([name, value]) => {
+  process.env[name] ??= value;
+});
+Object.assign(process.env, {
+  AWS_ENDPOINT_URL_DYNAMODB: dynamoDb.endpoint,
+  AWS_ENDPOINT_URL_API_GATEWAY: `http://127.0.0.1:${port}`, // Answers the authorizer cache flush
+  USER_POOL_ID,
+  USER_POOL_CLIENT_ID,
+  FETCH_QUEUE: 'in-process',
+  WEBHOOK_QUEUE: 'in-process',
+});
+
+// The SQS workers are left out: the in-process queues run fetch jobs and deliver webhooks inside the scheduled run
+const localFunctions = template.functions.filter(fn =>
+  fn.routes.length > 0 ||
+  fn.schedules.length > 0 ||
+  fn.name === template.authorizer ||
+  Object.values(template.cognitoTriggers).includes(fn.name)
+);
+for (const fn of localFunctions) {
+  handlers.set(fn.name, await loadHandler(fn));
+}
+
+// The authorizer verifies ID tokens against the issuer's keys instead of fetching Cognito's
+const authorizer = localFunctions.find(fn => fn.name === template.authorizer);
+if (authorizer) {
+  const { verifier } = await import(pathToFileURL(join(API_ROOT, authorizer.codeUri, 'verifier.ts')).href);
+  verifier.cacheJwks(issuer.jwks());
+}
+
+const gateway = new LocalGateway(template, invoke);
+
+async function loadHandler(fn: FunctionDefinition): Promise<Handler> {
+  const [file, exportName] = fn.handler.split('.');
+  const module = await import(pathToFileURL(join(API_ROOT, fn.codeUri, `${file}.ts`)).href);
+  if (typeof module[exportName] !== 'function') {
+    throw new Error(`${fn.name}: ${fn.codeUri}${file}.ts does not export ${exportName}`);
+  }
+  return module[exportName];
+}
+
+function invoke(functionName: string, event: object): Promise<any> {
+  const handler = handlers.get(functionName);
+  if (!handler) {
+    return Promise.reject(new Error(`Function ${functionName} is not available locally`));
+  }
+  return handler(event);
+}
+
+async function runSchedule(functionName: string): Promise<LocalResponse> {
+  const fn = localFunctions.find(candidate => candidate.name === functionName);
+  if (!fn || fn.schedules.length === 0) {
+    return localJson(404, {
+      message: `No scheduled function named ${functionName}`,
+      scheduled: localFunctions.filter(candidate => candidate.schedules.length > 0).map(candidate => candidate.name),
+    });
+  }
+
+  const event: ScheduledEvent = {
+    version: '0',
+    id: randomUUID(),
+    'detail-type': 'Scheduled Event',
+    source: 'aws.events',
+    account: '000000000000',
+    time: new Date().toISOString(),
+    region: process.env.AWS_REGION!,
+    resources: [],
+    detail: {},
+  };
+
+  const startedAt = Date.now();
+  try {
+    await invoke(fn.name, event);
+    return localJson(200, { function: fn.name, durationMs: Date.now() - startedAt });
+  } catch (error) {
+    console.error(`${fn.name} failed:`, error);
+    return localJson(500, { function: fn.name, message: error instanceof Error ? error.message : 'Unknown error' });
+  }
+}
+
+async function handleAuth(action: string, body: string): Promise<LocalResponse> {
+  let input: { email?: string; password?: string; code?: string };
+  try {
+    input = JSON.parse(body || '{}');
+  } catch {
+    return localJson(400, { code: 'InvalidParameterException', message: 'Request body must be valid JSON' });
+  }
+
+  const email = input.email ?? '';
+  const password = input.password ?? '';
+  try {
+    switch (action) {
+      case 'sign-up':
+        await issuer.signUp(email, password);
+        return localJson(200, { message: 'Check the local server log for the verification code' });
+      case 'confirm-sign-up':
+        await issuer.confirmSignUp(email, input.code ?? '');
+        return localJson(200, { message: 'Account confirmed' });
+      case 'sign-in':
+        return localJson(200, await issuer.signIn(email, password));
+      default:
+        return localJson(404, { code: 'NotFound', message: `Unknown action ${action}` });
+    }
+  } catch (error) {
+    if (error instanceof LocalAuthError) {
+      return localJson(400, { code: error.code, message: error.message });
+    }
+    throw error;
+  }
+}
+
+async function route(request: IncomingMessage, body: string): Promise<LocalResponse> {
+  const method = request.method ?? 'GET';
+  const path = new URL(request.url ?? '/', 'http://localhost').pathname;
+
+  if (path.startsWith('/_local/')) {
+    if (method === 'OPTIONS') {
+      return { statusCode: 204, headers: LOCAL_HEADERS, body: '' };
+    }
+
+    const auth = path.match(/^\/_local\/auth\/([\w-]+)$/);
+    if (auth && method === 'POST') {
+      return handleAuth(auth[1], body);
+    }
+    if (path === '/_local/auth/jwks.json' && method === 'GET') {
+      return localJson(200, issuer.jwks());
+    }
+
+    const schedule = path.match(/^\/_local\/schedules\/(\w+)$/);
+    if (schedule && method === 'POST') {
+      return runSchedule(schedule[1]);
+    }
+
+    return localJson(404, { message: `No local route for ${method} ${path}` });
+  }
+
+  // FlushStageAuthorizersCache from the tokens function; there is no authorizer cache to flush
+  if (method === 'DELETE' && /^\/restapis\/[^/]+\/stages\/[^/]+\/cache\/authorizers$/.test(path)) {
+    return { statusCode: 202, headers: {}, body: '' };
+  }
+
+  return gateway.handle({
+    method,
+    url: request.url ?? '/',
+    rawHeaders: request.rawHeaders,
+    body,
+    sourceIp: request.socket.remoteAddress?.replace(/^::ffff:/, '') ?? '127.0.0.1',
+  });
+}
+
+function localJson(statusCode: number, body: unknown): LocalResponse {
+  return { statusCode, headers: LOCAL_HEADERS, body: JSON.stringify(body) };
+}
+
+async function readBody(request: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+const server = createServer(async (request: IncomingMessage, response: ServerResponse) => {
+  const startedAt = Date.now();
+  let result: LocalResponse;
+  try {
+    result = await route(request, await readBody(request));
+  } catch (error) {
+    console.error(`${request.method} ${request.url} failed:`, error);
+    result = localJson(500, { message: error instanceof Error ? error.message : 'Internal server error' });
+  }
+
+  response.writeHead(result.statusCode, result.headers);
+  response.end(result.body);
+  console.log(`${request.method} ${request.url} ${result.statusCode} ${Date.now() - startedAt}ms`);
+});
+
+await new Promise<void>((ready, reject) => {
+  server.once('error', reject);
+  server.listen(port, ready);
+});
+
+console.log(`
+Weather API running at http://localhost:${port} (${gateway.routeCount} routes, ${handlers.size} functions)
+DynamoDB (dynalite) at ${dynamoDb.endpoint}, ${dataDir ? `stored in ${dataDir}` : 'in memory'}
+
+Web app (apps/web/.env.local):
+  NEXT_PUBLIC_API_URL=http://localhost:${port}
+  NEXT_PUBLIC_LOCAL_AUTH_URL=http://localhost:${port}/_local/auth
+
+Fetch weather now: curl -X POST http://localhost:${port}/_local/schedules/WeatherFetchFunction
+`);
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, async () => {
+    server.close();
+    await dynamoDb.close();
+    process.exit(0);
+  });
+}
@@ -0,0 +1,195 @@
+import { readFileSync } from 'fs';
+import { parse, ScalarTag } from 'yaml';
+import type { CreateTableCommandInput } from '@aws-sdk/client-dynamodb';
+
+// The short-form intrinsic functions template.yaml uses, parsed into their long form
+const INTRINSIC_TAGS: ScalarTag[] = [
+  { tag: '!Ref', resolve: value => ({ Ref: value }) },
+  { tag: '!GetAtt', resolve: value => ({ 'Fn::GetAtt': value.split('.') }) },
+  { tag: '!Sub', resolve: value => ({ 'Fn::Sub': value }) },
+];
+
+const PSEUDO_PARAMETERS: Record<string, string> = {
+  'AWS::Region': 'us-east-1',
+  'AWS::AccountId': '000000000000',
+  'AWS::StackName': 'local',
+};
+
+export interface RouteDefinition {
+  method: string;
+  path: string; // API Gateway resource path, e.g. /subscriptions/{id}
+  authorized: boolean;
+}
+
+export interface FunctionDefinition {
+  name: string; // Logical ID, e.g. SubscriptionsFunction
+  codeUri: string;
+  handler: string; // file.export, e.g. index.handler
+  environment: Record<string, string>;
+  routes: RouteDefinition[];
+  schedules: string[];
+}
+
+export interface GatewayResponseDefinition {
+  headers: Record<string, string>;
+  template: string; // Uses $context.error.messageString and $context.requestId
+}
+
+export interface LocalTemplate {
+  tables: CreateTableCommandInput[];
+  functions: FunctionDefinition[];
+  environment: Record<string, string>; // Globals, shared by every function
+  stageName: string;
+  authorizer?: string; // Function behind the API's Lambda authorizer
+  cognitoTriggers: Record<string, string>; // e.g. PostConfirmation -> PostConfirmationFunction
+  corsHeaders: Record<string, string>;
+  gatewayResponses: Record<string, GatewayResponseDefinition>; // By ResponseType
+}
+
+type Resource = { Type: string; Properties?: Record<string, any> };
+
+/**
+ * Reads what the local server needs from the SAM template: tables, functions with their routes and
+ * schedules, and the API's authorizer, CORS and gateway responses. References resolve to table
+ * names, `parameters` (falling back to the template's defaults) or else the referenced logical ID.
+ */
+export function loadTemplate(path: string, parameters: Record<string, string>): LocalTemplate {
+  const template = parse(readFileSync(path, 'utf8'), { customTags: INTRINSIC_TAGS });
+  const resources: Record<string, Resource> = template.Resources;
+
+  function resolve(value: any): string {
+    if (typeof value !== 'object' || value === null) {
+      return String(value);
+    }
+    if ('Ref' in value) {
+      return resolveRef(value.Ref);
+    }
+    if ('Fn::GetAtt' in value) {
+      return `${value['Fn::GetAtt'][0]}.${value['Fn::GetAtt'][1]}`;
+    }
+    if ('Fn::Sub' in value) {
+      return String(value['Fn::Sub']).replace(/\$\{([\w:]+)\}/g, (_, name) => resolveRef(name));
+    }
+    throw new Error(`Unsupported template value: ${JSON.stringify(value)}`);
+  }
+
+  function resolveRef(name: string): string {
+    if (name in PSEUDO_PARAMETERS) {
+      return PSEUDO_PARAMETERS[name];
+    }
+    if (name in parameters) {
+      return parameters[name];
+    }
+    if (template.Parameters?.[name]) {
+      return String(template.Parameters[name].Default ?? '');
+    }
+    const resource = resources[name];
+    if (resource?.Type === 'AWS::DynamoDB::Table') {
+      return resource.Properties!.TableName;
+    }
+    return name;
+  }
+
+  function resolveVariables(variables: Record<string, unknown> = {}): Record<string, string> {
+    return Object.fromEntries(Object.entries(variables).map(([key, value]) => [key, resolve(value)]));
+  }
+
+  const api = Object.values(resources).find(resource => resource.Type === 'AWS::Serverless::Api');
+  const authorizers: Record<string, any> = api?.Properties?.Auth?.Authorizers ?? {};
+  const authorizerArn = Object.values(authorizers)[0]?.FunctionArn;
+  const userPool = Object.values(resources).find(resource => resource.Type === 'AWS::Cognito::UserPool');
+  const cognitoTriggers = resolveVariables(userPool?.Properties?.LambdaConfig);
+
+  return {
+    tables: Object.values(resources)
+      .filter(resource => resource.Type === 'AWS::DynamoDB::Table')
+      .map(resource => tableInput(resource.Properties!)),
+    functions: Object.entries(resources)
+      .filter(([, resource]) => resource.Type === 'AWS::Serverless::Function')
+      .map(([name, resource]) => functionDefinition(name, resource.Properties!, resolveVariables)),
+    environment: resolveVariables(template.Globals?.Function?.Environment?.Variables),
+    stageName: api?.Properties?.StageName ?? 'prod',
+    authorizer: authorizerArn && functionName(resolve(authorizerArn)),
+    cognitoTriggers: Object.fromEntries(
+      Object.entries(cognitoTriggers).map(([trigger, arn]) => [trigger, functionName(arn)])
+    ),
+    corsHeaders: corsHeaders(api?.Properties?.Cors ?? {}),
+    gatewayResponses: Object.fromEntries(
+      Object.values(resources)
+        .filter(resource => resource.Type === 'AWS::ApiGateway::GatewayResponse')
+        .map(resource => [resource.Properties!.ResponseType, gatewayResponse(resource.Properties!)])
+    ),
+  };
+}
+
+// Only the key schema and indexes matter locally; TTL, streams and backups are left out
+function tableInput(properties: Record<string, any>): CreateTableCommandInput {
+  return {
+    TableName: properties.TableName,
+    AttributeDefinitions: properties.AttributeDefinitions,
+    KeySchema: properties.KeySchema,
+    GlobalSecondaryIndexes: properties.GlobalSecondaryIndexes,
+    BillingMode: 'PAY_PER_REQUEST',
+  };
+}
+
+function functionDefinition(
+  name: string,
+  properties: Record<string, any>,
+  resolveVariables: (variables?: Record<string, unknown>) => Record<string, string>
+): FunctionDefinition {
+  const events = Object.values<{ Type: string; Properties: Record<string, any> }>(properties.Events ?? {});
+
+  return {
+    name,
+    codeUri: properties.CodeUri,
+    handler: properties.Handler,
+    environment: resolveVariables(properties.Environment?.Variables),
+    routes: events
+      .filter(event => event.Type === 'Api')
+      .map(event => ({
+        method: event.Properties.Method.toUpperCase(),
+        path: event.Properties.Path,
+        authorized: Boolean(event.Properties.Auth?.Authorizer) && event.Properties.Auth.Authorizer !== 'NONE',
+      })),
+    schedules: events
+      .filter(event => event.Type === 'Schedule')
+      .map(event => event.Properties.Schedule),
+  };
+}
+
+// Function ARNs resolve to "LogicalId.Arn"
+function functionName(arn: string): string {
+  return arn.replace(/\.Arn$/, '');
+}
+
+// SAM wraps CORS values in single quotes, as they are mapping expressions
+function unquote(value: string): string {
+  return value.replace(/^'(.*)'$/, '$1');
+}
+
+function corsHeaders(cors: Record<string, string>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  if (cors.AllowOrigin) {
+    headers['Access-Control-Allow-Origin'] = unquote(cors.AllowOrigin);
+  }
+  if (cors.AllowHeaders) {
+    headers['Access-Control-Allow-Headers'] = unquote(cors.AllowHeaders);
+  }
+  if (cors.AllowMethods) {
+    headers['Access-Control-Allow-Methods'] = unquote(cors.AllowMethods);
+  }
+  return headers;
+}
+
+function gatewayResponse(properties: Record<string, any>): GatewayResponseDefinition {
+  const headers: Record<string, string> = {};
+  Object.entries<string>(properties.ResponseParameters ?? {}).forEach(([key, value]) => {
+    const header = key.match(/^gatewayresponse\.header\.(.+)$/);
+    if (header) {
+      headers[header[1]] = unquote(value);
+    }
+  });
+
+  return { headers, template: properties.ResponseTemplates?.['application/json'] ?? '' };
+}
@@ -0,0 +1,106 @@
+import { QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { ListActivityResponse } from './types.js';
+import { getIdentity, hasScope } from '../lib/auth.js';
+import { checkRateLimit } from '../lib/rate-limit.js';
+import { ActivityRecord, toActivityEntry } from '../lib/activity.js';
+import { encodeCursor, PageLimits, parsePageRequest } from '../lib/pagination.js';
+import { errorBody, internalError, withRequestId } from '../lib/errors.js';
+import { docClient } from '../lib/dynamodb.js';
+
+const ACTIVITY_TABLE = process.env.ACTIVITY_TABLE!;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,OPTIONS',
+};
+
+const ACTIVITY_PAGE_LIMITS: PageLimits = { default: 25, max: 100 };
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+  withRequestId(await handleRequest(event), event.requestContext?.requestId);
+
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  console.log('Event:', JSON.stringify(event, null, 2));
+
+  try {
+    const identity = getIdentity(event);
+    if (!identity) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify(errorBody('unauthorized', 'Unauthorized')),
+      };
+    }
+    const userId = identity.userId;
+
+    const rateLimit = await checkRateLimit(identity);
+    if (rateLimit.limited) {
+      return {
+        statusCode: 429,
+        headers: { ...headers, ...rateLimit.headers },
+        body: JSON.stringify(errorBody('rate_limited', 'Rate limit exceeded, retry after the time in Retry-After')),
+      };
+    }
+
+    if (!hasScope(identity, 'account:manage')) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('insufficient_scope', 'Token is missing the account:manage scope')),
+      };
+    }
+
+    if (event.httpMethod !== 'GET') {
+      return {
+        statusCode: 405,
+        headers,
+        body: JSON.stringify(errorBody('method_not_allowed', 'Method not allowed')),
+      };
+    }
+
+    return await listActivity(event, userId);
+  } catch (error) {
+    console.error('Error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify(internalError()),
+    };
+  }
+}
+
+async function listActivity(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
+  const page = parsePageRequest(event.queryStringParameters, userId, ['userId', 'sortKey'], ACTIVITY_PAGE_LIMITS);
+  if ('error' in page) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', page.error)),
+    };
+  }
+
+  const result = await docClient.send(new QueryCommand({
+    TableName: ACTIVITY_TABLE,
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: {
+      ':userId': userId,
+    },
+    ScanIndexForward: false, // Newest first
+    Limit: page.limit,
+    ExclusiveStartKey: page.exclusiveStartKey,
+  }));
+
+  const response: ListActivityResponse = {
+    activity: ((result.Items || []) as ActivityRecord[]).map(toActivityEntry),
+    nextCursor: encodeCursor(result.LastEvaluatedKey),
+  };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
@@ -0,0 +1,6 @@
+import { ActivityEntry } from '../lib/activity.js';
+
+export interface ListActivityResponse {
+  activity: ActivityEntry[]; // Newest first
+  nextCursor?: string; // Pass as ?cursor= to fetch the next page
+}
@@ -1,38 +1,46 @@
-import { APIGatewayAuthorizerResult, APIGatewayTokenAuthorizerEvent } from 'aws-lambda';
-import { CognitoJwtVerifier } from 'aws-jwt-verify';
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayAuthorizerResult, APIGatewayRequestAuthorizerEvent } from 'aws-lambda';
+import { QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { createHash } from 'crypto';
+import { encodeScopes, LEGACY_TOKEN_SCOPES } from '../lib/auth.js';
+import { recordActivity } from '../lib/activity.js';
+import { LruCache } from './lru-cache.js';
+import { verifier } from './verifier.js';
+import { docClient } from '../lib/dynamodb.js';
 
-const client = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(client);
-
-const USER_POOL_ID = process.env.USER_POOL_ID!;
-const USER_POOL_CLIENT_ID = process.env.USER_POOL_CLIENT_ID!;
 const TOKENS_TABLE = process.env.API_TOKENS_TABLE!;
 
-// Cognito JWT verifier
-const verifier = CognitoJwtVerifier.create({
-  userPoolId: USER_POOL_ID,
-  tokenUse: 'id',
-  clientId: USER_POOL_CLIENT_ID,
-});
+// Token records by secret hash, so warm containers skip the TokenHashIndex query. Revocation
+// still takes effect at once: every decision re-checks the token with a conditional write.
+const tokenCache = new LruCache<string, Record<string, any>>(
+  Number(process.env.API_KEY_CACHE_SIZE) || 1000,
+  (Number(process.env.API_KEY_CACHE_TTL_SECONDS) || 300) * 1000
+);
+
+// Where an API request came from, recorded against the token that made it
+interface RequestOrigin {
+  sourceIp: string;
+  userAgent: string;
+}
 
-export const handler = async (event: APIGatewayTokenAuthorizerEvent): Promise<APIGatewayAuthorizerResult> => {
+export const handler = async (event: APIGatewayRequestAuthorizerEvent): Promise<APIGatewayAuthorizerResult> => {
   console.log('Authorizer event:', JSON.stringify(event, null, 2));
 
   try {
-    const token = event.authorizationToken;
+    const token = event.headers?.Authorization || event.headers?.authorization || '';
+    const resource = stageResource(event.methodArn);
 
     // Check if it's a Cognito JWT (starts with 'Bearer ')
     if (token.startsWith('Bearer ')) {
       const jwtToken = token.substring(7);
-      return await validateCognitoToken(jwtToken, event.methodArn);
+      return await validateCognitoToken(jwtToken, resource);
     }
 
     // Check if it's an API key (starts with 'wea_')
     if (token.startsWith('wea_')) {
-      return await validateApiKey(token, event.methodArn);
+      return await validateApiKey(token, resource, {
+        sourceIp: event.requestContext.identity.sourceIp,
+        userAgent: event.requestContext.identity.userAgent || '',
+      });
     }
 
     // Invalid token format
@@ -43,65 +51,176 @@ export const handler = async (event: APIGatewayTokenAuthorizerEvent): Promise<AP
   }
 };
 
-async function validateCognitoToken(token: string, methodArn: string): Promise<APIGatewayAuthorizerResult> {
+async function validateCognitoToken(token: string, resource: string): Promise<APIGatewayAuthorizerResult> {
   try {
     const payload = await verifier.verify(token);
     console.log('Cognito token validated for user:', payload.sub);
 
-    return generatePolicy(payload.sub, 'Allow', methodArn, {
+    const context: Record<string, string> = {
       userId: payload.sub,
       authType: 'cognito',
-    });
+    };
+    if (typeof payload.email === 'string') {
+      context.email = payload.email;
+    }
+
+    return generatePolicy(payload.sub, 'Allow', resource, context);
   } catch (error) {
     console.error('Cognito token validation failed:', error);
     throw new Error('Unauthorized');
   }
 }
 
-async function validateApiKey(token: string, methodArn: string): Promise<APIGatewayAuthorizerResult> {
+async function validateApiKey(
+  token: string,
+  resource: string,
+  origin: RequestOrigin
+): Promise<APIGatewayAuthorizerResult> {
   try {
     // Hash the token to look up in DynamoDB
     const tokenHash = createHash('sha256').update(token).digest('hex');
 
-    // Query by tokenHash using GSI
-    const result = await docClient.send(new QueryCommand({
-      TableName: TOKENS_TABLE,
-      IndexName: 'TokenHashIndex',
-      KeyConditionExpression: 'tokenHash = :tokenHash',
-      ExpressionAttributeValues: {
-        ':tokenHash': tokenHash,
-      },
-    }));
-
-    if (!result.Items || result.Items.length === 0) {
-      throw new Error('API key not found');
+    let apiToken = tokenCache.get(tokenHash);
+    if (!apiToken || isExpired(apiToken)) {
+      apiToken = await findTokenByHash(tokenHash); // A cached expiry may since have been extended
+      if (!apiToken) {
+        throw new Error('API key not found');
+      }
+      tokenCache.set(tokenHash, apiToken);
     }
 
-    const apiToken = result.Items[0];
-
     // Check if token is revoked
     if (apiToken.revoked) {
       throw new Error('API key has been revoked');
     }
 
     // Check if token is expired
-    if (apiToken.expiresAt && apiToken.expiresAt < Math.floor(Date.now() / 1000)) {
+    if (isExpired(apiToken)) {
       throw new Error('API key has expired');
     }
 
+    // The cached record may be stale; the token row itself is the source of truth
+    if (!(await touchToken(apiToken, tokenHash, origin))) {
+      tokenCache.delete(tokenHash);
+      throw new Error('API key has been revoked or rotated');
+    }
+
     console.log('API key validated for user:', apiToken.userId);
 
-    return generatePolicy(apiToken.userId, 'Allow', methodArn, {
+    // Handlers enforce scopes; the context only carries strings
+    const context: Record<string, string> = {
       userId: apiToken.userId,
       tokenId: apiToken.id,
       authType: 'apikey',
-    });
+      scopes: encodeScopes(apiToken.scopes ?? LEGACY_TOKEN_SCOPES),
+    };
+    if (apiToken.subscriptionIds?.length) {
+      context.subscriptionIds = apiToken.subscriptionIds.join(',');
+    }
+    if (apiToken.rateLimitPerMinute && apiToken.dailyQuota) {
+      context.rateLimitPerMinute = String(apiToken.rateLimitPerMinute);
+      context.dailyQuota = String(apiToken.dailyQuota);
+    }
+
+    return generatePolicy(apiToken.userId, 'Allow', resource, context);
   } catch (error) {
     console.error('API key validation failed:', error);
     throw new Error('Unauthorized');
   }
 }
 
+// Looks up the current secret first, then a secret replaced by a rotation that is still in its grace period
+async function findTokenByHash(tokenHash: string): Promise<Record<string, any> | undefined> {
+  const current = await docClient.send(new QueryCommand({
+    TableName: TOKENS_TABLE,
+    IndexName: 'TokenHashIndex',
+    KeyConditionExpression: 'tokenHash = :tokenHash',
+    ExpressionAttributeValues: {
+      ':tokenHash': tokenHash,
+    },
+  }));
+
+  if (current.Items && current.Items.length > 0) {
+    return current.Items[0];
+  }
+
+  const previous = await docClient.send(new QueryCommand({
+    TableName: TOKENS_TABLE,
+    IndexName: 'PreviousTokenHashIndex',
+    KeyConditionExpression: 'previousTokenHash = :tokenHash',
+    ExpressionAttributeValues: {
+      ':tokenHash': tokenHash,
+    },
+  }));
+
+  const rotated = previous.Items?.[0];
+  if (!rotated || !rotated.previousTokenExpiresAt || rotated.previousTokenExpiresAt < Math.floor(Date.now() / 1000)) {
+    return undefined;
+  }
+
+  return rotated;
+}
+
+function isExpired(apiToken: Record<string, any>): boolean {
+  return Boolean(apiToken.expiresAt && apiToken.expiresAt < Math.floor(Date.now() / 1000));
+}
+
+// Stamps the token as used, on condition that the secret is still valid: not revoked, and either the
+// current secret or a rotated one still in its grace period. Returns false when the condition fails.
+// The first request from an address the token hasn't used before is added to the owner's activity log.
+// Other failures are logged and never block the request.
+async function touchToken(apiToken: Record<string, any>, tokenHash: string, origin: RequestOrigin): Promise<boolean> {
+  const now = new Date();
+
+  let knownIps: Set<string> | undefined;
+  try {
+    const result = await docClient.send(new UpdateCommand({
+      TableName: TOKENS_TABLE,
+      Key: { id: apiToken.id },
+      UpdateExpression: 'SET lastUsedAt = :now, lastUsedIp = :ip, lastUsedUserAgent = :userAgent ADD knownIps :ips',
+      ConditionExpression: 'revoked = :false AND (tokenHash = :tokenHash OR ' +
+        '(previousTokenHash = :tokenHash AND previousTokenExpiresAt >= :nowSeconds))',
+      ExpressionAttributeValues: {
+        ':now': now.toISOString(),
+        ':ip': origin.sourceIp,
+        ':userAgent': origin.userAgent,
+        ':ips': new Set([origin.sourceIp]),
+        ':false': false,
+        ':tokenHash': tokenHash,
+        ':nowSeconds': Math.floor(now.getTime() / 1000),
+      },
+      ReturnValues: 'UPDATED_OLD',
+    }));
+    knownIps = result.Attributes?.knownIps;
+  } catch (error: any) {
+    if (error.name === 'ConditionalCheckFailedException') {
+      return false;
+    }
+    console.error('Failed to record token use:', error);
+    return true;
+  }
+
+  if (!knownIps?.has(origin.sourceIp)) {
+    await recordActivity({
+      userId: apiToken.userId,
+      authType: 'apikey',
+      tokenId: apiToken.id,
+      ip: origin.sourceIp,
+      userAgent: origin.userAgent || undefined,
+    }, 'token.used_from_new_ip', { id: apiToken.id, details: { name: apiToken.name } });
+  }
+
+  return true;
+}
+
+// API Gateway caches a decision per Authorization header and source IP and reuses it on every route,
+// so the policy must cover the whole stage: arn:aws:execute-api:{region}:{account}:{apiId}/{stage}/*
+// Per-route access is decided by the handlers from the context (scopes, pinned subscriptions).
+function stageResource(methodArn: string): string {
+  const [apiArn, stage] = methodArn.split('/');
+  return `${apiArn}/${stage}/*`;
+}
+
 function generatePolicy(
   principalId: string,
   effect: 'Allow' | 'Deny',
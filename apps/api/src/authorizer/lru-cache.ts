@@ -0,0 +1,43 @@
+interface CacheEntry<V> {
+  value: V;
+  expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * A small in-memory LRU cache with a per-entry time to live. It lives for as long as the
+ * Lambda container does, so each warm container keeps its own copy.
+ */
+export class LruCache<K, V> {
+  // Map iterates in insertion order, so the first key is always the least recently used
+  private readonly entries = new Map<K, CacheEntry<V>>();
+
+  constructor(private readonly maxEntries: number, private readonly ttlMs: number) {}
+
+  get(key: K): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this.entries.set(key, entry); // Mark as most recently used
+    return entry.value;
+  }
+
+  set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+  }
+
+  delete(key: K): void {
+    this.entries.delete(key);
+  }
+}
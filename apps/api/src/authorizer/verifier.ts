@@ -0,0 +1,9 @@
+import { CognitoJwtVerifier } from 'aws-jwt-verify';
+
+// Cognito ID token verifier, in its own module so the local dev server (local/) can hand it the
+// keys its tokens are signed with, as there is no Cognito JWKS endpoint to fetch them from
+export const verifier = CognitoJwtVerifier.create({
+  userPoolId: process.env.USER_POOL_ID!,
+  tokenUse: 'id',
+  clientId: process.env.USER_POOL_CLIENT_ID!,
+});
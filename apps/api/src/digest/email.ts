@@ -0,0 +1,88 @@
+import { UnitSystem, UNIT_LABELS, convertCurrentWeather, convertForecast } from '@weather-app/shared';
+import { DigestSettings, LocationSubscription, DetailedWeather } from './types.js';
+import { EmailMessage, escapeHtml } from '../lib/mailer.js';
+
+export interface DigestLocation {
+  subscription: LocationSubscription;
+  weather?: DetailedWeather;
+}
+
+export function buildDigestEmail(
+  settings: DigestSettings,
+  locations: DigestLocation[],
+  localDate: string,
+  units: UnitSystem
+): EmailMessage {
+  const period = settings.frequency === 'weekly' ? 'Weekly' : 'Daily';
+  const subject = `${period} weather digest – ${localDate}`;
+  const labels = UNIT_LABELS[units];
+  const converted = locations.map(({ subscription, weather }) => ({
+    subscription,
+    weather: weather && {
+      ...convertCurrentWeather(weather, units),
+      forecast: weather.forecast.map(day => convertForecast(day, units)),
+    },
+  }));
+
+  const textSections = converted.map(({ subscription, weather }) => {
+    const lines = [subscription.location];
+
+    if (!weather) {
+      lines.push('  No weather data available yet');
+      return lines.join('\n');
+    }
+
+    lines.push(
+      `  Now: ${Math.round(weather.temperature)}${labels.temperature}, ${weather.description} (feels like ${Math.round(weather.feelsLike)}${labels.temperature})`,
+      `  Humidity ${weather.humidity}%, wind ${Math.round(weather.windSpeed)} ${labels.windSpeed}, pressure ${weather.pressure} ${labels.pressure}`,
+    );
+    weather.forecast.forEach(day => {
+      lines.push(
+        `  ${formatDay(day.date)}: ${Math.round(day.tempMax)}° / ${Math.round(day.tempMin)}°, ${day.description}, ${Math.round(day.precipitation * 100)}% precipitation`
+      );
+    });
+    return lines.join('\n');
+  });
+
+  const htmlSections = converted.map(({ subscription, weather }) => {
+    if (!weather) {
+      return `<h2>${escapeHtml(subscription.location)}</h2><p>No weather data available yet</p>`;
+    }
+
+    const forecastRows = weather.forecast.map(day => `
+        <tr>
+          <td>${formatDay(day.date)}</td>
+          <td>${Math.round(day.tempMax)}° / ${Math.round(day.tempMin)}°</td>
+          <td>${escapeHtml(day.description)}</td>
+          <td>${Math.round(day.precipitation * 100)}%</td>
+        </tr>`).join('');
+
+    return `
+      <h2>${escapeHtml(subscription.location)}</h2>
+      <p>
+        <strong>${Math.round(weather.temperature)}${labels.temperature}</strong>, ${escapeHtml(weather.description)}
+        (feels like ${Math.round(weather.feelsLike)}${labels.temperature})<br>
+        Humidity ${weather.humidity}% · Wind ${Math.round(weather.windSpeed)} ${labels.windSpeed} · Pressure ${weather.pressure} ${labels.pressure}
+      </p>
+      <table cellpadding="4">${forecastRows}
+      </table>`;
+  });
+
+  const footer = 'You are receiving this because you enabled the weather digest. You can change or turn it off in your dashboard.';
+
+  return {
+    to: settings.email,
+    subject,
+    text: [subject, '', ...textSections.flatMap(section => [section, '']), footer].join('\n'),
+    html: `<html><body><h1>${escapeHtml(subject)}</h1>${htmlSections.join('')}<p><small>${footer}</small></p></body></html>`,
+  };
+}
+
+function formatDay(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+}
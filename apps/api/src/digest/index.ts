@@ -0,0 +1,147 @@
+import { ScanCommand, QueryCommand, UpdateCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { ScheduledEvent } from 'aws-lambda';
+import { UnitSystem, DEFAULT_UNIT_SYSTEM } from '@weather-app/shared';
+import { DigestSettings, LocationSubscription, DetailedWeather, User } from './types.js';
+import { createMailer } from '../lib/mailer.js';
+import { buildDigestEmail, DigestLocation } from './email.js';
+import { docClient } from '../lib/dynamodb.js';
+
+const SUBSCRIPTIONS_TABLE = process.env.SUBSCRIPTIONS_TABLE!;
+const WEATHER_TABLE = process.env.WEATHER_DATA_TABLE!;
+const DIGEST_SETTINGS_TABLE = process.env.DIGEST_SETTINGS_TABLE!;
+const USERS_TABLE = process.env.USERS_TABLE!;
+
+const mailer = createMailer();
+
+export const handler = async (event: ScheduledEvent): Promise<void> => {
+  console.log('Sending due weather digests...');
+
+  const now = new Date();
+  let sent = 0;
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: DIGEST_SETTINGS_TABLE,
+      FilterExpression: 'frequency <> :off',
+      ExpressionAttributeValues: {
+        ':off': 'off',
+      },
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    const due = ((result.Items || []) as DigestSettings[]).filter(settings => isDigestDue(settings, now));
+
+    const results = await Promise.allSettled(due.map(settings => sendDigest(settings, now)));
+    results.forEach((outcome, index) => {
+      if (outcome.status === 'rejected') {
+        console.error(`Error sending digest to user ${due[index].userId}:`, outcome.reason);
+      } else {
+        sent++;
+      }
+    });
+
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  console.log(`Digest run completed, ${sent} sent`);
+};
+
+async function sendDigest(settings: DigestSettings, now: Date): Promise<void> {
+  const subscriptionsResult = await docClient.send(new QueryCommand({
+    TableName: SUBSCRIPTIONS_TABLE,
+    IndexName: 'UserIdIndex',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: {
+      ':userId': settings.userId,
+    },
+  }));
+
+  const subscriptions = (subscriptionsResult.Items || []) as LocationSubscription[];
+  const localDate = getLocalTime(now, settings.timezone).date;
+
+  // Users without locations get no email, but the day is still marked as handled
+  if (subscriptions.length > 0) {
+    const [locations, units] = await Promise.all([
+      Promise.all(subscriptions.map(async (subscription): Promise<DigestLocation> => ({
+        subscription,
+        weather: await getLatestWeather(subscription.id),
+      }))),
+      getPreferredUnits(settings.userId),
+    ]);
+
+    await mailer.send(buildDigestEmail(settings, locations, localDate, units));
+    console.log(`Digest sent to user ${settings.userId} (${subscriptions.length} locations)`);
+  }
+
+  await docClient.send(new UpdateCommand({
+    TableName: DIGEST_SETTINGS_TABLE,
+    Key: { userId: settings.userId },
+    UpdateExpression: 'SET lastSentOn = :lastSentOn',
+    ExpressionAttributeValues: {
+      ':lastSentOn': localDate,
+    },
+  }));
+}
+
+async function getLatestWeather(subscriptionId: string): Promise<DetailedWeather | undefined> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: WEATHER_TABLE,
+    IndexName: 'SubscriptionIdIndex',
+    KeyConditionExpression: 'subscriptionId = :subscriptionId',
+    ExpressionAttributeValues: {
+      ':subscriptionId': subscriptionId,
+    },
+    ScanIndexForward: false, // Sort descending by timestamp
+    Limit: 1,
+  }));
+
+  const item = result.Items?.[0] as DetailedWeather | undefined;
+  return item ? { ...item, forecast: item.forecast || [] } : undefined;
+}
+
+async function getPreferredUnits(userId: string): Promise<UnitSystem> {
+  const result = await docClient.send(new GetCommand({
+    TableName: USERS_TABLE,
+    Key: { id: userId },
+  }));
+
+  return (result.Item as User | undefined)?.units ?? DEFAULT_UNIT_SYSTEM;
+}
+
+// A digest is due once the user's local send hour has passed on a day it hasn't
+// gone out yet, so a missed or failed run is caught up on the next one.
+export function isDigestDue(settings: DigestSettings, now: Date): boolean {
+  if (settings.frequency === 'off') {
+    return false;
+  }
+
+  const local = getLocalTime(now, settings.timezone);
+
+  if (settings.frequency === 'weekly' && local.weekday !== (settings.sendWeekday ?? 1)) {
+    return false;
+  }
+
+  return local.hour >= settings.sendHour && settings.lastSentOn !== local.date;
+}
+
+export function getLocalTime(date: Date, timezone: string): { date: string; hour: number; weekday: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+  const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    hour: Number(part('hour')),
+    weekday: weekdays.indexOf(part('weekday')),
+  };
+}
@@ -0,0 +1,168 @@
+import { GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { validateUpdateDigestSettingsRequest } from '@weather-app/shared';
+import { DigestSettings, GetDigestSettingsResponse, UpdateDigestSettingsRequest, User } from './types.js';
+import { CallerIdentity, getIdentity, hasScope } from '../lib/auth.js';
+import { checkRateLimit } from '../lib/rate-limit.js';
+import { parseRequestBody, validationError } from '../lib/validation.js';
+import { errorBody, internalError, withRequestId } from '../lib/errors.js';
+import { docClient } from '../lib/dynamodb.js';
+
+const DIGEST_SETTINGS_TABLE = process.env.DIGEST_SETTINGS_TABLE!;
+const USERS_TABLE = process.env.USERS_TABLE!;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,PUT,OPTIONS',
+};
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+  withRequestId(await handleRequest(event), event.requestContext?.requestId);
+
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  console.log('Event:', JSON.stringify(event, null, 2));
+
+  try {
+    const identity = getIdentity(event);
+    if (!identity) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify(errorBody('unauthorized', 'Unauthorized')),
+      };
+    }
+    const userId = identity.userId;
+
+    const rateLimit = await checkRateLimit(identity);
+    if (rateLimit.limited) {
+      return {
+        statusCode: 429,
+        headers: { ...headers, ...rateLimit.headers },
+        body: JSON.stringify(errorBody('rate_limited', 'Rate limit exceeded, retry after the time in Retry-After')),
+      };
+    }
+
+    if (!hasScope(identity, 'account:manage')) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('insufficient_scope', 'Token is missing the account:manage scope')),
+      };
+    }
+
+    switch (event.httpMethod) {
+      case 'GET':
+        return await getDigestSettings(userId);
+      case 'PUT':
+        return await updateDigestSettings(event, identity);
+      default:
+        return {
+          statusCode: 405,
+          headers,
+          body: JSON.stringify(errorBody('method_not_allowed', 'Method not allowed')),
+        };
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify(internalError()),
+    };
+  }
+}
+
+async function getDigestSettings(userId: string): Promise<APIGatewayProxyResult> {
+  const result = await docClient.send(new GetCommand({
+    TableName: DIGEST_SETTINGS_TABLE,
+    Key: { userId },
+  }));
+
+  const response: GetDigestSettingsResponse = {
+    settings: (result.Item as DigestSettings) || null,
+  };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+async function updateDigestSettings(event: APIGatewayProxyEvent, identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const parsed = parseRequestBody(event.body, validateUpdateDigestSettingsRequest);
+  if ('error' in parsed) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(parsed.error),
+    };
+  }
+
+  const request: UpdateDigestSettingsRequest = parsed.request;
+  const userId = identity.userId;
+
+  // Digests only go to the account email, so they can't be pointed at someone else's inbox
+  const accountEmail = await getAccountEmail(identity);
+  if (!accountEmail) {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify(errorBody('not_found', 'Profile not found. Sign in to the web app to create it')),
+    };
+  }
+  if (request.email !== undefined && request.email.trim().toLowerCase() !== accountEmail.toLowerCase()) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(validationError([{ field: 'email', message: 'Digests can only be sent to your account email' }])),
+    };
+  }
+
+  const existing = await docClient.send(new GetCommand({
+    TableName: DIGEST_SETTINGS_TABLE,
+    Key: { userId },
+  }));
+  const current = existing.Item as DigestSettings | undefined;
+  const now = new Date().toISOString();
+
+  const settings: DigestSettings = {
+    userId,
+    email: accountEmail,
+    frequency: request.frequency,
+    sendHour: request.sendHour,
+    sendWeekday: request.frequency === 'weekly' ? request.sendWeekday ?? 1 : undefined,
+    timezone: request.timezone,
+    // Keep the last sent date so saving settings doesn't trigger a second digest today
+    lastSentOn: current?.lastSentOn,
+    createdAt: current?.createdAt || now,
+    updatedAt: now,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: DIGEST_SETTINGS_TABLE,
+    Item: settings,
+  }));
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ settings }),
+  };
+}
+
+// Signed-in callers carry it in their ID token; API tokens don't, so it comes from the profile
+async function getAccountEmail(identity: CallerIdentity): Promise<string | undefined> {
+  if (identity.email) {
+    return identity.email;
+  }
+
+  const result = await docClient.send(new GetCommand({
+    TableName: USERS_TABLE,
+    Key: { id: identity.userId },
+  }));
+
+  return (result.Item as User | undefined)?.email || undefined;
+}
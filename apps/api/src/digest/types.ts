@@ -0,0 +1,94 @@
+import type { UnitSystem } from '@weather-app/shared';
+
+// User types
+export type NotificationChannel = 'email' | 'webhook';
+
+export type OnboardingStep = 'add-location' | 'choose-units' | 'configure-notifications';
+
+export interface OnboardingState {
+  completedSteps: OnboardingStep[];
+  completedAt?: string; // Set once every step is done or the user skips the rest
+}
+
+export interface User {
+  id: string; // Cognito sub
+  email: string;
+  cognitoSub: string;
+  timezone: string; // IANA timezone, e.g. "Europe/London"
+  locale: string; // BCP 47 tag, e.g. "en-GB"
+  units: UnitSystem;
+  notificationChannels: NotificationChannel[];
+  onboarding: OnboardingState;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Location subscription types
+export interface LocationSubscription {
+  id: string;
+  userId: string;
+  location: string;
+  latitude: number;
+  longitude: number;
+  city: string;
+  country: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Weather data types
+export interface WeatherData {
+  id: string;
+  subscriptionId: string;
+  location: string;
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+  windDirection: number;
+  description: string;
+  icon: string;
+  timestamp: string;
+  fetchedAt: string;
+}
+
+export interface WeatherForecast {
+  date: string;
+  tempMin: number;
+  tempMax: number;
+  description: string;
+  icon: string;
+  precipitation: number;
+}
+
+export interface DetailedWeather extends WeatherData {
+  forecast: WeatherForecast[];
+}
+
+// Email digest types
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface DigestSettings {
+  userId: string;
+  email: string;
+  frequency: DigestFrequency;
+  sendHour: number; // 0-23, in the user's timezone
+  sendWeekday?: number; // Weekly only: 0 = Sunday ... 6 = Saturday
+  timezone: string; // IANA timezone, e.g. "Europe/London"
+  lastSentOn?: string; // Local date (YYYY-MM-DD) of the last digest sent
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdateDigestSettingsRequest {
+  email?: string; // Defaults to the account email, the only address digests are sent to
+  frequency: DigestFrequency;
+  sendHour: number;
+  sendWeekday?: number;
+  timezone: string;
+}
+
+export interface GetDigestSettingsResponse {
+  settings: DigestSettings | null;
+}
@@ -0,0 +1,145 @@
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { GeocodeSearchResponse, ReverseGeocodeResponse } from './types.js';
+import { searchLocations, reverseGeocode } from '../lib/geocoding/index.js';
+import { getIdentity, hasScope } from '../lib/auth.js';
+import { checkRateLimit } from '../lib/rate-limit.js';
+import { errorBody, internalError, withRequestId } from '../lib/errors.js';
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,OPTIONS',
+};
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+const DEFAULT_RESULT_LIMIT = 5;
+const MAX_RESULT_LIMIT = 10;
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+  withRequestId(await handleRequest(event), event.requestContext?.requestId);
+
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  console.log('Event:', JSON.stringify(event, null, 2));
+
+  try {
+    const identity = getIdentity(event);
+    if (!identity) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify(errorBody('unauthorized', 'Unauthorized')),
+      };
+    }
+
+    const rateLimit = await checkRateLimit(identity);
+    if (rateLimit.limited) {
+      return {
+        statusCode: 429,
+        headers: { ...headers, ...rateLimit.headers },
+        body: JSON.stringify(errorBody('rate_limited', 'Rate limit exceeded, retry after the time in Retry-After')),
+      };
+    }
+
+    if (!hasScope(identity, 'weather:read')) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('insufficient_scope', 'Token is missing the weather:read scope')),
+      };
+    }
+
+    switch (event.resource) {
+      case '/geocode':
+        return await search(event);
+      case '/geocode/reverse':
+        return await reverse(event);
+      default:
+        return {
+          statusCode: 405,
+          headers,
+          body: JSON.stringify(errorBody('method_not_allowed', 'Method not allowed')),
+        };
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify(internalError()),
+    };
+  }
+}
+
+async function search(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const query = event.queryStringParameters?.q?.trim() || '';
+
+  if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', `q must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`)),
+    };
+  }
+
+  const limitParam = event.queryStringParameters?.limit;
+  const limit = limitParam === undefined ? DEFAULT_RESULT_LIMIT : Number(limitParam);
+
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RESULT_LIMIT) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', `limit must be an integer between 1 and ${MAX_RESULT_LIMIT}`)),
+    };
+  }
+
+  const response: GeocodeSearchResponse = {
+    results: await searchLocations(query, limit),
+  };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+async function reverse(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  const latitude = Number(event.queryStringParameters?.lat);
+  const longitude = Number(event.queryStringParameters?.lon);
+
+  if (!event.queryStringParameters?.lat || isNaN(latitude) || latitude < -90 || latitude > 90) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', 'lat must be a number between -90 and 90')),
+    };
+  }
+
+  if (!event.queryStringParameters?.lon || isNaN(longitude) || longitude < -180 || longitude > 180) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', 'lon must be a number between -180 and 180')),
+    };
+  }
+
+  const result = await reverseGeocode(latitude, longitude);
+
+  if (!result) {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify(errorBody('not_found', 'No place found near these coordinates')),
+    };
+  }
+
+  const response: ReverseGeocodeResponse = { result };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
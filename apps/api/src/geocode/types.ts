@@ -0,0 +1,12 @@
+import { GeocodingResult } from '../lib/geocoding/types.js';
+
+export type { GeocodingResult };
+
+// API request/response types
+export interface GeocodeSearchResponse {
+  results: GeocodingResult[];
+}
+
+export interface ReverseGeocodeResponse {
+  result: GeocodingResult;
+}
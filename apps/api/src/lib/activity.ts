@@ -0,0 +1,105 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { randomUUID } from 'crypto';
+import { AuthType, CallerIdentity } from './auth.js';
+import { docClient } from './dynamodb.js';
+
+export type ActivityType =
+  | 'user.signed_in'
+  | 'token.created'
+  | 'token.revoked'
+  | 'token.rotated'
+  | 'token.extended'
+  | 'token.used_from_new_ip'
+  | 'subscription.created'
+  | 'subscription.updated'
+  | 'subscription.deleted';
+
+const ACTIVITY_RETENTION_DAYS = 365;
+
+/** Who did something, and from where. */
+export interface ActivityActor {
+  userId: string;
+  authType: AuthType;
+  tokenId?: string; // Set when the action was taken with an API token
+  ip?: string;
+  userAgent?: string;
+}
+
+/** An entry as users see it through GET /activity. */
+export interface ActivityEntry {
+  id: string;
+  type: ActivityType;
+  createdAt: string;
+  authType: AuthType;
+  tokenId?: string;
+  ip?: string;
+  userAgent?: string;
+  targetId?: string; // Token or subscription the action applied to
+  details?: Record<string, string>; // e.g. the token name or subscription location at the time
+}
+
+/** An entry as stored: partitioned by user and sorted by time, newest last. */
+export interface ActivityRecord extends ActivityEntry {
+  userId: string;
+  sortKey: string; // `${createdAt}#${id}`
+  ttl: number;
+}
+
+/** The actor behind an API Gateway request, as resolved by getIdentity. */
+export function actorFromRequest(
+  identity: CallerIdentity,
+  event: { requestContext: { identity: { sourceIp: string; userAgent: string | null } } }
+): ActivityActor {
+  return {
+    userId: identity.userId,
+    authType: identity.authType,
+    tokenId: identity.tokenId,
+    ip: event.requestContext.identity.sourceIp,
+    userAgent: event.requestContext.identity.userAgent || undefined,
+  };
+}
+
+/**
+ * Appends an entry to the user's activity log. The log is an audit trail, not part of the action:
+ * failures are logged and never fail the request that triggered them.
+ */
+export async function recordActivity(
+  actor: ActivityActor,
+  type: ActivityType,
+  target?: { id: string; details?: Record<string, string> }
+): Promise<void> {
+  const now = new Date();
+  const id = randomUUID();
+  const createdAt = now.toISOString();
+
+  const record: ActivityRecord = {
+    userId: actor.userId,
+    sortKey: `${createdAt}#${id}`,
+    id,
+    type,
+    createdAt,
+    authType: actor.authType,
+    tokenId: actor.tokenId,
+    ip: actor.ip,
+    userAgent: actor.userAgent,
+    targetId: target?.id,
+    details: target?.details,
+    ttl: Math.floor(now.getTime() / 1000) + ACTIVITY_RETENTION_DAYS * 24 * 60 * 60,
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: process.env.ACTIVITY_TABLE!,
+      Item: record,
+      ConditionExpression: 'attribute_not_exists(sortKey)', // Append-only: never overwrite an entry
+    }));
+  } catch (error) {
+    console.error(`Failed to record ${type} activity for user ${actor.userId}:`, error);
+  }
+}
+
+/** Strips the storage-only fields from a stored entry. */
+export function toActivityEntry(record: ActivityRecord): ActivityEntry {
+  const { userId, sortKey, ttl, ...entry } = record;
+  return entry;
+}
@@ -0,0 +1,97 @@
+// Scopes an API token can be granted. Cognito sessions always have every scope.
+export type TokenScope =
+  | 'subscriptions:read'
+  | 'subscriptions:write'
+  | 'weather:read'
+  | 'webhooks:manage'
+  | 'account:manage'
+  | 'tokens:manage';
+
+export const TOKEN_SCOPES: TokenScope[] = [
+  'subscriptions:read',
+  'subscriptions:write',
+  'weather:read',
+  'webhooks:manage',
+  'account:manage',
+  'tokens:manage',
+];
+
+// Tokens minted before scopes existed are limited to reading
+export const LEGACY_TOKEN_SCOPES: TokenScope[] = ['subscriptions:read', 'weather:read'];
+
+export type AuthType = 'cognito' | 'apikey';
+
+// Authorizer context as API Gateway passes it to handlers. Values are always strings.
+export type AuthorizerContext = { [key: string]: any } | null | undefined;
+
+export interface RateLimits {
+  perMinute: number;
+  perDay: number;
+}
+
+/** Who is calling, whether they signed in through Cognito or presented an API token. */
+export interface CallerIdentity {
+  userId: string;
+  authType: AuthType;
+  email?: string;
+  tokenId?: string; // Only for API tokens
+  scopes: TokenScope[];
+  subscriptionIds?: string[]; // Only for API tokens pinned to specific subscriptions
+  tokenLimits?: RateLimits; // Only for API tokens created with their own limits
+}
+
+export function isTokenScope(value: unknown): value is TokenScope {
+  return typeof value === 'string' && TOKEN_SCOPES.includes(value as TokenScope);
+}
+
+/** Serializes scopes for the authorizer context, which only carries strings. */
+export function encodeScopes(scopes: TokenScope[]): string {
+  return scopes.join(' ');
+}
+
+/**
+ * Reads the caller from the hybrid authorizer's context. Falls back to Cognito
+ * claims so events from a plain Cognito authorizer keep working.
+ * Returns null when the request is unauthenticated.
+ */
+export function getIdentity(event: { requestContext: { authorizer?: AuthorizerContext } }): CallerIdentity | null {
+  const authorizer = event.requestContext.authorizer;
+
+  if (authorizer?.authType === 'apikey') {
+    if (!authorizer.userId) {
+      return null;
+    }
+
+    return {
+      userId: authorizer.userId,
+      authType: 'apikey',
+      tokenId: authorizer.tokenId,
+      scopes: String(authorizer.scopes || '').split(' ').filter(isTokenScope),
+      subscriptionIds: authorizer.subscriptionIds ? String(authorizer.subscriptionIds).split(',') : undefined,
+      tokenLimits: authorizer.rateLimitPerMinute && authorizer.dailyQuota
+        ? { perMinute: Number(authorizer.rateLimitPerMinute), perDay: Number(authorizer.dailyQuota) }
+        : undefined,
+    };
+  }
+
+  const userId = authorizer?.userId || authorizer?.claims?.sub;
+  if (!userId) {
+    return null;
+  }
+
+  return {
+    userId,
+    authType: 'cognito',
+    email: authorizer?.email || authorizer?.claims?.email || undefined,
+    scopes: TOKEN_SCOPES,
+  };
+}
+
+export function hasScope(identity: CallerIdentity, scope: TokenScope): boolean {
+  return identity.scopes.includes(scope);
+}
+
+/** Whether the caller may touch this subscription. Tokens can be pinned to a list of subscriptions. */
+export function canAccessSubscription(identity: CallerIdentity, subscriptionId: string): boolean {
+  return !identity.subscriptionIds || identity.subscriptionIds.includes(subscriptionId);
+}
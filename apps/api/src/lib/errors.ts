@@ -0,0 +1,48 @@
+import type { FieldError } from './validation.js';
+
+// Same shapes as ApiErrorCode and ApiErrorResponse in @weather-app/shared. Codes are part of the
+// public API: clients branch on them, so existing ones are never renamed.
+export type ErrorCode =
+  | 'bad_request'
+  | 'validation_failed'
+  | 'limit_exceeded'
+  | 'unauthorized'
+  | 'insufficient_scope'
+  | 'forbidden'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'rate_limited'
+  | 'internal_error';
+
+export interface ErrorResponse {
+  code: ErrorCode;
+  message: string;
+  details?: FieldError[];
+  requestId?: string;
+}
+
+/** The body of every 4xx/5xx response a handler returns. */
+export function errorBody(code: ErrorCode, message: string, details?: FieldError[]): ErrorResponse {
+  return details ? { code, message, details } : { code, message };
+}
+
+/** The 500 body. The cause is only logged, never returned to the caller. */
+export function internalError(): ErrorResponse {
+  return errorBody('internal_error', 'Internal server error');
+}
+
+/**
+ * Stamps the API Gateway request ID on an error response so a failure a user reports can be found
+ * in the logs. Handlers wrap their result in this once rather than threading the event everywhere.
+ */
+export function withRequestId<T extends { statusCode: number; body: string }>(
+  result: T,
+  requestId: string | undefined
+): T {
+  if (result.statusCode < 400 || !requestId) {
+    return result;
+  }
+
+  return { ...result, body: JSON.stringify({ ...JSON.parse(result.body), requestId }) };
+}
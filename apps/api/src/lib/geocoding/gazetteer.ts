@@ -0,0 +1,73 @@
+import { GeocodingProvider, GeocodingResult } from './types.js';
+import places from './gazetteer.json';
+
+// Reverse lookups further than this from any bundled city return no match
+const MAX_REVERSE_DISTANCE_KM = 100;
+const EARTH_RADIUS_KM = 6371;
+
+const GAZETTEER = places as GeocodingResult[];
+
+/**
+ * Offline lookup against a bundled list of major cities. Used when no online
+ * geocoder is configured and as the fallback when one fails.
+ */
+export class GazetteerProvider implements GeocodingProvider {
+  readonly name = 'gazetteer';
+
+  async search(name: string, limit: number): Promise<GeocodingResult[]> {
+    const query = normalizeName(name);
+    if (!query) {
+      return [];
+    }
+
+    // Exact names first, then prefixes, then matches on any word; list order breaks ties
+    const ranked = GAZETTEER
+      .map(place => ({ place, rank: rankMatch(normalizeName(place.city), query) }))
+      .filter(({ rank }) => rank >= 0)
+      .sort((a, b) => a.rank - b.rank);
+
+    return ranked.slice(0, limit).map(({ place }) => place);
+  }
+
+  async reverse(latitude: number, longitude: number): Promise<GeocodingResult | null> {
+    let nearest: GeocodingResult | null = null;
+    let nearestDistance = Infinity;
+
+    for (const place of GAZETTEER) {
+      const distance = distanceKm(latitude, longitude, place.latitude, place.longitude);
+      if (distance < nearestDistance) {
+        nearest = place;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearestDistance <= MAX_REVERSE_DISTANCE_KM ? nearest : null;
+  }
+}
+
+// Case- and accent-insensitive, so "sao paulo" finds "São Paulo"
+export function normalizeName(value: string): string {
+  return value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function rankMatch(name: string, query: string): number {
+  if (name === query) {
+    return 0;
+  }
+  if (name.startsWith(query)) {
+    return 1;
+  }
+  if (name.split(/[\s-]+/).some(word => word.startsWith(query))) {
+    return 2;
+  }
+  return -1;
+}
+
+export function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
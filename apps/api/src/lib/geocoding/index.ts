@@ -0,0 +1,105 @@
+import { GeocodingProvider, GeocodingProviderName, GeocodingResult } from './types.js';
+import { distanceKm, GazetteerProvider, normalizeName } from './gazetteer.js';
+import { OpenMeteoGeocodingProvider } from './open-meteo.js';
+import { OpenWeatherMapGeocodingProvider } from './openweathermap.js';
+
+export * from './types.js';
+
+export const GEOCODING_PROVIDERS: GeocodingProviderName[] = ['open-meteo', 'openweathermap', 'gazetteer'];
+
+// Ask upstream for extra results so filtering by region/country still fills the page
+const UPSTREAM_RESULT_LIMIT = 20;
+
+// How far a named place may be from the coordinates it is given with and still count as a match
+const MAX_PLACE_MATCH_DISTANCE_KM = 25;
+
+const gazetteer = new GazetteerProvider();
+let provider: GeocodingProvider | undefined;
+
+export function getGeocodingProvider(): GeocodingProvider {
+  if (!provider) {
+    provider = createProvider(process.env.GEOCODING_PROVIDER || 'open-meteo');
+  }
+  return provider;
+}
+
+/**
+ * Looks up places by name. A qualifier after a comma narrows the results by
+ * region or country code, e.g. "Portland, Maine" or "Paris, US".
+ */
+export async function searchLocations(query: string, limit: number): Promise<GeocodingResult[]> {
+  const [name, ...rest] = query.split(',');
+  const qualifier = normalizeName(rest.join(','));
+
+  const results = await withFallback(
+    geocoder => geocoder.search(name.trim(), qualifier ? UPSTREAM_RESULT_LIMIT : limit),
+    `search "${query}"`
+  );
+
+  return results
+    .filter(result => !qualifier || matchesQualifier(result, qualifier))
+    .slice(0, limit);
+}
+
+export async function reverseGeocode(latitude: number, longitude: number): Promise<GeocodingResult | null> {
+  return withFallback(
+    geocoder => geocoder.reverse ? geocoder.reverse(latitude, longitude) : gazetteer.reverse(latitude, longitude),
+    `reverse ${latitude},${longitude}`
+  );
+}
+
+/** The place with this name and country nearest to the coordinates, or null if none is close enough. */
+export async function findPlaceNear(
+  city: string,
+  countryCode: string,
+  latitude: number,
+  longitude: number
+): Promise<GeocodingResult | null> {
+  const results = await searchLocations(`${city}, ${countryCode}`, UPSTREAM_RESULT_LIMIT);
+
+  let nearest: GeocodingResult | null = null;
+  let nearestDistance = Infinity;
+  for (const result of results) {
+    const distance = distanceKm(latitude, longitude, result.latitude, result.longitude);
+    if (result.countryCode === countryCode && distance < nearestDistance) {
+      nearest = result;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearestDistance <= MAX_PLACE_MATCH_DISTANCE_KM ? nearest : null;
+}
+
+// The bundled gazetteer keeps lookups working when the online geocoder is down or over quota
+async function withFallback<T>(lookup: (geocoder: GeocodingProvider) => Promise<T>, description: string): Promise<T> {
+  const geocoder = getGeocodingProvider();
+
+  try {
+    return await lookup(geocoder);
+  } catch (error) {
+    if (geocoder === gazetteer) {
+      throw error;
+    }
+
+    console.error(`Geocoding ${description} with ${geocoder.name} failed, using gazetteer:`, error);
+    return lookup(gazetteer);
+  }
+}
+
+function matchesQualifier(result: GeocodingResult, qualifier: string): boolean {
+  return normalizeName(result.countryCode) === qualifier ||
+    (result.region !== undefined && normalizeName(result.region).startsWith(qualifier));
+}
+
+function createProvider(name: string): GeocodingProvider {
+  switch (name) {
+    case 'open-meteo':
+      return new OpenMeteoGeocodingProvider();
+    case 'openweathermap':
+      return new OpenWeatherMapGeocodingProvider(process.env.OPENWEATHER_API_KEY || '');
+    case 'gazetteer':
+      return gazetteer;
+    default:
+      throw new Error(`Unknown geocoding provider: ${name}`);
+  }
+}
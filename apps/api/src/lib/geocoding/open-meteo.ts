@@ -0,0 +1,44 @@
+import { GeocodingProvider, GeocodingResult } from './types.js';
+
+const OPEN_METEO_GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+
+// Open-Meteo geocoding API types
+interface OpenMeteoGeocodingResponse {
+  results?: Array<{
+    name: string;
+    latitude: number;
+    longitude: number;
+    country_code: string;
+    admin1?: string;
+  }>;
+}
+
+// Free and keyless, but search only: reverse lookups fall back to the gazetteer
+export class OpenMeteoGeocodingProvider implements GeocodingProvider {
+  readonly name = 'open-meteo';
+
+  async search(name: string, limit: number): Promise<GeocodingResult[]> {
+    const params = new URLSearchParams({
+      name,
+      count: String(limit),
+      language: 'en',
+      format: 'json',
+    });
+
+    const response = await fetch(`${OPEN_METEO_GEOCODING_URL}?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo Geocoding API error: ${response.status}`);
+    }
+
+    const data = await response.json() as OpenMeteoGeocodingResponse;
+
+    return (data.results || []).map(result => ({
+      city: result.name,
+      region: result.admin1,
+      countryCode: result.country_code.toUpperCase(),
+      latitude: result.latitude,
+      longitude: result.longitude,
+    }));
+  }
+}
@@ -0,0 +1,51 @@
+import { GeocodingProvider, GeocodingResult } from './types.js';
+
+const OPENWEATHER_GEO_URL = 'https://api.openweathermap.org/geo/1.0';
+
+// OpenWeatherMap geocoding API types
+type OpenWeatherMapGeocodingResponse = Array<{
+  name: string;
+  lat: number;
+  lon: number;
+  country: string;
+  state?: string;
+}>;
+
+export class OpenWeatherMapGeocodingProvider implements GeocodingProvider {
+  readonly name = 'openweathermap';
+
+  constructor(private readonly apiKey: string) {}
+
+  async search(name: string, limit: number): Promise<GeocodingResult[]> {
+    const params = new URLSearchParams({ q: name, limit: String(limit) });
+    return this.request(`${OPENWEATHER_GEO_URL}/direct?${params}`);
+  }
+
+  async reverse(latitude: number, longitude: number): Promise<GeocodingResult | null> {
+    const params = new URLSearchParams({ lat: String(latitude), lon: String(longitude), limit: '1' });
+    const [result] = await this.request(`${OPENWEATHER_GEO_URL}/reverse?${params}`);
+    return result || null;
+  }
+
+  private async request(url: string): Promise<GeocodingResult[]> {
+    if (!this.apiKey) {
+      throw new Error('OPENWEATHER_API_KEY is not configured');
+    }
+
+    const response = await fetch(`${url}&appid=${this.apiKey}`);
+
+    if (!response.ok) {
+      throw new Error(`OpenWeatherMap Geocoding API error: ${response.status}`);
+    }
+
+    const data = await response.json() as OpenWeatherMapGeocodingResponse;
+
+    return data.map(result => ({
+      city: result.name,
+      region: result.state,
+      countryCode: result.country.toUpperCase(),
+      latitude: result.lat,
+      longitude: result.lon,
+    }));
+  }
+}
@@ -0,0 +1,16 @@
+export type GeocodingProviderName = 'open-meteo' | 'openweathermap' | 'gazetteer';
+
+export interface GeocodingResult {
+  city: string;
+  region?: string; // State, province or other first-level subdivision
+  countryCode: string; // ISO 3166-1 alpha-2, e.g. GB
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodingProvider {
+  readonly name: GeocodingProviderName;
+  search(name: string, limit: number): Promise<GeocodingResult[]>;
+  // Providers without reverse lookup leave this out and the gazetteer is used instead
+  reverse?(latitude: number, longitude: number): Promise<GeocodingResult | null>;
+}
@@ -0,0 +1,26 @@
+import { WeatherProviderName } from './providers/types.js';
+
+// Two decimal places is roughly 1 km, well inside a forecast grid cell
+const COORDINATE_PRECISION = 2;
+
+// A shared location fetched more recently than this is reused instead of calling the provider
+export const LOCATION_MAX_AGE_MS = 30 * 60 * 1000;
+
+// Locations nobody subscribes to any more stop being refreshed and expire after this long
+export const LOCATION_TTL_SECONDS = 24 * 60 * 60;
+
+export function roundCoordinate(value: number): number {
+  return Number(value.toFixed(COORDINATE_PRECISION));
+}
+
+/**
+ * Canonical key for a location, e.g. `openweathermap#51.51,-0.13`. The provider is
+ * part of the key because subscriptions can override it and data differs between them.
+ */
+export function getLocationId(latitude: number, longitude: number, provider: WeatherProviderName): string {
+  return `${provider}#${roundCoordinate(latitude)},${roundCoordinate(longitude)}`;
+}
+
+export function isLocationFresh(fetchedAt: string, now: number = Date.now()): boolean {
+  return now - new Date(fetchedAt).getTime() < LOCATION_MAX_AGE_MS;
+}
@@ -0,0 +1,115 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import nodemailer from 'nodemailer';
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface Mailer {
+  send(message: EmailMessage): Promise<void>;
+}
+
+export type MailTransport = 'console' | 'file' | 'smtp';
+
+const MAIL_FROM = process.env.MAIL_FROM || 'Weather Digest <digest@localhost>';
+
+// Logs each message instead of sending it
+export class ConsoleMailer implements Mailer {
+  async send(message: EmailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}`);
+  }
+}
+
+// Writes each message as an .eml file so it can be opened in a mail client
+export class FileMailer implements Mailer {
+  constructor(private readonly outputDir: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await mkdir(this.outputDir, { recursive: true });
+
+    const boundary = `digest-${Date.now().toString(36)}`;
+    const eml = [
+      `From: ${MAIL_FROM}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      message.html,
+      `--${boundary}--`,
+      '',
+    ].join('\r\n');
+
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.to.replace(/[^a-zA-Z0-9@.-]/g, '_')}.eml`;
+    await writeFile(join(this.outputDir, fileName), eml);
+    console.log(`[mail] Wrote ${fileName} to ${this.outputDir}`);
+  }
+}
+
+// Sends through any SMTP server: SES SMTP in AWS, or MailHog/Mailpit locally
+export class SmtpMailer implements Mailer {
+  private transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; password?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      auth: options.user ? { user: options.user, pass: options.password } : undefined,
+    });
+  }
+
+  async send(message: EmailMessage): Promise<void> {
+    await this.transporter.sendMail({
+      from: MAIL_FROM,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+  }
+}
+
+export function createMailer(transport: string = process.env.MAIL_TRANSPORT || 'console'): Mailer {
+  switch (transport as MailTransport) {
+    case 'console':
+      return new ConsoleMailer();
+    case 'file':
+      return new FileMailer(process.env.MAIL_OUTPUT_DIR || '/tmp/mail');
+    case 'smtp':
+      if (!process.env.SMTP_HOST) {
+        throw new Error('SMTP_HOST is required for the smtp mail transport');
+      }
+      return new SmtpMailer({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT || 587),
+        secure: process.env.SMTP_SECURE === 'true',
+        user: process.env.SMTP_USER || undefined,
+        password: process.env.SMTP_PASSWORD || undefined,
+      });
+    default:
+      throw new Error(`Unknown mail transport: ${transport}`);
+  }
+}
+
+// For text interpolated into HTML bodies, including attribute values in either kind of quotes
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,58 @@
+/** A validated `?limit=&cursor=` pair, ready for a QueryCommand's Limit and ExclusiveStartKey. */
+export interface PageRequest {
+  limit: number;
+  exclusiveStartKey?: Record<string, string>;
+}
+
+export interface PageLimits {
+  default: number;
+  max: number;
+}
+
+/**
+ * Reads `limit` and `cursor` from the query string. Cursors are opaque to clients: they wrap the
+ * LastEvaluatedKey of the previous page and must name exactly `keyNames` and belong to the caller.
+ */
+export function parsePageRequest(
+  params: Record<string, string | undefined> | null,
+  userId: string,
+  keyNames: string[],
+  limits: PageLimits
+): PageRequest | { error: string } {
+  const limit = params?.limit === undefined ? limits.default : Number(params.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > limits.max) {
+    return { error: `Limit must be an integer between 1 and ${limits.max}` };
+  }
+
+  if (!params?.cursor) {
+    return { limit };
+  }
+
+  const exclusiveStartKey = decodeCursor(params.cursor, userId, keyNames);
+  if (!exclusiveStartKey) {
+    return { error: 'Invalid cursor' };
+  }
+
+  return { limit, exclusiveStartKey };
+}
+
+/** The cursor for the page after this one, or undefined on the last page. */
+export function encodeCursor(lastEvaluatedKey: Record<string, any> | undefined): string | undefined {
+  return lastEvaluatedKey
+    ? Buffer.from(JSON.stringify(lastEvaluatedKey)).toString('base64url')
+    : undefined;
+}
+
+function decodeCursor(cursor: string, userId: string, keyNames: string[]): Record<string, string> | undefined {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (key?.userId !== userId ||
+      Object.keys(key).length !== keyNames.length ||
+      !keyNames.every(name => typeof key[name] === 'string' && key[name].length > 0)) {
+      return undefined;
+    }
+    return key;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,57 @@
+import { WeatherProvider, WeatherProviderName } from './types.js';
+import { OpenWeatherMapProvider } from './openweathermap.js';
+import { OpenMeteoProvider } from './open-meteo.js';
+import { NwsProvider } from './nws.js';
+import { FixtureProvider } from './fixture.js';
+
+export * from './types.js';
+
+export const WEATHER_PROVIDERS: WeatherProviderName[] = ['openweathermap', 'open-meteo', 'nws', 'fixture'];
+
+const DEFAULT_NWS_USER_AGENT = '(weather-app, weather-app@example.com)';
+
+const providers: Map<WeatherProviderName, WeatherProvider> = new Map();
+
+export function isWeatherProviderName(name: unknown): name is WeatherProviderName {
+  return typeof name === 'string' && WEATHER_PROVIDERS.includes(name as WeatherProviderName);
+}
+
+/**
+ * Whether a subscription may override the deployment default with this provider. Fixtures are
+ * recorded test data, so only deployments that already run on them can ask for them.
+ */
+export function isSubscriptionProviderAllowed(name: WeatherProviderName): boolean {
+  return name !== 'fixture' || process.env.WEATHER_PROVIDER === 'fixture';
+}
+
+/**
+ * Returns the provider to use for a fetch. Subscriptions may override the
+ * deployment default (WEATHER_PROVIDER) with their own provider.
+ */
+export function getWeatherProvider(name?: WeatherProviderName): WeatherProvider {
+  const providerName = name || process.env.WEATHER_PROVIDER || 'openweathermap';
+  if (!isWeatherProviderName(providerName)) {
+    throw new Error(`Unknown weather provider: ${providerName}`);
+  }
+
+  let provider = providers.get(providerName);
+  if (!provider) {
+    provider = createProvider(providerName);
+    providers.set(providerName, provider);
+  }
+
+  return provider;
+}
+
+function createProvider(name: WeatherProviderName): WeatherProvider {
+  switch (name) {
+    case 'openweathermap':
+      return new OpenWeatherMapProvider(process.env.OPENWEATHER_API_KEY || '');
+    case 'open-meteo':
+      return new OpenMeteoProvider();
+    case 'nws':
+      return new NwsProvider(process.env.NWS_USER_AGENT || DEFAULT_NWS_USER_AGENT);
+    case 'fixture':
+      return new FixtureProvider(process.env.FIXTURE_DIR || undefined);
+  }
+}
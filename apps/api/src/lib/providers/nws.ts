@@ -0,0 +1,257 @@
+import { FORECAST_DAYS, ProviderLocation, ProviderWeather, WeatherForecast, WeatherProvider } from './types.js';
+
+const NWS_BASE_URL = 'https://api.weather.gov';
+
+// National Weather Service API types (GeoJSON, requested with units=si)
+interface NwsQuantity {
+  value: number | null;
+}
+
+export interface NwsPointResponse {
+  properties: {
+    forecast: string;
+    observationStations: string;
+    timeZone: string;
+  };
+}
+
+export interface NwsStationsResponse {
+  features: Array<{
+    properties: {
+      stationIdentifier: string;
+    };
+  }>;
+}
+
+export interface NwsObservationResponse {
+  properties: {
+    timestamp: string;
+    textDescription: string;
+    icon: string | null;
+    temperature: NwsQuantity; // °C
+    windSpeed: NwsQuantity; // km/h
+    windDirection: NwsQuantity; // degrees
+    barometricPressure: NwsQuantity; // Pa
+    seaLevelPressure: NwsQuantity; // Pa
+    relativeHumidity: NwsQuantity; // %
+    heatIndex: NwsQuantity; // °C
+    windChill: NwsQuantity; // °C
+  };
+}
+
+export interface NwsForecastResponse {
+  properties: {
+    periods: Array<{
+      startTime: string; // Local time with offset, e.g. 2024-01-01T06:00:00-05:00
+      isDaytime: boolean;
+      temperature: number;
+      probabilityOfPrecipitation: NwsQuantity;
+      shortForecast: string;
+      icon: string;
+    }>;
+  };
+}
+
+// NWS icon condition codes mapped to OpenWeatherMap icons
+const NWS_ICONS: Record<string, string> = {
+  skc: '01',
+  few: '02',
+  sct: '03',
+  bkn: '04',
+  ovc: '04',
+  wind_skc: '01',
+  wind_few: '02',
+  wind_sct: '03',
+  wind_bkn: '04',
+  wind_ovc: '04',
+  snow: '13',
+  rain_snow: '13',
+  rain_sleet: '13',
+  snow_sleet: '13',
+  fzra: '13',
+  rain_fzra: '13',
+  snow_fzra: '13',
+  sleet: '13',
+  blizzard: '13',
+  rain: '10',
+  rain_showers: '09',
+  rain_showers_hi: '09',
+  tsra: '11',
+  tsra_sct: '11',
+  tsra_hi: '11',
+  tornado: '11',
+  hurricane: '11',
+  tropical_storm: '11',
+  dust: '50',
+  smoke: '50',
+  haze: '50',
+  fog: '50',
+  hot: '01',
+  cold: '01',
+};
+
+interface NwsGridpoint {
+  forecastUrl: string;
+  stationId: string;
+  timeZone: string;
+}
+
+// The point -> forecast/station lookup never changes, so reuse it across warm invocations
+const gridpointCache: Map<string, NwsGridpoint> = new Map();
+
+export class NwsProvider implements WeatherProvider {
+  readonly name = 'nws';
+
+  constructor(private readonly userAgent: string) {}
+
+  async getWeather(location: ProviderLocation): Promise<ProviderWeather> {
+    const gridpoint = await this.getGridpoint(location);
+
+    const [observation, forecast] = await Promise.all([
+      this.request<NwsObservationResponse>(`${NWS_BASE_URL}/stations/${gridpoint.stationId}/observations/latest`),
+      this.request<NwsForecastResponse>(`${gridpoint.forecastUrl}?units=si`),
+    ]);
+
+    return parseNws(observation, forecast, gridpoint.timeZone);
+  }
+
+  private async getGridpoint(location: ProviderLocation): Promise<NwsGridpoint> {
+    // NWS only accepts up to four decimal places
+    const key = `${location.latitude.toFixed(4)},${location.longitude.toFixed(4)}`;
+    const cached = gridpointCache.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const point = await this.request<NwsPointResponse>(`${NWS_BASE_URL}/points/${key}`);
+    const stations = await this.request<NwsStationsResponse>(point.properties.observationStations);
+
+    const stationId = stations.features[0]?.properties.stationIdentifier;
+    if (!stationId) {
+      throw new Error(`No NWS observation station near ${key}`);
+    }
+
+    const gridpoint = { forecastUrl: point.properties.forecast, stationId, timeZone: point.properties.timeZone };
+    gridpointCache.set(key, gridpoint);
+    return gridpoint;
+  }
+
+  private async request<T>(url: string): Promise<T> {
+    const response = await fetch(url, {
+      headers: {
+        // NWS rejects requests without an identifying User-Agent
+        'User-Agent': this.userAgent,
+        Accept: 'application/geo+json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`NWS API error: ${response.status}`);
+    }
+
+    return response.json() as Promise<T>;
+  }
+}
+
+export function parseNws(
+  observation: NwsObservationResponse,
+  forecastData: NwsForecastResponse,
+  timeZone?: string
+): ProviderWeather {
+  const obs = observation.properties;
+
+  if (obs.temperature.value === null) {
+    throw new Error('NWS observation is missing temperature');
+  }
+
+  const pressurePa = obs.seaLevelPressure.value ?? obs.barometricPressure.value ?? 0;
+
+  return {
+    current: {
+      temperature: obs.temperature.value,
+      feelsLike: obs.heatIndex.value ?? obs.windChill.value ?? obs.temperature.value,
+      humidity: Math.round(obs.relativeHumidity.value ?? 0),
+      pressure: Math.round(pressurePa / 100),
+      windSpeed: Math.round(((obs.windSpeed.value ?? 0) / 3.6) * 10) / 10, // km/h -> m/s
+      windDirection: obs.windDirection.value ?? 0,
+      description: obs.textDescription.toLowerCase(),
+      icon: mapIcon(obs.icon),
+      timestamp: new Date(obs.timestamp).toISOString(),
+    },
+    forecast: processForecastPeriods(forecastData),
+    timezone: timeZone,
+    utcOffsetSeconds: parseUtcOffset(forecastData.properties.periods[0]?.startTime),
+  };
+}
+
+function processForecastPeriods(forecastData: NwsForecastResponse): WeatherForecast[] {
+  const dailyData: Map<string, {
+    temps: number[];
+    description: string;
+    icon: string;
+    precipitation: number[];
+    hasDaytime: boolean;
+  }> = new Map();
+
+  forecastData.properties.periods.forEach(period => {
+    // startTime is already local to the forecast office, so its date part is the local day
+    const date = period.startTime.split('T')[0];
+
+    if (!dailyData.has(date)) {
+      dailyData.set(date, {
+        temps: [],
+        description: period.shortForecast,
+        icon: period.icon,
+        precipitation: [],
+        hasDaytime: false,
+      });
+    }
+
+    const day = dailyData.get(date)!;
+    day.temps.push(period.temperature);
+    day.precipitation.push((period.probabilityOfPrecipitation.value ?? 0) / 100);
+
+    // Prefer the daytime period's summary for the day
+    if (period.isDaytime && !day.hasDaytime) {
+      day.description = period.shortForecast;
+      day.icon = period.icon;
+      day.hasDaytime = true;
+    }
+  });
+
+  const forecast: WeatherForecast[] = [];
+  dailyData.forEach((data, date) => {
+    forecast.push({
+      date,
+      tempMin: Math.min(...data.temps),
+      tempMax: Math.max(...data.temps),
+      description: data.description.toLowerCase(),
+      icon: mapIcon(data.icon).replace(/n$/, 'd'),
+      precipitation: Math.max(...data.precipitation),
+    });
+  });
+
+  return forecast.sort((a, b) => a.date.localeCompare(b.date)).slice(0, FORECAST_DAYS);
+}
+
+// e.g. 2024-01-01T06:00:00-05:00 -> -18000
+function parseUtcOffset(timestamp: string | undefined): number {
+  const match = timestamp?.match(/([+-])(\d{2}):(\d{2})$/);
+  if (!match) {
+    return 0;
+  }
+
+  const [, sign, hours, minutes] = match;
+  return (sign === '-' ? -1 : 1) * (Number(hours) * 3600 + Number(minutes) * 60);
+}
+
+// e.g. https://api.weather.gov/icons/land/night/rain,40/bkn?size=medium -> 10n
+function mapIcon(iconUrl: string | null): string {
+  const match = iconUrl?.match(/\/icons\/[^/]+\/(day|night)\/([a-z_]+)/);
+  if (!match) {
+    return '03d';
+  }
+
+  const [, period, condition] = match;
+  return `${NWS_ICONS[condition] || '03'}${period === 'day' ? 'd' : 'n'}`;
+}
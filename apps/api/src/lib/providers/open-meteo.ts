@@ -0,0 +1,122 @@
+import { FORECAST_DAYS, ProviderLocation, ProviderWeather, WeatherProvider } from './types.js';
+
+const OPEN_METEO_BASE_URL = 'https://api.open-meteo.com/v1';
+
+// Open-Meteo API types (requested with timeformat=unixtime)
+export interface OpenMeteoResponse {
+  latitude: number;
+  longitude: number;
+  timezone: string;
+  utc_offset_seconds: number;
+  current: {
+    time: number;
+    temperature_2m: number;
+    relative_humidity_2m: number;
+    apparent_temperature: number;
+    is_day: number;
+    weather_code: number;
+    pressure_msl: number;
+    wind_speed_10m: number;
+    wind_direction_10m: number;
+  };
+  daily: {
+    time: number[];
+    weather_code: number[];
+    temperature_2m_max: number[];
+    temperature_2m_min: number[];
+    precipitation_probability_max: Array<number | null>;
+  };
+}
+
+// WMO weather interpretation codes mapped to a description and OpenWeatherMap icon
+const WMO_CODES: Record<number, [string, string]> = {
+  0: ['clear sky', '01'],
+  1: ['mainly clear', '02'],
+  2: ['partly cloudy', '03'],
+  3: ['overcast', '04'],
+  45: ['fog', '50'],
+  48: ['depositing rime fog', '50'],
+  51: ['light drizzle', '09'],
+  53: ['moderate drizzle', '09'],
+  55: ['dense drizzle', '09'],
+  56: ['light freezing drizzle', '09'],
+  57: ['dense freezing drizzle', '09'],
+  61: ['slight rain', '10'],
+  63: ['moderate rain', '10'],
+  65: ['heavy rain', '10'],
+  66: ['light freezing rain', '13'],
+  67: ['heavy freezing rain', '13'],
+  71: ['slight snow fall', '13'],
+  73: ['moderate snow fall', '13'],
+  75: ['heavy snow fall', '13'],
+  77: ['snow grains', '13'],
+  80: ['slight rain showers', '09'],
+  81: ['moderate rain showers', '09'],
+  82: ['violent rain showers', '09'],
+  85: ['slight snow showers', '13'],
+  86: ['heavy snow showers', '13'],
+  95: ['thunderstorm', '11'],
+  96: ['thunderstorm with slight hail', '11'],
+  99: ['thunderstorm with heavy hail', '11'],
+};
+
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly name = 'open-meteo';
+
+  async getWeather(location: ProviderLocation): Promise<ProviderWeather> {
+    const params = new URLSearchParams({
+      latitude: String(location.latitude),
+      longitude: String(location.longitude),
+      current: 'temperature_2m,relative_humidity_2m,apparent_temperature,is_day,weather_code,pressure_msl,wind_speed_10m,wind_direction_10m',
+      daily: 'weather_code,temperature_2m_max,temperature_2m_min,precipitation_probability_max',
+      wind_speed_unit: 'ms',
+      timeformat: 'unixtime',
+      timezone: 'auto', // Daily values are aggregated over the location's local days
+      forecast_days: String(FORECAST_DAYS),
+    });
+
+    const response = await fetch(`${OPEN_METEO_BASE_URL}/forecast?${params}`);
+
+    if (!response.ok) {
+      throw new Error(`Open-Meteo API error: ${response.status}`);
+    }
+
+    return parseOpenMeteo(await response.json() as OpenMeteoResponse);
+  }
+}
+
+export function parseOpenMeteo(data: OpenMeteoResponse): ProviderWeather {
+  const [description, icon] = describeWeatherCode(data.current.weather_code);
+
+  return {
+    current: {
+      temperature: data.current.temperature_2m,
+      feelsLike: data.current.apparent_temperature,
+      humidity: data.current.relative_humidity_2m,
+      pressure: data.current.pressure_msl,
+      windSpeed: data.current.wind_speed_10m,
+      windDirection: data.current.wind_direction_10m,
+      description,
+      icon: `${icon}${data.current.is_day ? 'd' : 'n'}`,
+      timestamp: new Date(data.current.time * 1000).toISOString(),
+    },
+    forecast: data.daily.time.slice(0, FORECAST_DAYS).map((time, index) => {
+      const [dayDescription, dayIcon] = describeWeatherCode(data.daily.weather_code[index]);
+      return {
+        // Daily timestamps are local midnight, so shift by the offset before taking the date
+        date: new Date((time + data.utc_offset_seconds) * 1000).toISOString().split('T')[0],
+        tempMin: data.daily.temperature_2m_min[index],
+        tempMax: data.daily.temperature_2m_max[index],
+        description: dayDescription,
+        icon: `${dayIcon}d`,
+        precipitation: (data.daily.precipitation_probability_max[index] ?? 0) / 100,
+      };
+    }),
+    timezone: data.timezone,
+    utcOffsetSeconds: data.utc_offset_seconds,
+  };
+}
+
+function describeWeatherCode(code: number): [string, string] {
+  return WMO_CODES[code] || ['unknown', '03'];
+}
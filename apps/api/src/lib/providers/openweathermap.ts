@@ -0,0 +1,150 @@
+import { FORECAST_DAYS, ProviderLocation, ProviderWeather, WeatherForecast, WeatherProvider } from './types.js';
+
+const OPENWEATHER_BASE_URL = 'https://api.openweathermap.org/data/2.5';
+
+// OpenWeatherMap API types
+export interface OpenWeatherMapResponse {
+  coord: {
+    lon: number;
+    lat: number;
+  };
+  weather: Array<{
+    id: number;
+    main: string;
+    description: string;
+    icon: string;
+  }>;
+  main: {
+    temp: number;
+    feels_like: number;
+    pressure: number;
+    humidity: number;
+  };
+  wind: {
+    speed: number;
+    deg: number;
+  };
+  dt: number;
+  timezone: number; // Shift in seconds from UTC
+  name: string;
+}
+
+export interface OpenWeatherMapForecastResponse {
+  list: Array<{
+    dt: number;
+    main: {
+      temp_min: number;
+      temp_max: number;
+    };
+    weather: Array<{
+      description: string;
+      icon: string;
+    }>;
+    pop: number; // Probability of precipitation
+  }>;
+  city: {
+    timezone: number; // Shift in seconds from UTC
+  };
+}
+
+export class OpenWeatherMapProvider implements WeatherProvider {
+  readonly name = 'openweathermap';
+
+  constructor(private readonly apiKey: string) {}
+
+  async getWeather(location: ProviderLocation): Promise<ProviderWeather> {
+    if (!this.apiKey) {
+      throw new Error('OPENWEATHER_API_KEY is not configured');
+    }
+
+    const query = `lat=${location.latitude}&lon=${location.longitude}&appid=${this.apiKey}&units=metric`;
+
+    // Fetch current weather
+    const currentResponse = await fetch(`${OPENWEATHER_BASE_URL}/weather?${query}`);
+
+    if (!currentResponse.ok) {
+      throw new Error(`OpenWeatherMap API error: ${currentResponse.status}`);
+    }
+
+    const currentData = await currentResponse.json() as OpenWeatherMapResponse;
+
+    // Fetch 5-day forecast
+    const forecastResponse = await fetch(`${OPENWEATHER_BASE_URL}/forecast?${query}`);
+
+    if (!forecastResponse.ok) {
+      throw new Error(`OpenWeatherMap Forecast API error: ${forecastResponse.status}`);
+    }
+
+    const forecastData = await forecastResponse.json() as OpenWeatherMapForecastResponse;
+
+    return parseOpenWeatherMap(currentData, forecastData);
+  }
+}
+
+export function parseOpenWeatherMap(
+  currentData: OpenWeatherMapResponse,
+  forecastData: OpenWeatherMapForecastResponse
+): ProviderWeather {
+  return {
+    current: {
+      temperature: currentData.main.temp,
+      feelsLike: currentData.main.feels_like,
+      humidity: currentData.main.humidity,
+      pressure: currentData.main.pressure,
+      windSpeed: currentData.wind.speed,
+      windDirection: currentData.wind.deg,
+      description: currentData.weather[0]?.description || '',
+      icon: currentData.weather[0]?.icon || '',
+      timestamp: new Date(currentData.dt * 1000).toISOString(),
+    },
+    forecast: processForecastData(forecastData),
+    utcOffsetSeconds: forecastData.city.timezone,
+  };
+}
+
+function processForecastData(forecastData: OpenWeatherMapForecastResponse): WeatherForecast[] {
+  const dailyData: Map<string, {
+    temps: number[];
+    descriptions: string[];
+    icons: string[];
+    precipitation: number[];
+  }> = new Map();
+
+  // Group by the location's local date so each day runs from local midnight
+  const offsetSeconds = forecastData.city.timezone;
+
+  forecastData.list.forEach(item => {
+    const date = new Date((item.dt + offsetSeconds) * 1000).toISOString().split('T')[0];
+
+    if (!dailyData.has(date)) {
+      dailyData.set(date, {
+        temps: [],
+        descriptions: [],
+        icons: [],
+        precipitation: [],
+      });
+    }
+
+    const day = dailyData.get(date)!;
+    day.temps.push(item.main.temp_min, item.main.temp_max);
+    day.descriptions.push(item.weather[0]?.description || '');
+    day.icons.push(item.weather[0]?.icon || '');
+    day.precipitation.push(item.pop);
+  });
+
+  // Convert to array and calculate daily aggregates
+  const forecast: WeatherForecast[] = [];
+  dailyData.forEach((data, date) => {
+    forecast.push({
+      date,
+      tempMin: Math.min(...data.temps),
+      tempMax: Math.max(...data.temps),
+      description: data.descriptions[Math.floor(data.descriptions.length / 2)] || '',
+      icon: data.icons[Math.floor(data.icons.length / 2)] || '',
+      precipitation: Math.max(...data.precipitation),
+    });
+  });
+
+  // Sort by date and return first 5 days
+  return forecast.sort((a, b) => a.date.localeCompare(b.date)).slice(0, FORECAST_DAYS);
+}
@@ -0,0 +1,42 @@
+export type WeatherProviderName = 'openweathermap' | 'open-meteo' | 'nws' | 'fixture';
+
+export interface ProviderLocation {
+  latitude: number;
+  longitude: number;
+}
+
+// Current conditions, normalized to metric units and OpenWeatherMap icon codes
+export interface WeatherObservation {
+  temperature: number; // °C
+  feelsLike: number; // °C
+  humidity: number; // %
+  pressure: number; // hPa
+  windSpeed: number; // m/s
+  windDirection: number; // degrees
+  description: string;
+  icon: string;
+  timestamp: string; // ISO 8601 observation time
+}
+
+export interface WeatherForecast {
+  date: string; // YYYY-MM-DD in the location's local time
+  tempMin: number;
+  tempMax: number;
+  description: string;
+  icon: string;
+  precipitation: number; // Probability, 0-1
+}
+
+export interface ProviderWeather {
+  current: WeatherObservation;
+  forecast: WeatherForecast[]; // Days run from local midnight to local midnight
+  timezone?: string; // IANA name, when the provider reports one
+  utcOffsetSeconds: number; // Offset from UTC at fetch time
+}
+
+export interface WeatherProvider {
+  readonly name: WeatherProviderName;
+  getWeather(location: ProviderLocation): Promise<ProviderWeather>;
+}
+
+export const FORECAST_DAYS = 5;
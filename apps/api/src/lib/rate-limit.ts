@@ -0,0 +1,140 @@
+import { UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { CallerIdentity, RateLimits } from './auth.js';
+import { docClient } from './dynamodb.js';
+
+// Limits shared by everything a user does, whether signed in or through any of their tokens
+export const USER_LIMITS: RateLimits = {
+  perMinute: Number(process.env.USER_RATE_LIMIT_PER_MINUTE) || 300,
+  perDay: Number(process.env.USER_DAILY_QUOTA) || 50000,
+};
+
+// Applied to each API token unless it was created with its own limits
+export const DEFAULT_TOKEN_LIMITS: RateLimits = {
+  perMinute: Number(process.env.TOKEN_RATE_LIMIT_PER_MINUTE) || 60,
+  perDay: Number(process.env.TOKEN_DAILY_QUOTA) || 10000,
+};
+
+const USAGE_RETENTION_DAYS = 90;
+
+export interface RateLimitResult {
+  limited: boolean;
+  headers: Record<string, string>; // X-RateLimit-* for the tightest window, plus Retry-After when limited
+}
+
+interface Window {
+  id: string;
+  limit: number;
+  resetAt: number; // Unix timestamp when the window rolls over
+}
+
+/**
+ * Counts this request against the caller's per-minute and per-day windows (fixed windows, UTC days)
+ * and reports whether any of them is over its limit. Requests made with an API token are also added
+ * to the token's daily usage. Counting fails open: a DynamoDB error never blocks a request.
+ */
+export async function checkRateLimit(identity: CallerIdentity): Promise<RateLimitResult> {
+  const windows = getWindows(identity);
+
+  let counts: number[];
+  try {
+    [counts] = await Promise.all([
+      Promise.all(windows.map(async window => {
+        const result = await docClient.send(counterUpdate(window));
+        return Number(result.Attributes?.count ?? 0);
+      })),
+      identity.tokenId ? recordTokenUsage(identity.tokenId, identity.userId) : undefined,
+    ]);
+  } catch (error) {
+    console.error('Rate limit check failed:', error);
+    return { limited: false, headers: {} };
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const exceeded = windows.filter((window, i) => counts[i] > window.limit);
+
+  // Report the window with the fewest requests left
+  let tightest = 0;
+  windows.forEach((window, i) => {
+    if (window.limit - counts[i] < windows[tightest].limit - counts[tightest]) {
+      tightest = i;
+    }
+  });
+
+  const headers: Record<string, string> = {
+    'Access-Control-Expose-Headers': 'Retry-After,X-RateLimit-Limit,X-RateLimit-Remaining,X-RateLimit-Reset',
+    'X-RateLimit-Limit': String(windows[tightest].limit),
+    'X-RateLimit-Remaining': String(Math.max(0, windows[tightest].limit - counts[tightest])),
+    'X-RateLimit-Reset': String(windows[tightest].resetAt),
+  };
+
+  if (exceeded.length > 0) {
+    const retryAt = Math.max(...exceeded.map(window => window.resetAt));
+    headers['Retry-After'] = String(Math.max(1, retryAt - now));
+  }
+
+  return { limited: exceeded.length > 0, headers };
+}
+
+function getWindows(identity: CallerIdentity): Window[] {
+  const now = new Date();
+  const minute = Math.floor(now.getTime() / 60000);
+  const day = now.toISOString().slice(0, 10);
+  const dayResetAt = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1) / 1000;
+
+  const windows: Window[] = [
+    { id: `user#${identity.userId}#minute#${minute}`, limit: USER_LIMITS.perMinute, resetAt: (minute + 1) * 60 },
+    { id: `user#${identity.userId}#day#${day}`, limit: USER_LIMITS.perDay, resetAt: dayResetAt },
+  ];
+
+  if (identity.tokenId) {
+    const limits = identity.tokenLimits ?? DEFAULT_TOKEN_LIMITS;
+    windows.push(
+      { id: `token#${identity.tokenId}#minute#${minute}`, limit: limits.perMinute, resetAt: (minute + 1) * 60 },
+      { id: `token#${identity.tokenId}#day#${day}`, limit: limits.perDay, resetAt: dayResetAt },
+    );
+  }
+
+  return windows;
+}
+
+function counterUpdate(window: Window): UpdateCommand {
+  return new UpdateCommand({
+    TableName: process.env.RATE_LIMITS_TABLE!,
+    Key: { id: window.id },
+    UpdateExpression: 'ADD #count :one SET #ttl = :ttl',
+    ExpressionAttributeNames: {
+      '#count': 'count',
+      '#ttl': 'ttl',
+    },
+    ExpressionAttributeValues: {
+      ':one': 1,
+      ':ttl': window.resetAt + 60 * 60, // Keep finished windows around briefly, then let TTL remove them
+    },
+    ReturnValues: 'UPDATED_NEW',
+  });
+}
+
+// Adds the request to the token's count for the UTC day, read by GET /tokens/{id}/usage.
+// Failures are logged and never block the request or the rate limit check.
+async function recordTokenUsage(tokenId: string, userId: string): Promise<void> {
+  const now = new Date();
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: process.env.TOKEN_USAGE_TABLE!,
+      Key: { tokenId, date: now.toISOString().slice(0, 10) },
+      UpdateExpression: 'ADD requests :one SET userId = :userId, #ttl = :ttl',
+      ExpressionAttributeNames: {
+        '#ttl': 'ttl',
+      },
+      ExpressionAttributeValues: {
+        ':one': 1,
+        ':userId': userId,
+        ':ttl': Math.floor(now.getTime() / 1000) + USAGE_RETENTION_DAYS * 24 * 60 * 60,
+      },
+      ReturnValues: 'UPDATED_NEW',
+    }));
+  } catch (error) {
+    console.error('Failed to record token usage:', error);
+  }
+}
@@ -0,0 +1,27 @@
+import { SQSClient, SendMessageBatchCommand } from '@aws-sdk/client-sqs';
+
+const SQS_BATCH_SIZE = 10; // SendMessageBatch limit
+
+// Sends one message per item as JSON. `describe` names an item in the error listing the ones SQS rejected.
+export async function sendMessageBatches<T>(
+  sqs: SQSClient,
+  queueUrl: string,
+  items: T[],
+  describe: (item: T) => string
+): Promise<void> {
+  for (let i = 0; i < items.length; i += SQS_BATCH_SIZE) {
+    const batch = items.slice(i, i + SQS_BATCH_SIZE);
+    const result = await sqs.send(new SendMessageBatchCommand({
+      QueueUrl: queueUrl,
+      Entries: batch.map((item, index) => ({
+        Id: String(index),
+        MessageBody: JSON.stringify(item),
+      })),
+    }));
+
+    if (result.Failed && result.Failed.length > 0) {
+      const failed = result.Failed.map(entry => `${describe(batch[Number(entry.Id)])}: ${entry.Message}`);
+      throw new Error(`Failed to enqueue ${failed.length} messages: ${failed.join('; ')}`);
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { errorBody, ErrorResponse } from './errors.js';
+
+// Same shape as FieldError in @weather-app/shared. Handlers pass the shared validators in, so this
+// module stays free of package imports.
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export type RequestValidator<T> = (input: unknown) => { value: T } | { errors: FieldError[] };
+
+/**
+ * Parses a JSON request body and checks it with one of the shared request validators. Missing or
+ * malformed bodies are reported like any other invalid request instead of surfacing as a 500.
+ * When `optional` is set an empty body is validated as `{}`.
+ */
+export function parseRequestBody<T>(
+  body: string | null,
+  validate: RequestValidator<T>,
+  optional = false
+): { request: T } | { error: ErrorResponse } {
+  if (!body) {
+    return optional
+      ? toRequest(validate({}))
+      : { error: validationError([{ field: 'body', message: 'Request body is required' }]) };
+  }
+
+  let input: unknown;
+  try {
+    input = JSON.parse(body);
+  } catch {
+    return { error: validationError([{ field: 'body', message: 'Request body must be valid JSON' }]) };
+  }
+
+  return toRequest(validate(input));
+}
+
+/** A 400 body for errors found by the handler itself, e.g. IDs that don't belong to the caller. */
+export function validationError(errors: FieldError[]): ErrorResponse {
+  return errorBody('validation_failed', errors.map(error => error.message).join('; '), errors);
+}
+
+function toRequest<T>(result: { value: T } | { errors: FieldError[] }): { request: T } | { error: ErrorResponse } {
+  return 'errors' in result ? { error: validationError(result.errors) } : { request: result.value };
+}
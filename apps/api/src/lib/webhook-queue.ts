@@ -0,0 +1,81 @@
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { GetCommand } from '@aws-sdk/lib-dynamodb';
+import { sendMessageBatches } from './sqs.js';
+import { deliverWebhook, Webhook, WebhookDelivery, WebhookEvent } from './webhooks.js';
+import { docClient } from './dynamodb.js';
+
+const WEBHOOKS_TABLE = process.env.WEBHOOKS_TABLE!;
+
+export interface WebhookJob {
+  deliveryId: string; // Chosen when queued, so receivers can drop a redelivered message
+  webhookId: string; // Re-read when delivered, so webhooks deleted or disabled meanwhile are skipped
+  event: WebhookEvent;
+  subscriptionId?: string; // Set for weather.updated only
+  payload: string;
+  redeliveryOf?: string; // Set when a user asked to resend an earlier delivery
+}
+
+export interface WebhookQueue {
+  // Resolves once every job is queued. The in-process queue also waits for them to be delivered.
+  enqueue(jobs: WebhookJob[]): Promise<void>;
+}
+
+export type WebhookQueueTransport = 'sqs' | 'in-process';
+
+// Sends jobs to SQS for WebhookDeliveryWorkerFunction, so a slow endpoint, which can take nearly a
+// minute to fail every attempt, never holds up the fetch worker or an API request
+export class SqsWebhookQueue implements WebhookQueue {
+  private readonly sqs = new SQSClient({});
+
+  constructor(private readonly queueUrl: string) {}
+
+  async enqueue(jobs: WebhookJob[]): Promise<void> {
+    await sendMessageBatches(this.sqs, this.queueUrl, jobs, job => `webhook ${job.webhookId}`);
+  }
+}
+
+// Delivers jobs in this process, all at once, before the caller carries on
+export class InProcessWebhookQueue implements WebhookQueue {
+  async enqueue(jobs: WebhookJob[]): Promise<void> {
+    await Promise.all(jobs.map(deliverWebhookJob));
+  }
+}
+
+export function createWebhookQueue(
+  transport: string = process.env.WEBHOOK_QUEUE || 'in-process'
+): WebhookQueue {
+  switch (transport as WebhookQueueTransport) {
+    case 'sqs':
+      if (!process.env.WEBHOOK_QUEUE_URL) {
+        throw new Error('WEBHOOK_QUEUE_URL is required for the sqs webhook queue');
+      }
+      return new SqsWebhookQueue(process.env.WEBHOOK_QUEUE_URL);
+    case 'in-process':
+      return new InProcessWebhookQueue();
+    default:
+      throw new Error(`Unknown webhook queue: ${transport}`);
+  }
+}
+
+// Returns undefined when the webhook was deleted or disabled after the job was queued
+export async function deliverWebhookJob(job: WebhookJob): Promise<WebhookDelivery | undefined> {
+  const result = await docClient.send(new GetCommand({
+    TableName: WEBHOOKS_TABLE,
+    Key: { id: job.webhookId },
+  }));
+
+  const webhook = result.Item as Webhook | undefined;
+  if (!webhook?.enabled) {
+    console.log(`Skipping delivery ${job.deliveryId}, webhook ${job.webhookId} was deleted or disabled`);
+    return undefined;
+  }
+
+  return deliverWebhook({
+    webhook,
+    event: job.event,
+    subscriptionId: job.subscriptionId,
+    payload: job.payload,
+    deliveryId: job.deliveryId,
+    redeliveryOf: job.redeliveryOf,
+  });
+}
@@ -0,0 +1,223 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { createHmac, randomUUID } from 'crypto';
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIPv4, LookupFunction } from 'net';
+import { Agent, fetch } from 'undici';
+import { docClient } from './dynamodb.js';
+
+const WEBHOOK_DELIVERIES_TABLE = process.env.WEBHOOK_DELIVERIES_TABLE!;
+
+const MAX_ATTEMPTS = 4;
+const INITIAL_BACKOFF_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+const DELIVERY_LOG_TTL_SECONDS = 30 * 24 * 60 * 60; // 30 days
+
+// Loopback, private, link-local (which holds the 169.254.169.254 metadata service), shared,
+// reserved and multicast ranges: nothing a public webhook endpoint would resolve to
+const BLOCKED_SUBNETS: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['224.0.0.0', 3, 'ipv4'], // Multicast, reserved and broadcast
+  ['::', 127, 'ipv6'], // Unspecified and loopback
+  ['64:ff9b::', 96, 'ipv6'], // NAT64, which can reach the IPv4 ranges above
+  ['fc00::', 7, 'ipv6'], // Unique local, including fd00:ec2::254 for the metadata service
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const BLOCKED_ADDRESSES = new BlockList();
+BLOCKED_SUBNETS.forEach(([network, prefix, type]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, type));
+
+export type WebhookEvent = 'weather.updated' | 'token.expiring';
+
+export interface Webhook {
+  id: string;
+  userId: string;
+  url: string;
+  description: string;
+  subscriptionIds: string[]; // Empty = all of the user's subscriptions
+  secret: string; // HMAC-SHA256 signing key
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  userId: string;
+  event: WebhookEvent;
+  subscriptionId?: string; // Set for weather.updated only
+  payload: string; // Exact JSON body that was sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+  redeliveryOf?: string;
+  createdAt: string;
+  ttl: number;
+}
+
+export interface DeliveryRequest {
+  webhook: Webhook;
+  event: WebhookEvent;
+  subscriptionId?: string;
+  payload: string;
+  redeliveryOf?: string;
+  deliveryId?: string; // Set by queued deliveries, so a redelivered message reuses its ID and log entry
+}
+
+// The addresses a webhook URL may be delivered to, or why it can't be. Every address the host
+// resolves to must be public, so a webhook can't be pointed at the metadata service or anything in the VPC.
+async function resolveWebhookUrl(value: string): Promise<{ addresses: LookupAddress[] } | { error: string }> {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return { error: 'A valid webhook URL is required' };
+  }
+  if (url.protocol !== 'https:') {
+    return { error: 'Webhook URL must use https' };
+  }
+
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1'); // IPv6 literals are bracketed
+  let addresses: LookupAddress[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return { error: `Webhook host ${hostname} could not be resolved` };
+  }
+
+  // IPv4-mapped IPv6 addresses are matched against the IPv4 ranges too
+  const blocked = addresses.some(({ address }) => BLOCKED_ADDRESSES.check(address, isIPv4(address) ? 'ipv4' : 'ipv6'));
+  return addresses.length === 0 || blocked ? { error: 'Webhook URL must point to a public address' } : { addresses };
+}
+
+// Why a webhook URL can't be delivered to, or null if it can
+export async function checkWebhookUrl(value: string): Promise<string | null> {
+  const resolved = await resolveWebhookUrl(value);
+  return 'error' in resolved ? resolved.error : null;
+}
+
+// Connects only to addresses that passed the check. Resolving the host again when connecting would
+// let a record re-pointed in between (DNS rebinding) send the delivery to a private address.
+function pinnedAgent(addresses: LookupAddress[]): Agent {
+  const pinnedLookup: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  };
+  return new Agent({ connect: { lookup: pinnedLookup } });
+}
+
+// Receivers verify with: HMAC-SHA256(secret, `${timestamp}.${body}`) === signature
+export function signPayload(secret: string, timestamp: string, payload: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+}
+
+// Posts a signed event with retries on network errors, 429 and 5xx (redirects are not followed), and logs the outcome to the deliveries table
+export async function deliverWebhook(request: DeliveryRequest): Promise<WebhookDelivery> {
+  const deliveryId = request.deliveryId ?? randomUUID();
+  const startedAt = Date.now();
+  let attempts = 0;
+  let responseStatus: number | undefined;
+  let error: string | undefined;
+
+  while (attempts < MAX_ATTEMPTS) {
+    attempts++;
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+
+    // Checked on every attempt, as the host may have been re-pointed since the webhook was saved
+    const resolved = await resolveWebhookUrl(request.webhook.url);
+    if ('error' in resolved) {
+      responseStatus = undefined;
+      error = resolved.error;
+      break;
+    }
+
+    const dispatcher = pinnedAgent(resolved.addresses);
+    try {
+      const response = await fetch(request.webhook.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'WeatherSubscriptionApp-Webhooks/1.0',
+          'X-Webhook-Id': request.webhook.id,
+          'X-Webhook-Event': request.event,
+          'X-Webhook-Delivery': deliveryId,
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': `sha256=${signPayload(request.webhook.secret, timestamp, request.payload)}`,
+        },
+        body: request.payload,
+        redirect: 'manual', // A redirect could lead to an address checkWebhookUrl would reject
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        dispatcher,
+      });
+
+      responseStatus = response.status;
+      if (response.ok) {
+        error = undefined;
+        break;
+      }
+
+      error = `Endpoint responded with ${response.status}`;
+      // Other client errors won't change on retry
+      if (response.status < 500 && response.status !== 429) {
+        break;
+      }
+    } catch (err) {
+      responseStatus = undefined;
+      error = err instanceof Error ? err.message : 'Unknown error';
+    } finally {
+      // The response body is never read, so don't wait for it
+      await dispatcher.destroy();
+    }
+
+    if (attempts < MAX_ATTEMPTS) {
+      await sleep(INITIAL_BACKOFF_MS * 2 ** (attempts - 1));
+    }
+  }
+
+  const delivery: WebhookDelivery = {
+    id: deliveryId,
+    webhookId: request.webhook.id,
+    userId: request.webhook.userId,
+    event: request.event,
+    subscriptionId: request.subscriptionId,
+    payload: request.payload,
+    status: error ? 'failed' : 'succeeded',
+    attempts,
+    responseStatus,
+    error,
+    durationMs: Date.now() - startedAt,
+    redeliveryOf: request.redeliveryOf,
+    createdAt: new Date(startedAt).toISOString(),
+    ttl: Math.floor(startedAt / 1000) + DELIVERY_LOG_TTL_SECONDS,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: WEBHOOK_DELIVERIES_TABLE,
+    Item: delivery,
+  }));
+
+  console.log(`Webhook ${request.webhook.id} delivery ${deliveryId} ${delivery.status} after ${attempts} attempt(s)`);
+
+  return delivery;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,20 @@
+import { APIGatewayProxyResult } from 'aws-lambda';
+import document from './openapi.json';
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,OPTIONS',
+  'Cache-Control': 'public, max-age=300',
+};
+
+// Bundled at build time, so each deployment serves the document for its own routes
+const body = JSON.stringify(document);
+
+// Public: the document describes the API, it doesn't expose any data
+export const handler = async (): Promise<APIGatewayProxyResult> => ({
+  statusCode: 200,
+  headers,
+  body,
+});
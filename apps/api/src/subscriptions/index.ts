@@ -1,58 +1,139 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, QueryCommand, DeleteCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { PutCommand, QueryCommand, DeleteCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { v4 as uuidv4 } from 'uuid';
+import {
+  validateCreateAlertRuleRequest,
+  validateCreateSubscriptionRequest,
+  validateUpdateAlertRuleRequest,
+  validateUpdateSubscriptionRequest,
+} from '@weather-app/shared';
 import {
   LocationSubscription,
   CreateSubscriptionRequest,
+  GetSubscriptionsResponse,
+  UpdateSubscriptionRequest,
+  AlertRule,
+  AlertMetric,
+  CreateAlertRuleRequest,
+  UpdateAlertRuleRequest,
+  ListAlertRulesResponse,
   WeatherData,
   WeatherForecast,
-  OpenWeatherMapResponse,
-  OpenWeatherMapForecastResponse
+  WeatherLocation
 } from './types.js';
+import { getWeatherProvider, isSubscriptionProviderAllowed, WEATHER_PROVIDERS } from '../lib/providers/index.js';
+import { getLocationId, isLocationFresh, roundCoordinate, LOCATION_TTL_SECONDS } from '../lib/locations.js';
+import { getIdentity, hasScope, canAccessSubscription } from '../lib/auth.js';
+import { checkRateLimit } from '../lib/rate-limit.js';
+import { ActivityActor, ActivityType, actorFromRequest, recordActivity } from '../lib/activity.js';
+import { findPlaceNear, reverseGeocode } from '../lib/geocoding/index.js';
+import { encodeCursor, PageLimits, parsePageRequest } from '../lib/pagination.js';
+import { parseRequestBody, validationError } from '../lib/validation.js';
+import { errorBody, internalError, withRequestId } from '../lib/errors.js';
+import { docClient } from '../lib/dynamodb.js';
 
-const client = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(client);
 const TABLE_NAME = process.env.SUBSCRIPTIONS_TABLE!;
 const WEATHER_TABLE = process.env.WEATHER_DATA_TABLE!;
-const OPENWEATHER_API_KEY = process.env.OPENWEATHER_API_KEY!;
-const OPENWEATHER_BASE_URL = 'https://api.openweathermap.org/data/2.5';
+const ALERT_RULES_TABLE = process.env.ALERT_RULES_TABLE!;
+const LOCATIONS_TABLE = process.env.LOCATIONS_TABLE!;
 
 const headers = {
   'Content-Type': 'application/json',
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
-  'Access-Control-Allow-Methods': 'GET,POST,DELETE,OPTIONS',
+  'Access-Control-Allow-Methods': 'GET,POST,PATCH,DELETE,OPTIONS',
+};
+
+const FORECAST_ALERT_METRICS: AlertMetric[] = ['forecastTempMin', 'forecastTempMax', 'precipitationProbability'];
+
+// Default recovery margin per metric, so a value hovering at the threshold doesn't flap
+const DEFAULT_HYSTERESIS: Record<AlertMetric, number> = {
+  temperature: 1,
+  feelsLike: 1,
+  humidity: 5,
+  pressure: 2,
+  windSpeed: 2,
+  forecastTempMin: 1,
+  forecastTempMax: 1,
+  precipitationProbability: 10,
 };
+const DEFAULT_COOLDOWN_MINUTES = 180;
+const MAX_ALERT_RULES_PER_SUBSCRIPTION = 10;
+const SUBSCRIPTION_PAGE_LIMITS: PageLimits = { default: 50, max: 100 };
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+  withRequestId(await handleRequest(event), event.requestContext?.requestId);
 
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
   console.log('Event:', JSON.stringify(event, null, 2));
 
   try {
-    const userId = event.requestContext.authorizer?.claims?.sub;
-    if (!userId) {
+    const identity = getIdentity(event);
+    if (!identity) {
       return {
         statusCode: 401,
         headers,
-        body: JSON.stringify({ message: 'Unauthorized' }),
+        body: JSON.stringify(errorBody('unauthorized', 'Unauthorized')),
+      };
+    }
+    const userId = identity.userId;
+
+    const rateLimit = await checkRateLimit(identity);
+    if (rateLimit.limited) {
+      return {
+        statusCode: 429,
+        headers: { ...headers, ...rateLimit.headers },
+        body: JSON.stringify(errorBody('rate_limited', 'Rate limit exceeded, retry after the time in Retry-After')),
       };
     }
 
     const method = event.httpMethod;
-    const path = event.path;
+
+    const requiredScope = method === 'GET' ? 'subscriptions:read' : 'subscriptions:write';
+    if (!hasScope(identity, requiredScope)) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('insufficient_scope', `Token is missing the ${requiredScope} scope`)),
+      };
+    }
+
+    const subscriptionId = event.pathParameters?.id;
+    if (subscriptionId && !canAccessSubscription(identity, subscriptionId)) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('forbidden', 'Token is not allowed to access this subscription')),
+      };
+    }
+
+    // A token pinned to some subscriptions could never reach the new one
+    if (method === 'POST' && !subscriptionId && identity.subscriptionIds) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('forbidden', 'Tokens limited to specific subscriptions cannot create subscriptions')),
+      };
+    }
+
+    if (event.resource.startsWith('/subscriptions/{id}/alerts')) {
+      return await handleAlertRoute(event, userId);
+    }
 
     switch (method) {
       case 'POST':
-        return await createSubscription(event, userId);
+        return await createSubscription(event, userId, actorFromRequest(identity, event));
       case 'GET':
-        return await listSubscriptions(userId);
+        return await listSubscriptions(event, userId, identity.subscriptionIds);
+      case 'PATCH':
+        return await updateSubscription(event, userId, actorFromRequest(identity, event));
       case 'DELETE':
-        return await deleteSubscription(event, userId);
+        return await deleteSubscription(event, userId, actorFromRequest(identity, event));
       default:
         return {
           statusCode: 405,
           headers,
-          body: JSON.stringify({ message: 'Method not allowed' }),
+          body: JSON.stringify(errorBody('method_not_allowed', 'Method not allowed')),
         };
     }
   } catch (error) {
@@ -60,41 +141,51 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     return {
       statusCode: 500,
       headers,
-      body: JSON.stringify({
-        message: 'Internal server error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }),
+      body: JSON.stringify(internalError()),
     };
   }
-};
+}
 
-async function createSubscription(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
-  if (!event.body) {
+async function createSubscription(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  actor: ActivityActor
+): Promise<APIGatewayProxyResult> {
+  const parsed = parseRequestBody(event.body, validateCreateSubscriptionRequest);
+  if ('error' in parsed) {
     return {
       statusCode: 400,
       headers,
-      body: JSON.stringify({ message: 'Request body is required' }),
+      body: JSON.stringify(parsed.error),
     };
   }
 
-  const request: CreateSubscriptionRequest = JSON.parse(event.body);
+  const request: CreateSubscriptionRequest = parsed.request;
 
-  if (!request.location || !request.latitude || !request.longitude) {
+  if (request.provider && !isSubscriptionProviderAllowed(request.provider)) {
+    const allowed = WEATHER_PROVIDERS.filter(isSubscriptionProviderAllowed);
     return {
       statusCode: 400,
       headers,
-      body: JSON.stringify({ message: 'Missing required fields: location, latitude, longitude' }),
+      body: JSON.stringify(validationError([
+        { field: 'provider', message: `Provider must be one of: ${allowed.join(', ')}` },
+      ])),
     };
   }
 
+  const place = await resolvePlace(request.latitude, request.longitude, request);
+
   const subscription: LocationSubscription = {
     id: uuidv4(),
     userId,
     location: request.location,
     latitude: request.latitude,
     longitude: request.longitude,
-    city: request.city || '',
-    country: request.country || '',
+    city: place.city,
+    region: place.region,
+    country: place.country,
+    provider: request.provider,
+    locationId: getLocationId(request.latitude, request.longitude, getWeatherProvider(request.provider).name),
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
   };
@@ -103,11 +194,16 @@ async function createSubscription(event: APIGatewayProxyEvent, userId: string):
     TableName: TABLE_NAME,
     Item: subscription,
   }));
+  await logSubscriptionActivity(actor, 'subscription.created', subscription);
 
   // Fetch weather immediately for the new subscription
   try {
-    await fetchAndStoreWeather(subscription);
+    const location = await fetchAndStoreWeather(subscription);
     console.log(`Initial weather fetched for ${subscription.location}`);
+
+    subscription.timezone = location.timezone;
+    subscription.utcOffsetSeconds = location.utcOffsetSeconds;
+    await saveSubscriptionTimezone(subscription);
   } catch (error) {
     console.error(`Failed to fetch initial weather for ${subscription.location}:`, error);
     // Don't fail the subscription creation if weather fetch fails
@@ -121,7 +217,46 @@ async function createSubscription(event: APIGatewayProxyEvent, userId: string):
   };
 }
 
-async function listSubscriptions(userId: string): Promise<APIGatewayProxyResult> {
+// Names are only kept if a place search finds them at the coordinates; otherwise they come from
+// reverse geocoding, so a subscription can't be labelled as a place its weather isn't for. The
+// names the client sent are used as they are only when geocoding fails.
+async function resolvePlace(
+  latitude: number,
+  longitude: number,
+  names: { city?: string; region?: string; country?: string }
+): Promise<Pick<LocationSubscription, 'city' | 'region' | 'country'>> {
+  const city = names.city?.trim() || '';
+  const country = names.country?.toUpperCase() || '';
+
+  try {
+    const match = city && country ? await findPlaceNear(city, country, latitude, longitude) : null;
+    const result = match ?? await reverseGeocode(latitude, longitude);
+    if (result) {
+      return { city: result.city, region: result.region, country: result.countryCode };
+    }
+  } catch (error) {
+    console.error(`Geocoding failed for ${latitude},${longitude}:`, error);
+  }
+
+  return { city, region: names.region?.trim() || undefined, country };
+}
+
+// Pages follow the index, not the dashboard order: each page is sorted, so clients that need the
+// full order fetch every page and sort the lot. Pinned tokens may see short or empty pages.
+async function listSubscriptions(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  allowedIds?: string[]
+): Promise<APIGatewayProxyResult> {
+  const page = parsePageRequest(event.queryStringParameters, userId, ['id', 'userId'], SUBSCRIPTION_PAGE_LIMITS);
+  if ('error' in page) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', page.error)),
+    };
+  }
+
   const result = await docClient.send(new QueryCommand({
     TableName: TABLE_NAME,
     IndexName: 'UserIdIndex',
@@ -129,23 +264,156 @@ async function listSubscriptions(userId: string): Promise<APIGatewayProxyResult>
     ExpressionAttributeValues: {
       ':userId': userId,
     },
+    Limit: page.limit,
+    ExclusiveStartKey: page.exclusiveStartKey,
   }));
 
+  const response: GetSubscriptionsResponse = {
+    subscriptions: ((result.Items || []) as LocationSubscription[])
+      .filter(subscription => !allowedIds || allowedIds.includes(subscription.id))
+      .sort(compareSubscriptions),
+    nextCursor: encodeCursor(result.LastEvaluatedKey),
+  };
+
   return {
     statusCode: 200,
     headers,
-    body: JSON.stringify({ subscriptions: result.Items || [] }),
+    body: JSON.stringify(response),
   };
 }
 
-async function deleteSubscription(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
+async function updateSubscription(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  actor: ActivityActor
+): Promise<APIGatewayProxyResult> {
   const subscriptionId = event.pathParameters?.id;
 
   if (!subscriptionId) {
     return {
       statusCode: 400,
       headers,
-      body: JSON.stringify({ message: 'Subscription ID is required' }),
+      body: JSON.stringify(errorBody('bad_request', 'Subscription ID is required')),
+    };
+  }
+
+  const parsed = parseRequestBody(event.body, validateUpdateSubscriptionRequest);
+  if ('error' in parsed) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(parsed.error),
+    };
+  }
+
+  const request: UpdateSubscriptionRequest = parsed.request;
+
+  const result = await docClient.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: { id: subscriptionId },
+  }));
+
+  if (!result.Item) {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify(errorBody('not_found', 'Subscription not found')),
+    };
+  }
+
+  if (result.Item.userId !== userId) {
+    return {
+      statusCode: 403,
+      headers,
+      body: JSON.stringify(errorBody('forbidden', 'Forbidden')),
+    };
+  }
+
+  const current = result.Item as LocationSubscription;
+
+  const latitude = request.latitude ?? current.latitude;
+  const longitude = request.longitude ?? current.longitude;
+  const coordinatesChanged = latitude !== current.latitude || longitude !== current.longitude;
+
+  // Names are checked against the coordinates whenever either changes
+  const placeChanged = coordinatesChanged ||
+    request.city !== undefined || request.region !== undefined || request.country !== undefined;
+  const place = placeChanged
+    ? await resolvePlace(latitude, longitude, {
+      city: request.city ?? current.city,
+      region: request.region ?? current.region,
+      country: request.country ?? current.country,
+    })
+    : { city: current.city, region: current.region, country: current.country };
+
+  const subscription: LocationSubscription = {
+    ...current,
+    location: request.location?.trim() ?? current.location,
+    nickname: request.nickname !== undefined ? request.nickname.trim() || undefined : current.nickname,
+    latitude,
+    longitude,
+    city: place.city,
+    region: place.region,
+    country: place.country,
+    sortOrder: request.sortOrder ?? current.sortOrder,
+    updatedAt: new Date().toISOString(),
+  };
+
+  if (coordinatesChanged) {
+    subscription.locationId = getLocationId(latitude, longitude, getWeatherProvider(subscription.provider).name);
+  }
+
+  await docClient.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: subscription,
+  }));
+
+  // Reordering on the dashboard PATCHes many subscriptions at once and isn't worth an audit entry
+  const changedFields = Object.keys(request).filter(field => request[field as keyof UpdateSubscriptionRequest] !== undefined);
+  if (changedFields.some(field => field !== 'sortOrder')) {
+    await logSubscriptionActivity(actor, 'subscription.updated', subscription, { fields: changedFields.join(',') });
+  }
+
+  // New coordinates mean the latest snapshot is for the wrong place; history is kept
+  if (coordinatesChanged) {
+    try {
+      const location = await fetchAndStoreWeather(subscription);
+      subscription.timezone = location.timezone;
+      subscription.utcOffsetSeconds = location.utcOffsetSeconds;
+      await saveSubscriptionTimezone(subscription);
+    } catch (error) {
+      console.error(`Failed to fetch weather for moved subscription ${subscription.id}:`, error);
+      // The scheduled Lambda will pick up the new location on its next run
+    }
+  }
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ subscription }),
+  };
+}
+
+// Explicit sort order first, then oldest first
+function compareSubscriptions(a: LocationSubscription, b: LocationSubscription): number {
+  if (a.sortOrder !== b.sortOrder) {
+    return (a.sortOrder ?? Infinity) - (b.sortOrder ?? Infinity);
+  }
+  return a.createdAt.localeCompare(b.createdAt);
+}
+
+async function deleteSubscription(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  actor: ActivityActor
+): Promise<APIGatewayProxyResult> {
+  const subscriptionId = event.pathParameters?.id;
+
+  if (!subscriptionId) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', 'Subscription ID is required')),
     };
   }
 
@@ -159,7 +427,7 @@ async function deleteSubscription(event: APIGatewayProxyEvent, userId: string):
     return {
       statusCode: 404,
       headers,
-      body: JSON.stringify({ message: 'Subscription not found' }),
+      body: JSON.stringify(errorBody('not_found', 'Subscription not found')),
     };
   }
 
@@ -167,7 +435,7 @@ async function deleteSubscription(event: APIGatewayProxyEvent, userId: string):
     return {
       statusCode: 403,
       headers,
-      body: JSON.stringify({ message: 'Forbidden' }),
+      body: JSON.stringify(errorBody('forbidden', 'Forbidden')),
     };
   }
 
@@ -175,6 +443,14 @@ async function deleteSubscription(event: APIGatewayProxyEvent, userId: string):
     TableName: TABLE_NAME,
     Key: { id: subscriptionId },
   }));
+  await logSubscriptionActivity(actor, 'subscription.deleted', result.Item as LocationSubscription);
+
+  // Alert rules are meaningless without their subscription
+  const alerts = await queryAlertRules(subscriptionId);
+  await Promise.all(alerts.map(alert => docClient.send(new DeleteCommand({
+    TableName: ALERT_RULES_TABLE,
+    Key: { id: alert.id },
+  }))));
 
   return {
     statusCode: 200,
@@ -183,48 +459,269 @@ async function deleteSubscription(event: APIGatewayProxyEvent, userId: string):
   };
 }
 
-async function fetchAndStoreWeather(subscription: LocationSubscription): Promise<void> {
-  console.log(`Fetching weather for ${subscription.location}`);
+function logSubscriptionActivity(
+  actor: ActivityActor,
+  type: ActivityType,
+  subscription: LocationSubscription,
+  details: Record<string, string> = {}
+): Promise<void> {
+  return recordActivity(actor, type, {
+    id: subscription.id,
+    details: { location: subscription.nickname || subscription.location, ...details },
+  });
+}
 
-  // Fetch current weather
-  const currentWeatherUrl = `${OPENWEATHER_BASE_URL}/weather?lat=${subscription.latitude}&lon=${subscription.longitude}&appid=${OPENWEATHER_API_KEY}&units=metric`;
-  const currentResponse = await fetch(currentWeatherUrl);
+async function handleAlertRoute(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
+  const subscriptionId = event.pathParameters?.id;
 
-  if (!currentResponse.ok) {
-    throw new Error(`OpenWeatherMap API error: ${currentResponse.status}`);
+  if (!subscriptionId) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', 'Subscription ID is required')),
+    };
   }
 
-  const currentData = await currentResponse.json() as OpenWeatherMapResponse;
+  // Verify the subscription belongs to the user
+  const result = await docClient.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: { id: subscriptionId },
+  }));
 
-  // Fetch 5-day forecast
-  const forecastUrl = `${OPENWEATHER_BASE_URL}/forecast?lat=${subscription.latitude}&lon=${subscription.longitude}&appid=${OPENWEATHER_API_KEY}&units=metric`;
-  const forecastResponse = await fetch(forecastUrl);
+  if (!result.Item) {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify(errorBody('not_found', 'Subscription not found')),
+    };
+  }
+
+  if (result.Item.userId !== userId) {
+    return {
+      statusCode: 403,
+      headers,
+      body: JSON.stringify(errorBody('forbidden', 'Forbidden')),
+    };
+  }
+
+  const alertId = event.pathParameters?.alertId;
+
+  switch (event.httpMethod) {
+    case 'GET':
+      return await listAlertRules(subscriptionId);
+    case 'POST':
+      return await createAlertRule(event, subscriptionId, userId);
+    case 'PATCH':
+      return alertId
+        ? await updateAlertRule(event, subscriptionId, alertId)
+        : { statusCode: 400, headers, body: JSON.stringify(errorBody('bad_request', 'Alert ID is required')) };
+    case 'DELETE':
+      return alertId
+        ? await deleteAlertRule(subscriptionId, alertId)
+        : { statusCode: 400, headers, body: JSON.stringify(errorBody('bad_request', 'Alert ID is required')) };
+    default:
+      return {
+        statusCode: 405,
+        headers,
+        body: JSON.stringify(errorBody('method_not_allowed', 'Method not allowed')),
+      };
+  }
+}
+
+async function listAlertRules(subscriptionId: string): Promise<APIGatewayProxyResult> {
+  const response: ListAlertRulesResponse = { alerts: await queryAlertRules(subscriptionId) };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+async function createAlertRule(
+  event: APIGatewayProxyEvent,
+  subscriptionId: string,
+  userId: string
+): Promise<APIGatewayProxyResult> {
+  const parsed = parseRequestBody(event.body, validateCreateAlertRuleRequest);
+  if ('error' in parsed) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(parsed.error),
+    };
+  }
+
+  const request: CreateAlertRuleRequest = parsed.request;
+
+  const existing = await queryAlertRules(subscriptionId);
+  if (existing.length >= MAX_ALERT_RULES_PER_SUBSCRIPTION) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('limit_exceeded', `A subscription can have at most ${MAX_ALERT_RULES_PER_SUBSCRIPTION} alert rules`)),
+    };
+  }
+
+  const isForecastMetric = FORECAST_ALERT_METRICS.includes(request.metric);
+  const now = new Date().toISOString();
+
+  const alert: AlertRule = {
+    id: uuidv4(),
+    subscriptionId,
+    userId,
+    name: request.name?.trim() || describeAlertRule(request),
+    metric: request.metric,
+    operator: request.operator,
+    threshold: request.threshold,
+    forecastDay: isForecastMetric ? request.forecastDay ?? 1 : undefined,
+    hysteresis: request.hysteresis ?? DEFAULT_HYSTERESIS[request.metric],
+    cooldownMinutes: request.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+    enabled: request.enabled ?? true,
+    state: 'ok',
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: ALERT_RULES_TABLE,
+    Item: alert,
+  }));
+
+  return {
+    statusCode: 201,
+    headers,
+    body: JSON.stringify({ alert }),
+  };
+}
+
+async function updateAlertRule(
+  event: APIGatewayProxyEvent,
+  subscriptionId: string,
+  alertId: string
+): Promise<APIGatewayProxyResult> {
+  const parsed = parseRequestBody(event.body, validateUpdateAlertRuleRequest);
+  if ('error' in parsed) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(parsed.error),
+    };
+  }
+
+  const request: UpdateAlertRuleRequest = parsed.request;
+
+  const result = await docClient.send(new GetCommand({
+    TableName: ALERT_RULES_TABLE,
+    Key: { id: alertId },
+  }));
+
+  if (!result.Item || result.Item.subscriptionId !== subscriptionId) {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify(errorBody('not_found', 'Alert rule not found')),
+    };
+  }
+
+  const current = result.Item as AlertRule;
+  const merged: CreateAlertRuleRequest = {
+    name: request.name ?? current.name,
+    metric: request.metric ?? current.metric,
+    operator: request.operator ?? current.operator,
+    threshold: request.threshold ?? current.threshold,
+    forecastDay: request.forecastDay ?? current.forecastDay,
+    hysteresis: request.hysteresis ?? current.hysteresis,
+    cooldownMinutes: request.cooldownMinutes ?? current.cooldownMinutes,
+    enabled: request.enabled ?? current.enabled,
+  };
+
+  // Changing what the rule watches invalidates its current state
+  const conditionChanged =
+    merged.metric !== current.metric ||
+    merged.operator !== current.operator ||
+    merged.threshold !== current.threshold ||
+    merged.forecastDay !== current.forecastDay;
+
+  const alert: AlertRule = {
+    ...current,
+    ...merged,
+    name: merged.name?.trim() || describeAlertRule(merged),
+    hysteresis: merged.hysteresis!,
+    cooldownMinutes: merged.cooldownMinutes!,
+    enabled: merged.enabled!,
+    forecastDay: FORECAST_ALERT_METRICS.includes(merged.metric) ? merged.forecastDay ?? 1 : undefined,
+    state: conditionChanged || !merged.enabled ? 'ok' : current.state,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: ALERT_RULES_TABLE,
+    Item: alert,
+  }));
 
-  if (!forecastResponse.ok) {
-    throw new Error(`OpenWeatherMap Forecast API error: ${forecastResponse.status}`);
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ alert }),
+  };
+}
+
+async function deleteAlertRule(subscriptionId: string, alertId: string): Promise<APIGatewayProxyResult> {
+  const result = await docClient.send(new GetCommand({
+    TableName: ALERT_RULES_TABLE,
+    Key: { id: alertId },
+  }));
+
+  if (!result.Item || result.Item.subscriptionId !== subscriptionId) {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify(errorBody('not_found', 'Alert rule not found')),
+    };
   }
 
-  const forecastData = await forecastResponse.json() as OpenWeatherMapForecastResponse;
+  await docClient.send(new DeleteCommand({
+    TableName: ALERT_RULES_TABLE,
+    Key: { id: alertId },
+  }));
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ message: 'Alert rule deleted successfully' }),
+  };
+}
+
+async function queryAlertRules(subscriptionId: string): Promise<AlertRule[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: ALERT_RULES_TABLE,
+    IndexName: 'SubscriptionIdIndex',
+    KeyConditionExpression: 'subscriptionId = :subscriptionId',
+    ExpressionAttributeValues: {
+      ':subscriptionId': subscriptionId,
+    },
+  }));
+
+  return (result.Items || []) as AlertRule[];
+}
+
+function describeAlertRule(rule: CreateAlertRuleRequest): string {
+  return `${rule.metric} ${rule.operator} ${rule.threshold}`;
+}
 
-  // Process forecast data - group by day and get daily min/max
-  const dailyForecast = processForecastData(forecastData);
+async function fetchAndStoreWeather(subscription: LocationSubscription): Promise<WeatherLocation> {
+  const location = await getWeatherLocation(subscription);
 
   // Store weather data
   const weatherData: WeatherData & { forecast: WeatherForecast[]; ttl: number } = {
     id: uuidv4(),
     subscriptionId: subscription.id,
     location: subscription.location,
-    temperature: currentData.main.temp,
-    feelsLike: currentData.main.feels_like,
-    humidity: currentData.main.humidity,
-    pressure: currentData.main.pressure,
-    windSpeed: currentData.wind.speed,
-    windDirection: currentData.wind.deg,
-    description: currentData.weather[0]?.description || '',
-    icon: currentData.weather[0]?.icon || '',
-    timestamp: new Date(currentData.dt * 1000).toISOString(),
-    fetchedAt: new Date().toISOString(),
-    forecast: dailyForecast,
+    ...location.current,
+    fetchedAt: location.fetchedAt,
+    provider: location.provider,
+    forecast: location.forecast,
     ttl: Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60), // 30 days TTL
   };
 
@@ -234,49 +731,67 @@ async function fetchAndStoreWeather(subscription: LocationSubscription): Promise
   }));
 
   console.log(`Weather data stored for ${subscription.location}`);
+  return location;
 }
 
-function processForecastData(forecastData: OpenWeatherMapForecastResponse): WeatherForecast[] {
-  // Group forecast by date
-  const dailyData: Map<string, {
-    temps: number[];
-    descriptions: string[];
-    icons: string[];
-    precipitation: number[];
-  }> = new Map();
-
-  forecastData.list.forEach(item => {
-    const date = new Date(item.dt * 1000).toISOString().split('T')[0];
-
-    if (!dailyData.has(date)) {
-      dailyData.set(date, {
-        temps: [],
-        descriptions: [],
-        icons: [],
-        precipitation: [],
-      });
-    }
+// Reuse the shared location if another subscription fetched it recently
+async function getWeatherLocation(subscription: LocationSubscription): Promise<WeatherLocation> {
+  const provider = getWeatherProvider(subscription.provider);
+  const locationId = getLocationId(subscription.latitude, subscription.longitude, provider.name);
 
-    const day = dailyData.get(date)!;
-    day.temps.push(item.main.temp_min, item.main.temp_max);
-    day.descriptions.push(item.weather[0]?.description || '');
-    day.icons.push(item.weather[0]?.icon || '');
-    day.precipitation.push(item.pop);
-  });
+  const existing = await docClient.send(new GetCommand({
+    TableName: LOCATIONS_TABLE,
+    Key: { id: locationId },
+  }));
 
-  // Convert to array and calculate daily aggregates
-  const forecast: WeatherForecast[] = [];
-  dailyData.forEach((data, date) => {
-    forecast.push({
-      date,
-      tempMin: Math.min(...data.temps),
-      tempMax: Math.max(...data.temps),
-      description: data.descriptions[Math.floor(data.descriptions.length / 2)] || '',
-      icon: data.icons[Math.floor(data.icons.length / 2)] || '',
-      precipitation: Math.max(...data.precipitation),
-    });
-  });
+  const cached = existing.Item as WeatherLocation | undefined;
+  if (cached && isLocationFresh(cached.fetchedAt)) {
+    console.log(`Reusing weather for ${locationId} fetched at ${cached.fetchedAt}`);
+    return cached;
+  }
+
+  console.log(`Fetching weather for ${locationId} from ${provider.name}`);
+
+  const latitude = roundCoordinate(subscription.latitude);
+  const longitude = roundCoordinate(subscription.longitude);
+  const { current, forecast, timezone, utcOffsetSeconds } = await provider.getWeather({ latitude, longitude });
+
+  const location: WeatherLocation = {
+    id: locationId,
+    latitude,
+    longitude,
+    provider: provider.name,
+    current,
+    forecast,
+    timezone,
+    utcOffsetSeconds,
+    fetchedAt: new Date().toISOString(),
+    ttl: Math.floor(Date.now() / 1000) + LOCATION_TTL_SECONDS,
+  };
 
-  // Sort by date and return first 5 days
-  return forecast.sort((a, b) => a.date.localeCompare(b.date)).slice(0, 5);
+  await docClient.send(new PutCommand({
+    TableName: LOCATIONS_TABLE,
+    Item: location,
+  }));
+
+  return location;
+}
+
+// Keep the subscription's timezone in step with its location (DST changes the offset)
+async function saveSubscriptionTimezone(subscription: LocationSubscription): Promise<void> {
+  const timezoneExpression = subscription.timezone ? ', #timezone = :timezone' : ' REMOVE #timezone';
+
+  await docClient.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: { id: subscription.id },
+    UpdateExpression: `SET utcOffsetSeconds = :utcOffsetSeconds${timezoneExpression}`,
+    ConditionExpression: 'attribute_exists(id)', // Don't recreate a subscription deleted meanwhile
+    ExpressionAttributeNames: {
+      '#timezone': 'timezone',
+    },
+    ExpressionAttributeValues: {
+      ':utcOffsetSeconds': subscription.utcOffsetSeconds,
+      ...(subscription.timezone && { ':timezone': subscription.timezone }),
+    },
+  }));
 }
@@ -1,3 +1,5 @@
+import { WeatherObservation, WeatherProviderName } from '../lib/providers/types.js';
+
 // User types
 export interface User {
   id: string;
@@ -10,11 +12,18 @@ export interface User {
 export interface LocationSubscription {
   id: string;
   userId: string;
-  location: string;
+  location: string; // Display name
+  nickname?: string;
   latitude: number;
   longitude: number;
   city: string;
-  country: string;
+  region?: string;
+  country: string; // ISO 3166-1 alpha-2 code
+  provider?: WeatherProviderName; // Overrides the deployment's default provider
+  locationId?: string; // Shared WeatherLocation this subscription reads from
+  timezone?: string; // IANA timezone of the location, when the provider reports one
+  utcOffsetSeconds?: number; // Location's offset from UTC as of the last fetch
+  sortOrder?: number; // Position on the dashboard; unordered subscriptions sort last
   createdAt: string;
   updatedAt: string;
 }
@@ -34,6 +43,7 @@ export interface WeatherData {
   icon: string;
   timestamp: string;
   fetchedAt: string;
+  provider?: WeatherProviderName;
 }
 
 export interface WeatherForecast {
@@ -49,13 +59,40 @@ export interface DetailedWeather extends WeatherData {
   forecast: WeatherForecast[];
 }
 
+// Weather fetched once per cycle for every subscription at the same rounded coordinates
+export interface WeatherLocation {
+  id: string;
+  latitude: number;
+  longitude: number;
+  provider: WeatherProviderName;
+  current: WeatherObservation;
+  forecast: WeatherForecast[];
+  timezone?: string;
+  utcOffsetSeconds: number;
+  fetchedAt: string;
+  ttl: number;
+}
+
 // API request/response types
 export interface CreateSubscriptionRequest {
   location: string;
   latitude: number;
   longitude: number;
-  city: string;
-  country: string;
+  city?: string; // Filled in by reverse geocoding when omitted
+  region?: string;
+  country?: string; // ISO 3166-1 alpha-2 code
+  provider?: WeatherProviderName;
+}
+
+export interface UpdateSubscriptionRequest {
+  location?: string;
+  nickname?: string; // Empty string clears it
+  latitude?: number;
+  longitude?: number;
+  city?: string;
+  region?: string;
+  country?: string;
+  sortOrder?: number;
 }
 
 export interface CreateSubscriptionResponse {
@@ -64,6 +101,7 @@ export interface CreateSubscriptionResponse {
 
 export interface GetSubscriptionsResponse {
   subscriptions: LocationSubscription[];
+  nextCursor?: string; // Pass as ?cursor= to fetch the next page
 }
 
 export interface GetWeatherResponse {
@@ -71,43 +109,55 @@ export interface GetWeatherResponse {
   forecast: WeatherForecast[];
 }
 
-// OpenWeatherMap API types
-export interface OpenWeatherMapResponse {
-  coord: {
-    lon: number;
-    lat: number;
-  };
-  weather: Array<{
-    id: number;
-    main: string;
-    description: string;
-    icon: string;
-  }>;
-  main: {
-    temp: number;
-    feels_like: number;
-    pressure: number;
-    humidity: number;
-  };
-  wind: {
-    speed: number;
-    deg: number;
-  };
-  dt: number;
+// Alert rule types
+export type AlertMetric =
+  | 'temperature'
+  | 'feelsLike'
+  | 'humidity'
+  | 'pressure'
+  | 'windSpeed'
+  | 'forecastTempMin'
+  | 'forecastTempMax'
+  | 'precipitationProbability';
+
+export type AlertOperator = 'above' | 'below';
+
+export type AlertState = 'ok' | 'triggered';
+
+export interface AlertRule {
+  id: string;
+  subscriptionId: string;
+  userId: string;
   name: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  forecastDay?: number; // Forecast metrics only: 0 = today, 1 = tomorrow, ...
+  hysteresis: number; // How far the value must recover past the threshold to clear
+  cooldownMinutes: number; // Minimum time between two triggers
+  enabled: boolean;
+  state: AlertState;
+  lastValue?: number;
+  lastEvaluatedAt?: string;
+  triggeredAt?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
 }
 
-export interface OpenWeatherMapForecastResponse {
-  list: Array<{
-    dt: number;
-    main: {
-      temp_min: number;
-      temp_max: number;
-    };
-    weather: Array<{
-      description: string;
-      icon: string;
-    }>;
-    pop: number; // Probability of precipitation
-  }>;
+export interface CreateAlertRuleRequest {
+  name?: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  forecastDay?: number;
+  hysteresis?: number;
+  cooldownMinutes?: number;
+  enabled?: boolean;
+}
+
+export type UpdateAlertRuleRequest = Partial<CreateAlertRuleRequest>;
+
+export interface ListAlertRulesResponse {
+  alerts: AlertRule[];
 }
@@ -0,0 +1,40 @@
+import { ApiToken, User } from './types.js';
+import { EmailMessage, escapeHtml } from '../lib/mailer.js';
+
+export function buildTokenExpiryEmail(user: User, token: ApiToken, daysLeft: number): EmailMessage {
+  const when = daysLeft === 1 ? 'within a day' : `in ${daysLeft} days`;
+  const subject = `Your API token "${token.name}" expires ${when}`;
+  const expiresAt = formatExpiry(token.expiresAt!, user);
+
+  const text = [
+    subject,
+    '',
+    `The API token "${token.name}" (${token.prefix}...) expires on ${expiresAt}.`,
+    'Requests made with it will be rejected after that, and the token will be deleted.',
+    '',
+    'To keep it working, extend it or rotate it on the API Tokens page of your dashboard.',
+    'Extending keeps the current secret; rotating issues a new one.',
+  ].join('\n');
+
+  const html = `<html><body>
+      <h1>${escapeHtml(subject)}</h1>
+      <p>
+        The API token <strong>${escapeHtml(token.name)}</strong> (<code>${escapeHtml(token.prefix)}...</code>)
+        expires on ${escapeHtml(expiresAt)}. Requests made with it will be rejected after that, and the token will be deleted.
+      </p>
+      <p>
+        To keep it working, extend it or rotate it on the API Tokens page of your dashboard.
+        Extending keeps the current secret; rotating issues a new one.
+      </p>
+    </body></html>`;
+
+  return { to: user.email, subject, text, html };
+}
+
+function formatExpiry(expiresAt: number, user: User): string {
+  return new Date(expiresAt * 1000).toLocaleString(user.locale, {
+    dateStyle: 'full',
+    timeStyle: 'short',
+    timeZone: user.timezone,
+  });
+}
@@ -0,0 +1,124 @@
+import { ScanCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { ScheduledEvent } from 'aws-lambda';
+import { ApiToken, User } from './types.js';
+import { createMailer } from '../lib/mailer.js';
+import { buildTokenExpiryEmail } from './email.js';
+import { dispatchTokenExpiryWebhooks } from './webhooks.js';
+import { docClient } from '../lib/dynamodb.js';
+
+const API_TOKENS_TABLE = process.env.API_TOKENS_TABLE!;
+const USERS_TABLE = process.env.USERS_TABLE!;
+
+// Owners are warned once as each threshold is reached, largest first
+export const EXPIRY_WARNING_DAYS = [14, 7, 1];
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+const mailer = createMailer();
+
+export const handler = async (event: ScheduledEvent): Promise<void> => {
+  console.log('Checking for expiring API tokens...');
+
+  const now = new Date();
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  let warned = 0;
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new ScanCommand({
+      TableName: API_TOKENS_TABLE,
+      FilterExpression: 'revoked = :false AND expiresAt BETWEEN :now AND :horizon',
+      ExpressionAttributeValues: {
+        ':false': false,
+        ':now': nowSeconds,
+        ':horizon': nowSeconds + Math.max(...EXPIRY_WARNING_DAYS) * DAY_SECONDS,
+      },
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    const due = ((result.Items || []) as ApiToken[])
+      .map(token => ({ token, daysLeft: dueExpiryWarning(token, now) }))
+      .filter((warning): warning is { token: ApiToken; daysLeft: number } => warning.daysLeft !== undefined);
+
+    const results = await Promise.allSettled(due.map(({ token, daysLeft }) => sendExpiryWarning(token, daysLeft)));
+    results.forEach((outcome, index) => {
+      if (outcome.status === 'rejected') {
+        console.error(`Error sending expiry warning for token ${due[index].token.id}:`, outcome.reason);
+      } else if (outcome.value) {
+        warned++;
+      }
+    });
+
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  console.log(`Token expiry check completed, ${warned} warnings sent`);
+};
+
+// The threshold to warn about now, if one has been reached since the last warning. A token
+// created or extended close to its expiry skips straight to the smallest threshold it has reached.
+export function dueExpiryWarning(token: ApiToken, now: Date): number | undefined {
+  if (token.revoked || !token.expiresAt) {
+    return undefined;
+  }
+
+  const secondsLeft = token.expiresAt - Math.floor(now.getTime() / 1000);
+  if (secondsLeft <= 0) {
+    return undefined;
+  }
+
+  const reached = EXPIRY_WARNING_DAYS.filter(days => secondsLeft <= days * DAY_SECONDS);
+  const threshold = reached.length > 0 ? Math.min(...reached) : undefined;
+
+  if (threshold === undefined ||
+    (token.expiryWarningSentFor !== undefined && token.expiryWarningSentFor <= threshold)) {
+    return undefined;
+  }
+
+  return threshold;
+}
+
+// Returns false when the warning was skipped because the owner has no profile to notify
+async function sendExpiryWarning(token: ApiToken, daysLeft: number): Promise<boolean> {
+  const userResult = await docClient.send(new GetCommand({
+    TableName: USERS_TABLE,
+    Key: { id: token.userId },
+  }));
+
+  const user = userResult.Item as User | undefined;
+  if (!user) {
+    console.warn(`No profile for user ${token.userId}, skipping expiry warning for token ${token.id}`);
+    return false;
+  }
+
+  const channels = user.notificationChannels ?? ['email'];
+
+  // Email failures throw so the warning is retried on the next run; webhook failures
+  // are recorded in the delivery log like any other delivery
+  if (channels.includes('email')) {
+    await mailer.send(buildTokenExpiryEmail(user, token, daysLeft));
+  }
+  if (channels.includes('webhook')) {
+    await dispatchTokenExpiryWebhooks(docClient, token, daysLeft);
+  }
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: API_TOKENS_TABLE,
+      Key: { id: token.id },
+      UpdateExpression: 'SET expiryWarningSentFor = :daysLeft',
+      ConditionExpression: 'expiresAt = :expiresAt', // Unless it was extended or rotated meanwhile
+      ExpressionAttributeValues: {
+        ':daysLeft': daysLeft,
+        ':expiresAt': token.expiresAt,
+      },
+    }));
+  } catch (error: any) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  }
+
+  console.log(`Expiry warning (${daysLeft} days) sent for token ${token.id} via ${channels.join(', ') || 'no channels'}`);
+  return true;
+}
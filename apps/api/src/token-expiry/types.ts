@@ -0,0 +1,42 @@
+import { TokenScope } from '../lib/auth.js';
+import { WebhookEvent } from '../lib/webhooks.js';
+
+// User types
+export type NotificationChannel = 'email' | 'webhook';
+
+export interface User {
+  id: string; // Cognito sub
+  email: string;
+  cognitoSub: string;
+  timezone: string; // IANA timezone, e.g. "Europe/London"
+  locale: string; // BCP 47 tag, e.g. "en-GB"
+  notificationChannels: NotificationChannel[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// API token types
+export interface ApiToken {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  expiresAt?: number; // Unix timestamp for DynamoDB TTL
+  expiresInDays?: number;
+  expiryWarningSentFor?: number; // Smallest warning threshold (in days) already sent for this expiresAt
+  revoked: boolean;
+  scopes?: TokenScope[];
+}
+
+// Webhook payload types
+export interface TokenExpiringPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: {
+    token: Pick<ApiToken, 'id' | 'name' | 'prefix' | 'expiresAt'>;
+    daysLeft: number; // The warning threshold that was reached: 14, 7 or 1
+  };
+}
@@ -0,0 +1,50 @@
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import { ApiToken, TokenExpiringPayload } from './types.js';
+import { deliverWebhook, Webhook, WebhookDelivery } from '../lib/webhooks.js';
+
+const WEBHOOKS_TABLE = process.env.WEBHOOKS_TABLE!;
+
+// Send a token.expiring event to every enabled webhook of the owner. Token events concern the
+// whole account, so a webhook's subscription filter doesn't apply.
+export async function dispatchTokenExpiryWebhooks(
+  docClient: DynamoDBDocumentClient,
+  token: ApiToken,
+  daysLeft: number
+): Promise<WebhookDelivery[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: WEBHOOKS_TABLE,
+    IndexName: 'UserIdIndex',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: {
+      ':userId': token.userId,
+    },
+  }));
+
+  const webhooks = ((result.Items || []) as Webhook[]).filter(webhook => webhook.enabled);
+  if (webhooks.length === 0) {
+    return [];
+  }
+
+  const payload: TokenExpiringPayload = {
+    id: uuidv4(),
+    event: 'token.expiring',
+    createdAt: new Date().toISOString(),
+    data: {
+      token: {
+        id: token.id,
+        name: token.name,
+        prefix: token.prefix,
+        expiresAt: token.expiresAt,
+      },
+      daysLeft,
+    },
+  };
+  const body = JSON.stringify(payload);
+
+  return Promise.all(webhooks.map(webhook => deliverWebhook({
+    webhook,
+    event: 'token.expiring',
+    payload: body,
+  })));
+}
@@ -1,13 +1,45 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, PutCommand, QueryCommand, DeleteCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayClient, FlushStageAuthorizersCacheCommand } from '@aws-sdk/client-api-gateway';
+import { PutCommand, QueryCommand, DeleteCommand, GetCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
 import { createHash, randomBytes } from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
-import { ApiToken, CreateTokenRequest, CreateTokenResponse, ListTokensResponse } from './types.js';
+import {
+  MAX_TOKEN_EXPIRY_DAYS,
+  validateCreateTokenRequest,
+  validateExtendTokenRequest,
+  validateRotateTokenRequest,
+} from '@weather-app/shared';
+import {
+  ApiToken,
+  CreateTokenRequest,
+  CreateTokenResponse,
+  ListTokensResponse,
+  RotateTokenRequest,
+  RotateTokenResponse,
+  ExtendTokenRequest,
+  ExtendTokenResponse,
+  TokenInfo,
+  GetTokenUsageResponse,
+  TokenUsageDay,
+} from './types.js';
+import {
+  CallerIdentity,
+  TokenScope,
+  LEGACY_TOKEN_SCOPES,
+  getIdentity,
+  hasScope,
+} from '../lib/auth.js';
+import { checkRateLimit, DEFAULT_TOKEN_LIMITS, USER_LIMITS } from '../lib/rate-limit.js';
+import { ActivityActor, ActivityType, actorFromRequest, recordActivity } from '../lib/activity.js';
+import { encodeCursor, PageLimits, parsePageRequest } from '../lib/pagination.js';
+import { FieldError, parseRequestBody, validationError } from '../lib/validation.js';
+import { errorBody, internalError, withRequestId } from '../lib/errors.js';
+import { docClient } from '../lib/dynamodb.js';
 
-const client = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(client);
+const apiGateway = new APIGatewayClient({});
 const TABLE_NAME = process.env.API_TOKENS_TABLE!;
+const SUBSCRIPTIONS_TABLE = process.env.SUBSCRIPTIONS_TABLE!;
+const TOKEN_USAGE_TABLE = process.env.TOKEN_USAGE_TABLE!;
 
 const headers = {
   'Content-Type': 'application/json',
@@ -16,36 +48,66 @@ const headers = {
   'Access-Control-Allow-Methods': 'GET,POST,DELETE,OPTIONS',
 };
 
-const MAX_EXPIRY_DAYS = 365;
 const TOKEN_PREFIX = 'wea_';
+const DEFAULT_USAGE_DAYS = 30;
+const MAX_USAGE_DAYS = 90; // Usage rows expire after this many days
+const DEFAULT_ROTATION_GRACE_HOURS = 24;
+const TOKEN_PAGE_LIMITS: PageLimits = { default: 50, max: 100 };
 
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+  withRequestId(await handleRequest(event), event.requestContext?.requestId);
+
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
   console.log('Event:', JSON.stringify(event, null, 2));
 
   try {
-    const userId = event.requestContext.authorizer?.claims?.sub;
-    if (!userId) {
+    const identity = getIdentity(event);
+    if (!identity) {
       return {
         statusCode: 401,
         headers,
-        body: JSON.stringify({ message: 'Unauthorized' }),
+        body: JSON.stringify(errorBody('unauthorized', 'Unauthorized')),
       };
     }
+    const userId = identity.userId;
 
-    const method = event.httpMethod;
+    const rateLimit = await checkRateLimit(identity);
+    if (rateLimit.limited) {
+      return {
+        statusCode: 429,
+        headers: { ...headers, ...rateLimit.headers },
+        body: JSON.stringify(errorBody('rate_limited', 'Rate limit exceeded, retry after the time in Retry-After')),
+      };
+    }
 
-    switch (method) {
-      case 'POST':
-        return await createToken(event, userId);
-      case 'GET':
-        return await listTokens(userId);
-      case 'DELETE':
-        return await revokeToken(event, userId);
+    if (!hasScope(identity, 'tokens:manage')) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('insufficient_scope', 'Token is missing the tokens:manage scope')),
+      };
+    }
+
+    const route = `${event.httpMethod} ${event.resource}`;
+
+    switch (route) {
+      case 'POST /tokens':
+        return await createToken(event, identity);
+      case 'GET /tokens':
+        return await listTokens(event, userId);
+      case 'DELETE /tokens/{id}':
+        return await revokeToken(event, userId, actorFromRequest(identity, event));
+      case 'GET /tokens/{id}/usage':
+        return await getTokenUsage(event, userId);
+      case 'POST /tokens/{id}/rotate':
+        return await rotateToken(event, identity);
+      case 'POST /tokens/{id}/extend':
+        return await extendToken(event, identity);
       default:
         return {
           statusCode: 405,
           headers,
-          body: JSON.stringify({ message: 'Method not allowed' }),
+          body: JSON.stringify(errorBody('method_not_allowed', 'Method not allowed')),
         };
     }
   } catch (error) {
@@ -53,86 +115,77 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
     return {
       statusCode: 500,
       headers,
-      body: JSON.stringify({
-        message: 'Internal server error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }),
+      body: JSON.stringify(internalError()),
     };
   }
-};
+}
 
-async function createToken(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
-  if (!event.body) {
+async function createToken(event: APIGatewayProxyEvent, identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const parsed = parseRequestBody(event.body, validateCreateTokenRequest);
+  if ('error' in parsed) {
     return {
       statusCode: 400,
       headers,
-      body: JSON.stringify({ message: 'Request body is required' }),
+      body: JSON.stringify(parsed.error),
     };
   }
 
-  const request: CreateTokenRequest = JSON.parse(event.body);
+  const request: CreateTokenRequest = parsed.request;
 
-  if (!request.name || request.name.trim().length === 0) {
+  const limitErrors = checkTokenLimits(request);
+  if (limitErrors.length > 0) {
     return {
       statusCode: 400,
       headers,
-      body: JSON.stringify({ message: 'Token name is required' }),
+      body: JSON.stringify(validationError(limitErrors)),
     };
   }
 
-  // Validate expiry
-  if (request.expiresInDays !== undefined) {
-    if (request.expiresInDays < 1 || request.expiresInDays > MAX_EXPIRY_DAYS) {
-      return {
-        statusCode: 400,
-        headers,
-        body: JSON.stringify({
-          message: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days`
-        }),
-      };
-    }
+  const escalationError = checkDelegation(identity, request.scopes, request.subscriptionIds);
+  if (escalationError) {
+    return {
+      statusCode: 403,
+      headers,
+      body: JSON.stringify(errorBody('forbidden', escalationError)),
+    };
   }
 
-  // Generate secure random token
-  const randomPart = randomBytes(32).toString('base64url'); // URL-safe base64
-  const token = `${TOKEN_PREFIX}${randomPart}`;
-
-  // Hash the token for storage
-  const tokenHash = createHash('sha256').update(token).digest('hex');
-
-  // Create token prefix for display (first 12 chars)
-  const prefix = token.substring(0, 12);
-
-  // Calculate expiry timestamp if provided
-  let expiresAt: number | undefined;
-  if (request.expiresInDays) {
-    const expiryDate = new Date();
-    expiryDate.setDate(expiryDate.getDate() + request.expiresInDays);
-    expiresAt = Math.floor(expiryDate.getTime() / 1000); // Unix timestamp for DynamoDB TTL
+  if (request.subscriptionIds?.length && !(await ownsSubscriptions(identity.userId, request.subscriptionIds))) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(validationError([
+        { field: 'subscriptionIds', message: 'subscriptionIds must reference your own subscriptions' },
+      ])),
+    };
   }
 
+  const { token, tokenHash, prefix } = generateSecret();
+
   const apiToken: ApiToken = {
     id: uuidv4(),
-    userId,
+    userId: identity.userId,
     tokenHash,
     name: request.name.trim(),
     prefix,
     createdAt: new Date().toISOString(),
-    expiresAt,
+    expiresAt: expiryFromNow(request.expiresInDays),
+    expiresInDays: request.expiresInDays,
     revoked: false,
+    scopes: [...new Set(request.scopes)],
+    subscriptionIds: request.subscriptionIds?.length ? [...new Set(request.subscriptionIds)] : undefined,
+    ...tokenLimits(request),
   };
 
   await docClient.send(new PutCommand({
     TableName: TABLE_NAME,
     Item: apiToken,
   }));
-
-  // Return the token WITHOUT the hash
-  const { tokenHash: _, ...tokenInfo } = apiToken;
+  await logTokenActivity(actorFromRequest(identity, event), 'token.created', apiToken);
 
   const response: CreateTokenResponse = {
     token, // Plain text token - only shown this once!
-    tokenInfo,
+    tokenInfo: toTokenInfo(apiToken),
   };
 
   return {
@@ -142,7 +195,73 @@ async function createToken(event: APIGatewayProxyEvent, userId: string): Promise
   };
 }
 
-async function listTokens(userId: string): Promise<APIGatewayProxyResult> {
+// The shared validator only knows limits are positive integers; the account limits are set per deployment
+function checkTokenLimits(request: CreateTokenRequest): FieldError[] {
+  const errors: FieldError[] = [];
+
+  if (request.rateLimitPerMinute !== undefined && request.rateLimitPerMinute > USER_LIMITS.perMinute) {
+    errors.push({
+      field: 'rateLimitPerMinute',
+      message: `rateLimitPerMinute must be an integer between 1 and ${USER_LIMITS.perMinute}`,
+    });
+  }
+
+  if (request.dailyQuota !== undefined && request.dailyQuota > USER_LIMITS.perDay) {
+    errors.push({
+      field: 'dailyQuota',
+      message: `dailyQuota must be an integer between 1 and ${USER_LIMITS.perDay}`,
+    });
+  }
+
+  return errors;
+}
+
+// Either limit may be given alone; the other falls back to its default so both are always stored together
+function tokenLimits(request: CreateTokenRequest): Pick<ApiToken, 'rateLimitPerMinute' | 'dailyQuota'> {
+  if (request.rateLimitPerMinute === undefined && request.dailyQuota === undefined) {
+    return {};
+  }
+
+  return {
+    rateLimitPerMinute: request.rateLimitPerMinute ?? DEFAULT_TOKEN_LIMITS.perMinute,
+    dailyQuota: request.dailyQuota ?? DEFAULT_TOKEN_LIMITS.perDay,
+  };
+}
+
+// A token can only mint, rotate or extend tokens that are at most as powerful as itself
+function checkDelegation(identity: CallerIdentity, scopes: TokenScope[], subscriptionIds?: string[]): string | null {
+  const missing = scopes.filter(scope => !hasScope(identity, scope));
+  if (missing.length > 0) {
+    return `Cannot grant scopes this token does not have: ${missing.join(', ')}`;
+  }
+
+  const allowed = identity.subscriptionIds;
+  if (allowed && (!subscriptionIds?.length || subscriptionIds.some(id => !allowed.includes(id)))) {
+    return 'This token is limited to specific subscriptions, so new tokens must be limited to a subset of them';
+  }
+
+  return null;
+}
+
+async function ownsSubscriptions(userId: string, subscriptionIds: string[]): Promise<boolean> {
+  const results = await Promise.all([...new Set(subscriptionIds)].map(id => docClient.send(new GetCommand({
+    TableName: SUBSCRIPTIONS_TABLE,
+    Key: { id },
+  }))));
+
+  return results.every(result => result.Item?.userId === userId);
+}
+
+async function listTokens(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
+  const page = parsePageRequest(event.queryStringParameters, userId, ['id', 'userId'], TOKEN_PAGE_LIMITS);
+  if ('error' in page) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', page.error)),
+    };
+  }
+
   const result = await docClient.send(new QueryCommand({
     TableName: TABLE_NAME,
     IndexName: 'UserIdIndex',
@@ -150,15 +269,138 @@ async function listTokens(userId: string): Promise<APIGatewayProxyResult> {
     ExpressionAttributeValues: {
       ':userId': userId,
     },
+    Limit: page.limit,
+    ExclusiveStartKey: page.exclusiveStartKey,
   }));
 
-  // Remove tokenHash from all results
-  const tokens = (result.Items || []).map((item) => {
-    const { tokenHash, ...tokenInfo } = item as ApiToken;
-    return tokenInfo;
+  const response: ListTokensResponse = {
+    tokens: (result.Items || []).map(item => toTokenInfo(item as ApiToken)), // Never return the hashes
+    nextCursor: encodeCursor(result.LastEvaluatedKey),
+  };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+async function revokeToken(
+  event: APIGatewayProxyEvent,
+  userId: string,
+  actor: ActivityActor
+): Promise<APIGatewayProxyResult> {
+  const lookup = await getOwnedToken(event.pathParameters?.id, userId);
+  if ('error' in lookup) {
+    return lookup.error;
+  }
+
+  // Mark as revoked (we keep the record for audit purposes)
+  await docClient.send(new UpdateCommand({
+    TableName: TABLE_NAME,
+    Key: { id: lookup.token.id },
+    UpdateExpression: 'SET revoked = :revoked',
+    ExpressionAttributeValues: {
+      ':revoked': true,
+    },
+  }));
+  await logTokenActivity(actor, 'token.revoked', lookup.token);
+  await flushAuthorizerCache(event);
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ message: 'Token revoked successfully' }),
+  };
+}
+
+// Swaps in a new secret on the same token. The old secret keeps working until the grace period ends.
+async function rotateToken(event: APIGatewayProxyEvent, identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const parsed = parseRequestBody(event.body, validateRotateTokenRequest, true);
+  if ('error' in parsed) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(parsed.error),
+    };
+  }
+
+  const request: RotateTokenRequest = parsed.request;
+  const gracePeriodHours = request.gracePeriodHours ?? DEFAULT_ROTATION_GRACE_HOURS;
+
+  const lookup = await getOwnedToken(event.pathParameters?.id, identity.userId);
+  if ('error' in lookup) {
+    return lookup.error;
+  }
+
+  const current = lookup.token;
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (current.revoked || (current.expiresAt && current.expiresAt < nowSeconds)) {
+    return {
+      statusCode: 409,
+      headers,
+      body: JSON.stringify(errorBody('conflict', 'Revoked or expired tokens cannot be rotated')),
+    };
+  }
+
+  const escalationError = checkDelegation(identity, current.scopes ?? LEGACY_TOKEN_SCOPES, current.subscriptionIds);
+  if (escalationError) {
+    return {
+      statusCode: 403,
+      headers,
+      body: JSON.stringify(errorBody('forbidden', escalationError)),
+    };
+  }
+
+  const { token, tokenHash, prefix } = generateSecret();
+  const expiresInDays = current.expiresInDays ?? lifetimeDays(current);
+
+  // A secret left over from an earlier rotation is dropped, so at most two secrets are ever valid
+  const apiToken: ApiToken = {
+    ...current,
+    tokenHash,
+    prefix,
+    expiresAt: expiryFromNow(expiresInDays),
+    expiresInDays,
+    rotatedAt: new Date().toISOString(),
+    expiryWarningSentFor: undefined, // Warnings start over for the new expiry
+    previousTokenHash: gracePeriodHours > 0 ? current.tokenHash : undefined,
+    previousTokenExpiresAt: gracePeriodHours > 0 ? nowSeconds + Math.round(gracePeriodHours * 60 * 60) : undefined,
+  };
+
+  try {
+    await docClient.send(new PutCommand({
+      TableName: TABLE_NAME,
+      Item: apiToken,
+      ConditionExpression: 'tokenHash = :currentHash AND revoked = :false',
+      ExpressionAttributeValues: {
+        ':currentHash': current.tokenHash,
+        ':false': false,
+      },
+    }));
+  } catch (error: any) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+
+    return {
+      statusCode: 409,
+      headers,
+      body: JSON.stringify(errorBody('conflict', 'Token was rotated or revoked concurrently; reload and try again')),
+    };
+  }
+
+  await logTokenActivity(actorFromRequest(identity, event), 'token.rotated', apiToken, {
+    gracePeriodHours: String(gracePeriodHours),
   });
+  if (gracePeriodHours === 0) {
+    await flushAuthorizerCache(event); // The old secret is cut off at once, like a revocation
+  }
 
-  const response: ListTokensResponse = { tokens };
+  const response: RotateTokenResponse = {
+    token, // Plain text token - only shown this once!
+    tokenInfo: toTokenInfo(apiToken),
+  };
 
   return {
     statusCode: 200,
@@ -167,52 +409,253 @@ async function listTokens(userId: string): Promise<APIGatewayProxyResult> {
   };
 }
 
-async function revokeToken(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
-  const tokenId = event.pathParameters?.id;
-
-  if (!tokenId) {
+// Pushes the expiry of an expiring token out again without changing its secret
+async function extendToken(event: APIGatewayProxyEvent, identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const parsed = parseRequestBody(event.body, validateExtendTokenRequest, true);
+  if ('error' in parsed) {
     return {
       statusCode: 400,
       headers,
-      body: JSON.stringify({ message: 'Token ID is required' }),
+      body: JSON.stringify(parsed.error),
     };
   }
 
-  // First, verify the token belongs to the user
-  const result = await docClient.send(new GetCommand({
-    TableName: TABLE_NAME,
-    Key: { id: tokenId },
-  }));
+  const request: ExtendTokenRequest = parsed.request;
 
-  if (!result.Item) {
+  const lookup = await getOwnedToken(event.pathParameters?.id, identity.userId);
+  if ('error' in lookup) {
+    return lookup.error;
+  }
+
+  const current = lookup.token;
+  const nowSeconds = Math.floor(Date.now() / 1000);
+  if (current.revoked || (current.expiresAt && current.expiresAt < nowSeconds)) {
     return {
-      statusCode: 404,
+      statusCode: 409,
       headers,
-      body: JSON.stringify({ message: 'Token not found' }),
+      body: JSON.stringify(errorBody('conflict', 'Revoked or expired tokens cannot be extended')),
     };
   }
 
-  if (result.Item.userId !== userId) {
+  const escalationError = checkDelegation(identity, current.scopes ?? LEGACY_TOKEN_SCOPES, current.subscriptionIds);
+  if (escalationError) {
     return {
       statusCode: 403,
       headers,
-      body: JSON.stringify({ message: 'Forbidden' }),
+      body: JSON.stringify(errorBody('forbidden', escalationError)),
     };
   }
 
-  // Mark as revoked (we keep the record for audit purposes)
-  await docClient.send(new UpdateCommand({
-    TableName: TABLE_NAME,
-    Key: { id: tokenId },
-    UpdateExpression: 'SET revoked = :revoked',
+  const expiresInDays = request.expiresInDays ?? current.expiresInDays ?? lifetimeDays(current);
+  if (!expiresInDays) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', 'This token never expires')),
+    };
+  }
+
+  const expiresAt = expiryFromNow(expiresInDays)!;
+
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: TABLE_NAME,
+      Key: { id: current.id },
+      UpdateExpression: 'SET expiresAt = :expiresAt, expiresInDays = :expiresInDays REMOVE expiryWarningSentFor',
+      ConditionExpression: 'revoked = :false',
+      ExpressionAttributeValues: {
+        ':expiresAt': expiresAt,
+        ':expiresInDays': expiresInDays,
+        ':false': false,
+      },
+    }));
+  } catch (error: any) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+
+    return {
+      statusCode: 409,
+      headers,
+      body: JSON.stringify(errorBody('conflict', 'Token was revoked concurrently')),
+    };
+  }
+
+  const apiToken: ApiToken = { ...current, expiresAt, expiresInDays, expiryWarningSentFor: undefined };
+  await logTokenActivity(actorFromRequest(identity, event), 'token.extended', apiToken, {
+    expiresInDays: String(expiresInDays),
+  });
+
+  const response: ExtendTokenResponse = {
+    tokenInfo: toTokenInfo(apiToken),
+  };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+async function getTokenUsage(event: APIGatewayProxyEvent, userId: string): Promise<APIGatewayProxyResult> {
+  const daysParam = event.queryStringParameters?.days;
+  const dayCount = daysParam === undefined ? DEFAULT_USAGE_DAYS : Number(daysParam);
+  if (!Number.isInteger(dayCount) || dayCount < 1 || dayCount > MAX_USAGE_DAYS) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', `days must be an integer between 1 and ${MAX_USAGE_DAYS}`)),
+    };
+  }
+
+  const lookup = await getOwnedToken(event.pathParameters?.id, userId);
+  if ('error' in lookup) {
+    return lookup.error;
+  }
+
+  const dates = lastUtcDates(dayCount);
+  const result = await docClient.send(new QueryCommand({
+    TableName: TOKEN_USAGE_TABLE,
+    KeyConditionExpression: 'tokenId = :tokenId AND #date >= :from',
+    ExpressionAttributeNames: {
+      '#date': 'date',
+    },
     ExpressionAttributeValues: {
-      ':revoked': true,
+      ':tokenId': lookup.token.id,
+      ':from': dates[0],
     },
   }));
 
+  const requestsByDate = new Map<string, number>(
+    (result.Items || []).map(item => [item.date as string, item.requests as number])
+  );
+  const days: TokenUsageDay[] = dates.map(date => ({ date, requests: requestsByDate.get(date) ?? 0 }));
+
+  const response: GetTokenUsageResponse = {
+    tokenId: lookup.token.id,
+    lastUsedAt: lookup.token.lastUsedAt,
+    lastUsedIp: lookup.token.lastUsedIp,
+    lastUsedUserAgent: lookup.token.lastUsedUserAgent,
+    totalRequests: days.reduce((total, day) => total + day.requests, 0),
+    days,
+  };
+
   return {
     statusCode: 200,
     headers,
-    body: JSON.stringify({ message: 'Token revoked successfully' }),
+    body: JSON.stringify(response),
+  };
+}
+
+// The last `count` UTC dates as YYYY-MM-DD, oldest first, ending today
+function lastUtcDates(count: number): string[] {
+  const now = Date.now();
+  return Array.from({ length: count }, (_, i) =>
+    new Date(now - (count - 1 - i) * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+  );
+}
+
+async function getOwnedToken(
+  tokenId: string | undefined,
+  userId: string
+): Promise<{ token: ApiToken } | { error: APIGatewayProxyResult }> {
+  if (!tokenId) {
+    return {
+      error: {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify(errorBody('bad_request', 'Token ID is required')),
+      },
+    };
+  }
+
+  const result = await docClient.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: { id: tokenId },
+  }));
+
+  if (!result.Item) {
+    return {
+      error: {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify(errorBody('not_found', 'Token not found')),
+      },
+    };
+  }
+
+  if (result.Item.userId !== userId) {
+    return {
+      error: {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('forbidden', 'Forbidden')),
+      },
+    };
+  }
+
+  return { token: result.Item as ApiToken };
+}
+
+function logTokenActivity(
+  actor: ActivityActor,
+  type: ActivityType,
+  token: ApiToken,
+  details: Record<string, string> = {}
+): Promise<void> {
+  return recordActivity(actor, type, {
+    id: token.id,
+    details: { name: token.name, ...details },
+  });
+}
+
+// API Gateway reuses an authorizer decision for up to five minutes, so a revoked secret would keep
+// working until then. Flushing the stage's cache sends the next request back to the authorizer,
+// which rejects it. A failed flush is logged; the cached decision then expires on its own.
+async function flushAuthorizerCache(event: APIGatewayProxyEvent): Promise<void> {
+  try {
+    await apiGateway.send(new FlushStageAuthorizersCacheCommand({
+      restApiId: event.requestContext.apiId,
+      stageName: event.requestContext.stage,
+    }));
+  } catch (error) {
+    console.error('Failed to flush the authorizer cache:', error);
+  }
+}
+
+function generateSecret(): { token: string; tokenHash: string; prefix: string } {
+  const randomPart = randomBytes(32).toString('base64url'); // URL-safe base64
+  const token = `${TOKEN_PREFIX}${randomPart}`;
+
+  return {
+    token,
+    tokenHash: createHash('sha256').update(token).digest('hex'), // Only the hash is stored
+    prefix: token.substring(0, 12), // For display
   };
 }
+
+// Unix timestamp for DynamoDB TTL, or undefined for tokens that never expire
+function expiryFromNow(days: number | undefined): number | undefined {
+  if (!days) {
+    return undefined;
+  }
+
+  const expiryDate = new Date();
+  expiryDate.setDate(expiryDate.getDate() + days);
+  return Math.floor(expiryDate.getTime() / 1000);
+}
+
+// Tokens created before expiresInDays was stored: recover the lifetime from the timestamps
+function lifetimeDays(token: ApiToken): number | undefined {
+  if (!token.expiresAt) {
+    return undefined;
+  }
+
+  const createdAtSeconds = Math.floor(new Date(token.createdAt).getTime() / 1000);
+  return Math.min(MAX_TOKEN_EXPIRY_DAYS, Math.max(1, Math.round((token.expiresAt - createdAtSeconds) / (24 * 60 * 60))));
+}
+
+function toTokenInfo(token: ApiToken): TokenInfo {
+  const { tokenHash, previousTokenHash, knownIps, ...tokenInfo } = token;
+  return tokenInfo;
+}
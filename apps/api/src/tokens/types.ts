@@ -1,3 +1,5 @@
+import { TokenScope } from '../lib/auth.js';
+
 export interface ApiToken {
   id: string;
   userId: string;
@@ -6,20 +8,70 @@ export interface ApiToken {
   prefix: string; // First 8 chars of token for display (e.g., "wea_12345678...")
   createdAt: string;
   lastUsedAt?: string;
+  lastUsedIp?: string;
+  lastUsedUserAgent?: string;
+  knownIps?: Set<string>; // Every address the token has been used from, written by the authorizer
   expiresAt?: number; // Unix timestamp for DynamoDB TTL
+  expiresInDays?: number; // Lifetime requested at creation; rotation and extension renew it
+  expiryWarningSentFor?: number; // Smallest warning threshold (in days) already sent for this expiresAt
   revoked: boolean;
+  scopes?: TokenScope[]; // Missing on tokens created before scopes; treated as read-only
+  subscriptionIds?: string[]; // Only these subscriptions are reachable when set
+  rateLimitPerMinute?: number; // Overrides the default per-token limits when both are set
+  dailyQuota?: number;
+  rotatedAt?: string;
+  previousTokenHash?: string; // Secret replaced by the last rotation, valid until previousTokenExpiresAt
+  previousTokenExpiresAt?: number; // Unix timestamp
 }
 
+export type TokenInfo = Omit<ApiToken, 'tokenHash' | 'previousTokenHash' | 'knownIps'>; // Never return the hashes
+
 export interface CreateTokenRequest {
   name: string;
   expiresInDays?: number; // Optional, max 365 days
+  scopes: TokenScope[];
+  subscriptionIds?: string[]; // Optional, pins the token to these subscriptions
+  rateLimitPerMinute?: number; // Optional, defaults apply when omitted; at most the account's own limits
+  dailyQuota?: number;
 }
 
 export interface CreateTokenResponse {
   token: string; // Plain text token - only shown once!
-  tokenInfo: Omit<ApiToken, 'tokenHash'>; // Return everything except the hash
+  tokenInfo: TokenInfo;
 }
 
 export interface ListTokensResponse {
-  tokens: Omit<ApiToken, 'tokenHash'>[]; // Never return the hash
+  tokens: TokenInfo[];
+  nextCursor?: string; // Pass as ?cursor= to fetch the next page
+}
+
+export interface RotateTokenRequest {
+  gracePeriodHours?: number; // How long the old secret keeps working, default 24, max 168; 0 cuts it off at once
+}
+
+export interface RotateTokenResponse {
+  token: string; // New plain text token - only shown once!
+  tokenInfo: TokenInfo;
+}
+
+export interface ExtendTokenRequest {
+  expiresInDays?: number; // New lifetime from now, defaults to the token's current lifetime
+}
+
+export interface ExtendTokenResponse {
+  tokenInfo: TokenInfo;
+}
+
+export interface TokenUsageDay {
+  date: string; // YYYY-MM-DD (UTC)
+  requests: number;
+}
+
+export interface GetTokenUsageResponse {
+  tokenId: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  lastUsedUserAgent?: string;
+  totalRequests: number;
+  days: TokenUsageDay[]; // Oldest first, one entry per day including days without requests
 }
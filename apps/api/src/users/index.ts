@@ -0,0 +1,149 @@
+import { PutCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { validateUpdateUserRequest } from '@weather-app/shared';
+import { User, UpdateUserRequest, GetUserResponse } from './types.js';
+import { getOrCreateUser, getUser, ONBOARDING_STEPS } from './store.js';
+import { getIdentity, hasScope } from '../lib/auth.js';
+import { checkRateLimit } from '../lib/rate-limit.js';
+import { parseRequestBody } from '../lib/validation.js';
+import { errorBody, internalError, withRequestId } from '../lib/errors.js';
+import { docClient } from '../lib/dynamodb.js';
+
+const USERS_TABLE = process.env.USERS_TABLE!;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,PATCH,OPTIONS',
+};
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+  withRequestId(await handleRequest(event), event.requestContext?.requestId);
+
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  console.log('Event:', JSON.stringify(event, null, 2));
+
+  try {
+    const identity = getIdentity(event);
+    if (!identity) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify(errorBody('unauthorized', 'Unauthorized')),
+      };
+    }
+    const userId = identity.userId;
+
+    const rateLimit = await checkRateLimit(identity);
+    if (rateLimit.limited) {
+      return {
+        statusCode: 429,
+        headers: { ...headers, ...rateLimit.headers },
+        body: JSON.stringify(errorBody('rate_limited', 'Rate limit exceeded, retry after the time in Retry-After')),
+      };
+    }
+
+    if (!hasScope(identity, 'account:manage')) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('insufficient_scope', 'Token is missing the account:manage scope')),
+      };
+    }
+
+    // The first signed-in request creates the profile if the sign-up trigger didn't. API tokens
+    // don't carry the account email, so they only see a profile that already exists.
+    const user = identity.email
+      ? await getOrCreateUser(docClient, userId, identity.email)
+      : await getUser(docClient, userId);
+    if (!user) {
+      return {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify(errorBody('not_found', 'Profile not found. Sign in to the web app to create it')),
+      };
+    }
+
+    switch (event.httpMethod) {
+      case 'GET':
+        return getCurrentUser(user);
+      case 'PATCH':
+        return await updateCurrentUser(event, user, identity.email);
+      default:
+        return {
+          statusCode: 405,
+          headers,
+          body: JSON.stringify(errorBody('method_not_allowed', 'Method not allowed')),
+        };
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify(internalError()),
+    };
+  }
+}
+
+function getCurrentUser(user: User): APIGatewayProxyResult {
+  const response: GetUserResponse = { user };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+// email is the signed-in caller's, used to fill in a profile created without one
+async function updateCurrentUser(
+  event: APIGatewayProxyEvent,
+  current: User,
+  email: string | undefined
+): Promise<APIGatewayProxyResult> {
+  const parsed = parseRequestBody(event.body, validateUpdateUserRequest);
+  if ('error' in parsed) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(parsed.error),
+    };
+  }
+
+  const request: UpdateUserRequest = parsed.request;
+
+  const now = new Date().toISOString();
+  const completedSteps = [...new Set([
+    ...current.onboarding.completedSteps,
+    ...(request.onboarding?.completedSteps || []),
+  ])];
+  const onboardingDone = request.onboarding?.skip === true ||
+    ONBOARDING_STEPS.every(step => completedSteps.includes(step));
+
+  const user: User = {
+    ...current,
+    email: current.email || email || '',
+    timezone: request.timezone ?? current.timezone,
+    locale: request.locale ?? current.locale,
+    units: request.units ?? current.units,
+    notificationChannels: request.notificationChannels ?? current.notificationChannels,
+    onboarding: {
+      completedSteps,
+      completedAt: current.onboarding.completedAt ?? (onboardingDone ? now : undefined),
+    },
+    updatedAt: now,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: USERS_TABLE,
+    Item: user,
+  }));
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ user }),
+  };
+}
@@ -0,0 +1,18 @@
+import { PostAuthenticationTriggerEvent } from 'aws-lambda';
+import { recordActivity } from '../lib/activity.js';
+
+// Cognito post-authentication trigger: adds each sign-in to the user's activity log
+export const handler = async (event: PostAuthenticationTriggerEvent): Promise<PostAuthenticationTriggerEvent> => {
+  console.log('Post-authentication event:', JSON.stringify(event, null, 2));
+
+  // Cognito doesn't pass the client's IP to triggers unless advanced security is enabled
+  await recordActivity({
+    userId: event.request.userAttributes.sub,
+    authType: 'cognito',
+  }, 'user.signed_in', {
+    id: event.request.userAttributes.sub,
+    details: { newDevice: String(event.request.newDeviceUsed) },
+  });
+
+  return event;
+};
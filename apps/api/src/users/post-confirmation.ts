@@ -0,0 +1,25 @@
+import { PostConfirmationTriggerEvent } from 'aws-lambda';
+import { createDefaultUser, putNewUser } from './store.js';
+import { docClient } from '../lib/dynamodb.js';
+
+// Cognito post-confirmation trigger: creates the profile as soon as a sign-up is confirmed
+export const handler = async (event: PostConfirmationTriggerEvent): Promise<PostConfirmationTriggerEvent> => {
+  console.log('Post-confirmation event:', JSON.stringify(event, null, 2));
+
+  // Password resets also confirm; only sign-ups need a profile
+  if (event.triggerSource !== 'PostConfirmation_ConfirmSignUp') {
+    return event;
+  }
+
+  const { sub, email } = event.request.userAttributes;
+
+  try {
+    const created = await putNewUser(docClient, createDefaultUser(sub, email));
+    console.log(created ? `Created profile for user ${sub}` : `Profile for user ${sub} already exists`);
+  } catch (error) {
+    // Never block sign-up: GET /me creates the profile on first use anyway
+    console.error(`Failed to create profile for user ${sub}:`, error);
+  }
+
+  return event;
+};
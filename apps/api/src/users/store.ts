@@ -0,0 +1,71 @@
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from '@aws-sdk/lib-dynamodb';
+import { DEFAULT_UNIT_SYSTEM } from '@weather-app/shared';
+import { OnboardingStep, User } from './types.js';
+
+const USERS_TABLE = process.env.USERS_TABLE!;
+
+export const ONBOARDING_STEPS: OnboardingStep[] = ['add-location', 'choose-units', 'configure-notifications'];
+
+const DEFAULT_TIMEZONE = 'UTC';
+const DEFAULT_LOCALE = 'en-US';
+
+export function createDefaultUser(id: string, email: string): User {
+  const now = new Date().toISOString();
+
+  return {
+    id,
+    email,
+    cognitoSub: id,
+    timezone: DEFAULT_TIMEZONE,
+    locale: DEFAULT_LOCALE,
+    units: DEFAULT_UNIT_SYSTEM,
+    notificationChannels: ['email'],
+    onboarding: { completedSteps: [] },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Returns the user's profile, creating it with defaults on their first request.
+ * Races with the post-confirmation trigger are harmless: only the first write
+ * lands and the other caller reads it back.
+ */
+export async function getOrCreateUser(docClient: DynamoDBDocumentClient, id: string, email: string): Promise<User> {
+  const existing = await getUser(docClient, id);
+  if (existing) {
+    return existing;
+  }
+
+  const user = createDefaultUser(id, email);
+  const created = await putNewUser(docClient, user);
+
+  return created ? user : (await getUser(docClient, id))!;
+}
+
+/** Writes a new profile unless one already exists. Returns false if it did. */
+export async function putNewUser(docClient: DynamoDBDocumentClient, user: User): Promise<boolean> {
+  try {
+    await docClient.send(new PutCommand({
+      TableName: USERS_TABLE,
+      Item: user,
+      ConditionExpression: 'attribute_not_exists(id)',
+    }));
+    return true;
+  } catch (error: any) {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+    return false;
+  }
+}
+
+/** The user's profile, or undefined if it hasn't been created yet. */
+export async function getUser(docClient: DynamoDBDocumentClient, id: string): Promise<User | undefined> {
+  const result = await docClient.send(new GetCommand({
+    TableName: USERS_TABLE,
+    Key: { id },
+  }));
+
+  return result.Item as User | undefined;
+}
@@ -0,0 +1,40 @@
+import type { UnitSystem } from '@weather-app/shared';
+
+// User types
+export type NotificationChannel = 'email' | 'webhook';
+
+export type OnboardingStep = 'add-location' | 'choose-units' | 'configure-notifications';
+
+export interface OnboardingState {
+  completedSteps: OnboardingStep[];
+  completedAt?: string; // Set once every step is done or the user skips the rest
+}
+
+export interface User {
+  id: string; // Cognito sub
+  email: string;
+  cognitoSub: string;
+  timezone: string; // IANA timezone, e.g. "Europe/London"
+  locale: string; // BCP 47 tag, e.g. "en-GB"
+  units: UnitSystem;
+  notificationChannels: NotificationChannel[];
+  onboarding: OnboardingState;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// User profile types
+export interface UpdateUserRequest {
+  timezone?: string;
+  locale?: string;
+  units?: UnitSystem;
+  notificationChannels?: NotificationChannel[];
+  onboarding?: {
+    completedSteps?: OnboardingStep[]; // Added to the steps already completed
+    skip?: boolean; // Marks onboarding complete without finishing every step
+  };
+}
+
+export interface GetUserResponse {
+  user: User;
+}
@@ -0,0 +1,132 @@
+import { DynamoDBDocumentClient, QueryCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { AlertRule, AlertState, WeatherData, WeatherForecast } from './types.js';
+
+const ALERT_RULES_TABLE = process.env.ALERT_RULES_TABLE!;
+
+export interface AlertEvaluation {
+  rule: AlertRule;
+  value?: number;
+  state: AlertState;
+  transition?: 'triggered' | 'resolved';
+}
+
+export async function evaluateAlertRules(
+  docClient: DynamoDBDocumentClient,
+  weatherData: WeatherData & { forecast: WeatherForecast[] }
+): Promise<AlertEvaluation[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: ALERT_RULES_TABLE,
+    IndexName: 'SubscriptionIdIndex',
+    KeyConditionExpression: 'subscriptionId = :subscriptionId',
+    ExpressionAttributeValues: {
+      ':subscriptionId': weatherData.subscriptionId,
+    },
+  }));
+
+  const rules = ((result.Items || []) as AlertRule[]).filter(rule => rule.enabled);
+  const now = new Date();
+  const evaluations = rules.map(rule => evaluateAlertRule(rule, weatherData, now));
+
+  await Promise.all(evaluations.map(evaluation => saveEvaluation(docClient, evaluation, now)));
+
+  evaluations
+    .filter(evaluation => evaluation.transition)
+    .forEach(evaluation => console.log(
+      `Alert "${evaluation.rule.name}" ${evaluation.transition} for ${weatherData.location} (value: ${evaluation.value})`
+    ));
+
+  return evaluations;
+}
+
+export function evaluateAlertRule(
+  rule: AlertRule,
+  weatherData: WeatherData & { forecast: WeatherForecast[] },
+  now: Date
+): AlertEvaluation {
+  const value = getMetricValue(rule, weatherData);
+
+  if (value === undefined) {
+    return { rule, state: rule.state };
+  }
+
+  const breached = rule.operator === 'above' ? value > rule.threshold : value < rule.threshold;
+
+  if (rule.state === 'ok') {
+    // Cooldown runs from the last trigger, so a quick resolve/re-breach stays quiet
+    const cooldownElapsed = !rule.triggeredAt ||
+      now.getTime() - new Date(rule.triggeredAt).getTime() >= rule.cooldownMinutes * 60 * 1000;
+
+    if (breached && cooldownElapsed) {
+      return { rule, value, state: 'triggered', transition: 'triggered' };
+    }
+    return { rule, value, state: 'ok' };
+  }
+
+  // Only clear once the value has recovered past the threshold by the hysteresis margin
+  const recovered = rule.operator === 'above'
+    ? value <= rule.threshold - rule.hysteresis
+    : value >= rule.threshold + rule.hysteresis;
+
+  if (recovered) {
+    return { rule, value, state: 'ok', transition: 'resolved' };
+  }
+  return { rule, value, state: 'triggered' };
+}
+
+function getMetricValue(rule: AlertRule, weatherData: WeatherData & { forecast: WeatherForecast[] }): number | undefined {
+  switch (rule.metric) {
+    case 'temperature':
+    case 'feelsLike':
+    case 'humidity':
+    case 'pressure':
+    case 'windSpeed':
+      return weatherData[rule.metric];
+  }
+
+  const day = weatherData.forecast[rule.forecastDay ?? 1];
+  if (!day) {
+    return undefined;
+  }
+
+  switch (rule.metric) {
+    case 'forecastTempMin':
+      return day.tempMin;
+    case 'forecastTempMax':
+      return day.tempMax;
+    case 'precipitationProbability':
+      return Math.round(day.precipitation * 100); // Stored as 0-1, thresholds are percentages
+  }
+}
+
+async function saveEvaluation(docClient: DynamoDBDocumentClient, evaluation: AlertEvaluation, now: Date): Promise<void> {
+  if (evaluation.value === undefined) {
+    return;
+  }
+
+  const timestamp = now.toISOString();
+  let updateExpression = 'SET #state = :state, lastValue = :value, lastEvaluatedAt = :now';
+  if (evaluation.transition === 'triggered') {
+    updateExpression += ', triggeredAt = :now';
+  } else if (evaluation.transition === 'resolved') {
+    updateExpression += ', resolvedAt = :now';
+  }
+
+  await docClient.send(new UpdateCommand({
+    TableName: ALERT_RULES_TABLE,
+    Key: { id: evaluation.rule.id },
+    UpdateExpression: updateExpression,
+    ConditionExpression: 'attribute_exists(id)', // Rule may have been deleted mid-fetch
+    ExpressionAttributeNames: {
+      '#state': 'state',
+    },
+    ExpressionAttributeValues: {
+      ':state': evaluation.state,
+      ':value': evaluation.value,
+      ':now': timestamp,
+    },
+  })).catch(error => {
+    if (error.name !== 'ConditionalCheckFailedException') {
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,206 @@
+import {
+  DynamoDBDocumentClient,
+  BatchGetCommand,
+  BatchGetCommandOutput,
+  GetCommand,
+  PutCommand,
+  UpdateCommand,
+} from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  FetchJob,
+  FetchOutcome,
+  LocationSubscription,
+  WeatherData,
+  WeatherForecast,
+  WeatherLocation,
+} from './types.js';
+import { getWeatherProvider } from '../lib/providers/index.js';
+import { LOCATION_TTL_SECONDS } from '../lib/locations.js';
+import { evaluateAlertRules } from './alerts.js';
+import { dispatchWeatherWebhooks } from './webhooks.js';
+import { recordOutcome } from './runs.js';
+
+const SUBSCRIPTIONS_TABLE = process.env.SUBSCRIPTIONS_TABLE!;
+const WEATHER_TABLE = process.env.WEATHER_DATA_TABLE!;
+const LOCATIONS_TABLE = process.env.LOCATIONS_TABLE!;
+
+const BATCH_GET_SIZE = 100; // DynamoDB's BatchGetItem limit
+
+/**
+ * Runs one job and records its final outcome against the run. Throws when the job should be
+ * retried; on the last attempt the failure is recorded before rethrowing.
+ */
+export async function processFetchJob(
+  docClient: DynamoDBDocumentClient,
+  job: FetchJob,
+  attempt: number,
+  maxAttempts: number
+): Promise<FetchOutcome> {
+  let outcome: FetchOutcome;
+  try {
+    outcome = await fetchLocationWeather(docClient, job);
+  } catch (error) {
+    console.error(`Error fetching weather for ${job.locationId} (attempt ${attempt} of ${maxAttempts}):`, error);
+    if (attempt >= maxAttempts) {
+      await recordOutcome(docClient, job.runId, 'failed');
+    }
+    throw error;
+  }
+
+  await recordOutcome(docClient, job.runId, outcome);
+  return outcome;
+}
+
+async function fetchLocationWeather(docClient: DynamoDBDocumentClient, job: FetchJob): Promise<FetchOutcome> {
+  // The location is written last, so a fetch since the run started means a duplicate delivery
+  // or an overlapping run has already handled every subscription here
+  const existing = await docClient.send(new GetCommand({
+    TableName: LOCATIONS_TABLE,
+    Key: { id: job.locationId },
+  }));
+  const cached = existing.Item as WeatherLocation | undefined;
+  if (cached && cached.fetchedAt >= job.scheduledAt) {
+    console.log(`Skipping ${job.locationId}, already fetched at ${cached.fetchedAt}`);
+    return 'skipped';
+  }
+
+  const subscriptions = await getSubscriptions(docClient, job.subscriptionIds);
+  if (subscriptions.length === 0) {
+    console.log(`Skipping ${job.locationId}, its subscriptions were deleted`);
+    return 'skipped';
+  }
+
+  const provider = getWeatherProvider(job.provider);
+  console.log(`Fetching weather for ${job.locationId} from ${provider.name} (${subscriptions.length} subscriptions)`);
+
+  const { current, forecast, timezone, utcOffsetSeconds } = await provider.getWeather({
+    latitude: job.latitude,
+    longitude: job.longitude,
+  });
+
+  const location: WeatherLocation = {
+    id: job.locationId,
+    latitude: job.latitude,
+    longitude: job.longitude,
+    provider: provider.name,
+    current,
+    forecast,
+    timezone,
+    utcOffsetSeconds,
+    fetchedAt: new Date().toISOString(),
+    ttl: Math.floor(Date.now() / 1000) + LOCATION_TTL_SECONDS,
+  };
+
+  // A subscription that fails to store is logged and not retried, so the others aren't stored twice
+  await Promise.allSettled(subscriptions.map(subscription =>
+    storeSubscriptionWeather(docClient, subscription, location)
+  ));
+
+  await docClient.send(new PutCommand({
+    TableName: LOCATIONS_TABLE,
+    Item: location,
+  }));
+
+  return 'succeeded';
+}
+
+async function getSubscriptions(docClient: DynamoDBDocumentClient, ids: string[]): Promise<LocationSubscription[]> {
+  const subscriptions: LocationSubscription[] = [];
+
+  for (let i = 0; i < ids.length; i += BATCH_GET_SIZE) {
+    let keys: Record<string, any>[] | undefined = ids.slice(i, i + BATCH_GET_SIZE).map(id => ({ id }));
+
+    // Throttled reads come back as UnprocessedKeys and are simply asked for again
+    while (keys && keys.length > 0) {
+      const result: BatchGetCommandOutput = await docClient.send(new BatchGetCommand({
+        RequestItems: {
+          [SUBSCRIPTIONS_TABLE]: { Keys: keys },
+        },
+      }));
+
+      subscriptions.push(...((result.Responses?.[SUBSCRIPTIONS_TABLE] || []) as LocationSubscription[]));
+      keys = result.UnprocessedKeys?.[SUBSCRIPTIONS_TABLE]?.Keys;
+    }
+  }
+
+  return subscriptions;
+}
+
+async function storeSubscriptionWeather(
+  docClient: DynamoDBDocumentClient,
+  subscription: LocationSubscription,
+  location: WeatherLocation
+): Promise<void> {
+  try {
+    // Store weather data
+    const weatherData: WeatherData & { forecast: WeatherForecast[]; ttl: number } = {
+      id: uuidv4(),
+      subscriptionId: subscription.id,
+      location: subscription.location,
+      ...location.current,
+      fetchedAt: location.fetchedAt,
+      provider: location.provider,
+      forecast: location.forecast,
+      ttl: Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60), // 30 days TTL
+    };
+
+    await docClient.send(new PutCommand({
+      TableName: WEATHER_TABLE,
+      Item: weatherData,
+    }));
+
+    console.log(`Weather data stored for ${subscription.location}`);
+
+    if (subscription.timezone !== location.timezone || subscription.utcOffsetSeconds !== location.utcOffsetSeconds) {
+      try {
+        await saveSubscriptionTimezone(docClient, {
+          ...subscription,
+          timezone: location.timezone,
+          utcOffsetSeconds: location.utcOffsetSeconds,
+        });
+      } catch (error) {
+        console.error(`Error updating timezone for ${subscription.location}:`, error);
+      }
+    }
+
+    // Evaluate alert rules against the new snapshot
+    try {
+      await evaluateAlertRules(docClient, weatherData);
+    } catch (error) {
+      console.error(`Error evaluating alerts for ${subscription.location}:`, error);
+    }
+
+    // Notify webhooks registered for this subscription
+    try {
+      await dispatchWeatherWebhooks(docClient, subscription, weatherData);
+    } catch (error) {
+      console.error(`Error dispatching webhooks for ${subscription.location}:`, error);
+    }
+  } catch (error) {
+    console.error(`Error storing weather for ${subscription.location}:`, error);
+    // Don't throw - we want to continue processing other subscriptions
+  }
+}
+
+// Keep the subscription's timezone in step with its location (DST changes the offset)
+async function saveSubscriptionTimezone(
+  docClient: DynamoDBDocumentClient,
+  subscription: LocationSubscription
+): Promise<void> {
+  const timezoneExpression = subscription.timezone ? ', #timezone = :timezone' : ' REMOVE #timezone';
+
+  await docClient.send(new UpdateCommand({
+    TableName: SUBSCRIPTIONS_TABLE,
+    Key: { id: subscription.id },
+    UpdateExpression: `SET utcOffsetSeconds = :utcOffsetSeconds${timezoneExpression}`,
+    ConditionExpression: 'attribute_exists(id)', // Don't recreate a subscription deleted meanwhile
+    ExpressionAttributeNames: {
+      '#timezone': 'timezone',
+    },
+    ExpressionAttributeValues: {
+      ':utcOffsetSeconds': subscription.utcOffsetSeconds,
+      ...(subscription.timezone && { ':timezone': subscription.timezone }),
+    },
+  }));
+}
@@ -0,0 +1,108 @@
+import { SQSClient } from '@aws-sdk/client-sqs';
+import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { FetchJob } from './types.js';
+import { processFetchJob } from './fetch-job.js';
+import { sendMessageBatches } from '../lib/sqs.js';
+
+export interface FetchQueue {
+  // Resolves once every job is queued. The in-process queue also waits for them to run.
+  enqueue(jobs: FetchJob[]): Promise<void>;
+}
+
+export type FetchQueueTransport = 'sqs' | 'in-process';
+
+// Must match maxReceiveCount in the queue's redrive policy
+export const MAX_FETCH_ATTEMPTS = Number(process.env.FETCH_MAX_ATTEMPTS) || 3;
+
+// Provider calls in flight at once, per worker invocation or in-process run
+export const FETCH_CONCURRENCY = Number(process.env.FETCH_CONCURRENCY) || 4;
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+
+// Sends jobs to SQS; WeatherFetchWorkerFunction consumes them, and SQS redelivers failed jobs
+// until maxReceiveCount before moving them to the dead-letter queue
+export class SqsFetchQueue implements FetchQueue {
+  private readonly sqs = new SQSClient({});
+
+  constructor(private readonly queueUrl: string) {}
+
+  async enqueue(jobs: FetchJob[]): Promise<void> {
+    await sendMessageBatches(this.sqs, this.queueUrl, jobs, job => job.locationId);
+  }
+}
+
+// Runs jobs in this process with the same concurrency cap and attempt limit as the SQS worker.
+// Jobs that fail every attempt are kept in deadLetters instead of a dead-letter queue.
+export class InProcessFetchQueue implements FetchQueue {
+  readonly deadLetters: { job: FetchJob; error: string }[] = [];
+
+  constructor(private readonly docClient: DynamoDBDocumentClient) {}
+
+  async enqueue(jobs: FetchJob[]): Promise<void> {
+    await mapWithConcurrency(jobs, FETCH_CONCURRENCY, job => this.run(job));
+
+    this.deadLetters.forEach(({ job, error }) =>
+      console.error(`Dead-lettered fetch job for ${job.locationId}: ${error}`)
+    );
+  }
+
+  private async run(job: FetchJob): Promise<void> {
+    for (let attempt = 1; attempt <= MAX_FETCH_ATTEMPTS; attempt++) {
+      try {
+        await processFetchJob(this.docClient, job, attempt, MAX_FETCH_ATTEMPTS);
+        return;
+      } catch (error) {
+        if (attempt === MAX_FETCH_ATTEMPTS) {
+          this.deadLetters.push({ job, error: error instanceof Error ? error.message : 'Unknown error' });
+          return;
+        }
+        await sleep(INITIAL_RETRY_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+}
+
+export function createFetchQueue(
+  docClient: DynamoDBDocumentClient,
+  transport: string = process.env.FETCH_QUEUE || 'in-process'
+): FetchQueue {
+  switch (transport as FetchQueueTransport) {
+    case 'sqs':
+      if (!process.env.FETCH_QUEUE_URL) {
+        throw new Error('FETCH_QUEUE_URL is required for the sqs fetch queue');
+      }
+      return new SqsFetchQueue(process.env.FETCH_QUEUE_URL);
+    case 'in-process':
+      return new InProcessFetchQueue(docClient);
+    default:
+      throw new Error(`Unknown fetch queue: ${transport}`);
+  }
+}
+
+// Like Promise.allSettled over items.map(fn), but with at most `limit` calls in flight
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await fn(items[index]) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,61 @@
+import { DynamoDBDocumentClient, GetCommand, PutCommand, UpdateCommand } from '@aws-sdk/lib-dynamodb';
+import { FetchOutcome, FetchRun } from './types.js';
+
+const FETCH_RUNS_TABLE = process.env.FETCH_RUNS_TABLE!;
+const RUN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+export async function startRun(
+  docClient: DynamoDBDocumentClient,
+  run: Pick<FetchRun, 'id' | 'startedAt' | 'subscriptions' | 'attempted'>
+): Promise<void> {
+  const item: FetchRun = {
+    ...run,
+    succeeded: 0,
+    failed: 0,
+    skipped: 0,
+    ttl: Math.floor(Date.now() / 1000) + RUN_TTL_SECONDS,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: FETCH_RUNS_TABLE,
+    Item: item,
+  }));
+}
+
+// Counted once per job, when it reaches its final outcome. Failures are logged: the summary
+// is for operators and must never cause a successful fetch to be retried.
+export async function recordOutcome(
+  docClient: DynamoDBDocumentClient,
+  runId: string,
+  outcome: FetchOutcome
+): Promise<void> {
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: FETCH_RUNS_TABLE,
+      Key: { id: runId },
+      UpdateExpression: 'ADD #outcome :one',
+      ExpressionAttributeNames: {
+        '#outcome': outcome,
+      },
+      ExpressionAttributeValues: {
+        ':one': 1,
+      },
+    }));
+  } catch (error) {
+    console.error(`Failed to record ${outcome} outcome for run ${runId}:`, error);
+  }
+}
+
+export async function getRun(docClient: DynamoDBDocumentClient, runId: string): Promise<FetchRun | undefined> {
+  const result = await docClient.send(new GetCommand({
+    TableName: FETCH_RUNS_TABLE,
+    Key: { id: runId },
+  }));
+
+  return result.Item as FetchRun | undefined;
+}
+
+export function formatRunSummary(run: FetchRun): string {
+  return `Run ${run.id}: ${run.attempted} attempted, ${run.succeeded} succeeded, ` +
+    `${run.failed} failed, ${run.skipped} skipped (${run.subscriptions} subscriptions)`;
+}
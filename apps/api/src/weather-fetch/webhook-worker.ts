@@ -0,0 +1,23 @@
+import { SQSBatchResponse, SQSEvent } from 'aws-lambda';
+import { deliverWebhookJob, WebhookJob } from '../lib/webhook-queue.js';
+
+// Consumes webhook jobs from SQS, delivering a batch in parallel. An endpoint that still fails after
+// deliverWebhook's own retries is logged as a failed delivery, not retried here; only errors reading
+// the webhook or writing the log are, and after maxReceiveCount receives the job is dead-lettered.
+export const handler = async (event: SQSEvent): Promise<SQSBatchResponse> => {
+  const results = await Promise.allSettled(event.Records.map(record =>
+    deliverWebhookJob(JSON.parse(record.body) as WebhookJob)
+  ));
+
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Error delivering webhook job ${event.Records[index].messageId}:`, result.reason);
+    }
+  });
+
+  return {
+    batchItemFailures: event.Records
+      .filter((_, index) => results[index].status === 'rejected')
+      .map(record => ({ itemIdentifier: record.messageId })),
+  };
+};
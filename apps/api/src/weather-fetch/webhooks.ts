@@ -0,0 +1,68 @@
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  LocationSubscription,
+  WeatherData,
+  WeatherForecast,
+  WeatherUpdatedPayload,
+} from './types.js';
+import { Webhook } from '../lib/webhooks.js';
+import { createWebhookQueue, WebhookQueue } from '../lib/webhook-queue.js';
+
+const WEBHOOKS_TABLE = process.env.WEBHOOKS_TABLE!;
+
+let webhookQueue: WebhookQueue | undefined;
+
+// Queue a weather.updated event for every enabled webhook of the owner that covers this subscription
+export async function dispatchWeatherWebhooks(
+  docClient: DynamoDBDocumentClient,
+  subscription: LocationSubscription,
+  weatherData: WeatherData & { forecast: WeatherForecast[]; ttl?: number }
+): Promise<void> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: WEBHOOKS_TABLE,
+    IndexName: 'UserIdIndex',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: {
+      ':userId': subscription.userId,
+    },
+  }));
+
+  const webhooks = ((result.Items || []) as Webhook[]).filter(webhook =>
+    webhook.enabled &&
+    (webhook.subscriptionIds.length === 0 || webhook.subscriptionIds.includes(subscription.id))
+  );
+
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const { forecast, ttl: _, ...current } = weatherData;
+  const payload: WeatherUpdatedPayload = {
+    id: weatherData.id,
+    event: 'weather.updated',
+    createdAt: new Date().toISOString(),
+    data: {
+      subscription: {
+        id: subscription.id,
+        location: subscription.location,
+        latitude: subscription.latitude,
+        longitude: subscription.longitude,
+        city: subscription.city,
+        country: subscription.country,
+      },
+      current,
+      forecast,
+    },
+  };
+  const body = JSON.stringify(payload);
+
+  webhookQueue ??= createWebhookQueue();
+  await webhookQueue.enqueue(webhooks.map(webhook => ({
+    deliveryId: uuidv4(),
+    webhookId: webhook.id,
+    event: 'weather.updated',
+    subscriptionId: subscription.id,
+    payload: body,
+  })));
+}
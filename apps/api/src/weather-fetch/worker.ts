@@ -0,0 +1,28 @@
+import { SQSBatchResponse, SQSEvent } from 'aws-lambda';
+import { FetchJob } from './types.js';
+import { processFetchJob } from './fetch-job.js';
+import { FETCH_CONCURRENCY, MAX_FETCH_ATTEMPTS, mapWithConcurrency } from './queue.js';
+import { docClient } from '../lib/dynamodb.js';
+
+// Consumes fetch jobs from SQS. Failed jobs are reported individually so only they are redelivered;
+// after MAX_FETCH_ATTEMPTS receives SQS moves them to the dead-letter queue.
+export const handler = async (event: SQSEvent): Promise<SQSBatchResponse> => {
+  const results = await mapWithConcurrency(event.Records, FETCH_CONCURRENCY, record => {
+    const job = JSON.parse(record.body) as FetchJob;
+    const attempt = Number(record.attributes.ApproximateReceiveCount);
+    return processFetchJob(docClient, job, attempt, MAX_FETCH_ATTEMPTS);
+  });
+
+  const counts = { succeeded: 0, skipped: 0, failed: 0 };
+  results.forEach(result => {
+    counts[result.status === 'fulfilled' ? result.value : 'failed']++;
+  });
+  console.log(`Processed ${event.Records.length} fetch jobs: ${counts.succeeded} succeeded, ` +
+    `${counts.skipped} skipped, ${counts.failed} failed`);
+
+  return {
+    batchItemFailures: event.Records
+      .filter((_, index) => results[index].status === 'rejected')
+      .map(record => ({ itemIdentifier: record.messageId })),
+  };
+};
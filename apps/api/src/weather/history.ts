@@ -0,0 +1,184 @@
+import { DynamoDBDocumentClient, QueryCommand } from '@aws-sdk/lib-dynamodb';
+import { HistoryInterval, MetricSummary, WeatherData, WeatherHistoryPoint } from './types.js';
+
+const WEATHER_TABLE = process.env.WEATHER_DATA_TABLE!;
+
+export const HISTORY_INTERVALS: HistoryInterval[] = ['raw', 'hourly', 'daily'];
+export const DEFAULT_HISTORY_LIMIT = 100;
+export const MAX_HISTORY_LIMIT = 500;
+export const DEFAULT_HISTORY_RANGE_MS = 24 * 60 * 60 * 1000; // Last 24 hours
+
+const METRICS = ['temperature', 'feelsLike', 'humidity', 'pressure', 'windSpeed'] as const;
+type Metric = typeof METRICS[number];
+type HistorySample = Pick<WeatherData, 'timestamp' | Metric>;
+
+export interface HistoryQuery {
+  subscriptionId: string;
+  interval: HistoryInterval;
+  from: string;
+  to: string;
+  limit: number;
+  cursor?: string;
+}
+
+export interface HistoryPage {
+  points: WeatherHistoryPoint[];
+  nextCursor?: string;
+}
+
+export async function queryWeatherHistory(
+  docClient: DynamoDBDocumentClient,
+  query: HistoryQuery
+): Promise<HistoryPage> {
+  if (query.interval === 'raw') {
+    return queryRawHistory(docClient, query);
+  }
+  return queryBucketedHistory(docClient, query);
+}
+
+// Raw samples page straight through DynamoDB, so the cursor wraps LastEvaluatedKey
+async function queryRawHistory(docClient: DynamoDBDocumentClient, query: HistoryQuery): Promise<HistoryPage> {
+  const result = await docClient.send(new QueryCommand({
+    ...buildRangeQuery(query.subscriptionId, query.from, query.to),
+    Limit: query.limit,
+    ExclusiveStartKey: query.cursor ? decodeRawCursor(query.cursor, query.subscriptionId) : undefined,
+  }));
+
+  const samples = (result.Items || []) as HistorySample[];
+
+  return {
+    points: samples.map(sample => summarize(sample.timestamp, [sample])),
+    nextCursor: result.LastEvaluatedKey ? encodeCursor(result.LastEvaluatedKey) : undefined,
+  };
+}
+
+// Buckets can span DynamoDB pages, so the cursor holds the start of the next bucket
+// and we keep reading until one bucket past the requested limit has started.
+async function queryBucketedHistory(docClient: DynamoDBDocumentClient, query: HistoryQuery): Promise<HistoryPage> {
+  const from = query.cursor ? decodeBucketCursor(query.cursor) : query.from;
+  const buckets: Map<string, HistorySample[]> = new Map();
+  let exclusiveStartKey: Record<string, any> | undefined;
+
+  do {
+    const result = await docClient.send(new QueryCommand({
+      ...buildRangeQuery(query.subscriptionId, from, query.to),
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    for (const sample of (result.Items || []) as HistorySample[]) {
+      const bucketStart = getBucketStart(sample.timestamp, query.interval);
+      if (!buckets.has(bucketStart)) {
+        if (buckets.size === query.limit) {
+          const points = Array.from(buckets, ([start, samples]) => summarize(start, samples));
+          return { points, nextCursor: encodeCursor({ bucketStart }) };
+        }
+        buckets.set(bucketStart, []);
+      }
+      buckets.get(bucketStart)!.push(sample);
+    }
+
+    exclusiveStartKey = result.LastEvaluatedKey;
+  } while (exclusiveStartKey);
+
+  return {
+    points: Array.from(buckets, ([start, samples]) => summarize(start, samples)),
+  };
+}
+
+function buildRangeQuery(subscriptionId: string, from: string, to: string) {
+  return {
+    TableName: WEATHER_TABLE,
+    IndexName: 'SubscriptionIdIndex',
+    KeyConditionExpression: 'subscriptionId = :subscriptionId AND #timestamp BETWEEN :from AND :to',
+    // Skip the stored forecast, history only needs the current observation
+    ProjectionExpression: `id, subscriptionId, #timestamp, ${METRICS.join(', ')}`,
+    ExpressionAttributeNames: {
+      '#timestamp': 'timestamp',
+    },
+    ExpressionAttributeValues: {
+      ':subscriptionId': subscriptionId,
+      ':from': from,
+      ':to': to,
+    },
+    ScanIndexForward: true, // Oldest first
+  };
+}
+
+export function getBucketStart(timestamp: string, interval: HistoryInterval): string {
+  const date = new Date(timestamp);
+
+  if (interval === 'hourly') {
+    date.setUTCMinutes(0, 0, 0);
+  } else if (interval === 'daily') {
+    date.setUTCHours(0, 0, 0, 0);
+  }
+
+  return date.toISOString();
+}
+
+function summarize(timestamp: string, samples: HistorySample[]): WeatherHistoryPoint {
+  const summary = (metric: Metric): MetricSummary => {
+    const values = samples.map(sample => sample[metric]);
+    const total = values.reduce((sum, value) => sum + value, 0);
+    return {
+      min: Math.min(...values),
+      max: Math.max(...values),
+      avg: Math.round((total / values.length) * 100) / 100,
+    };
+  };
+
+  return {
+    timestamp,
+    samples: samples.length,
+    temperature: summary('temperature'),
+    feelsLike: summary('feelsLike'),
+    humidity: summary('humidity'),
+    pressure: summary('pressure'),
+    windSpeed: summary('windSpeed'),
+  };
+}
+
+function encodeCursor(value: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+// Goes to DynamoDB as ExclusiveStartKey, so it must be exactly a key of this subscription's history
+function decodeRawCursor(cursor: string, subscriptionId: string): Record<string, any> {
+  const key = decodeCursor(cursor);
+  const fields = Object.keys(key).sort();
+  if (fields.join(',') !== 'id,subscriptionId,timestamp' ||
+    !fields.every(field => typeof key[field] === 'string') ||
+    key.subscriptionId !== subscriptionId) {
+    throw new InvalidCursorError();
+  }
+  return key;
+}
+
+function decodeBucketCursor(cursor: string): string {
+  const { bucketStart } = decodeCursor(cursor);
+  if (typeof bucketStart !== 'string' || isNaN(Date.parse(bucketStart))) {
+    throw new InvalidCursorError();
+  }
+  return bucketStart;
+}
+
+function decodeCursor(cursor: string): Record<string, any> {
+  let value: unknown;
+  try {
+    value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError();
+  }
+
+  if (!value || typeof value !== 'object') {
+    throw new InvalidCursorError();
+  }
+  return value as Record<string, any>;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
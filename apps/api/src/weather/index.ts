@@ -1,12 +1,38 @@
-import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient, QueryCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { QueryCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { WeatherData, WeatherForecast, GetWeatherResponse } from './types.js';
+import {
+  UnitSystem,
+  DEFAULT_UNIT_SYSTEM,
+  UNIT_SYSTEMS,
+  isUnitSystem,
+  convertCurrentWeather,
+  convertForecast,
+  convertHistoryPoint,
+} from '@weather-app/shared';
+import {
+  WeatherData,
+  WeatherForecast,
+  GetWeatherResponse,
+  GetWeatherHistoryResponse,
+  HistoryInterval,
+  User,
+} from './types.js';
+import {
+  queryWeatherHistory,
+  InvalidCursorError,
+  HISTORY_INTERVALS,
+  DEFAULT_HISTORY_LIMIT,
+  MAX_HISTORY_LIMIT,
+  DEFAULT_HISTORY_RANGE_MS,
+} from './history.js';
+import { getIdentity, hasScope, canAccessSubscription } from '../lib/auth.js';
+import { checkRateLimit } from '../lib/rate-limit.js';
+import { errorBody, internalError, withRequestId } from '../lib/errors.js';
+import { docClient } from '../lib/dynamodb.js';
 
-const client = new DynamoDBClient({});
-const docClient = DynamoDBDocumentClient.from(client);
 const WEATHER_TABLE = process.env.WEATHER_DATA_TABLE!;
 const SUBSCRIPTIONS_TABLE = process.env.SUBSCRIPTIONS_TABLE!;
+const USERS_TABLE = process.env.USERS_TABLE!;
 
 const headers = {
   'Content-Type': 'application/json',
@@ -15,16 +41,37 @@ const headers = {
   'Access-Control-Allow-Methods': 'GET,OPTIONS',
 };
 
-export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> => {
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+  withRequestId(await handleRequest(event), event.requestContext?.requestId);
+
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
   console.log('Event:', JSON.stringify(event, null, 2));
 
   try {
-    const userId = event.requestContext.authorizer?.claims?.sub;
-    if (!userId) {
+    const identity = getIdentity(event);
+    if (!identity) {
       return {
         statusCode: 401,
         headers,
-        body: JSON.stringify({ message: 'Unauthorized' }),
+        body: JSON.stringify(errorBody('unauthorized', 'Unauthorized')),
+      };
+    }
+    const userId = identity.userId;
+
+    const rateLimit = await checkRateLimit(identity);
+    if (rateLimit.limited) {
+      return {
+        statusCode: 429,
+        headers: { ...headers, ...rateLimit.headers },
+        body: JSON.stringify(errorBody('rate_limited', 'Rate limit exceeded, retry after the time in Retry-After')),
+      };
+    }
+
+    if (!hasScope(identity, 'weather:read')) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('insufficient_scope', 'Token is missing the weather:read scope')),
       };
     }
 
@@ -33,7 +80,24 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return {
         statusCode: 400,
         headers,
-        body: JSON.stringify({ message: 'Subscription ID is required' }),
+        body: JSON.stringify(errorBody('bad_request', 'Subscription ID is required')),
+      };
+    }
+
+    if (!canAccessSubscription(identity, subscriptionId)) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('forbidden', 'Token is not allowed to access this subscription')),
+      };
+    }
+
+    const unitsParam = event.queryStringParameters?.units;
+    if (unitsParam !== undefined && !isUnitSystem(unitsParam)) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify(errorBody('bad_request', `Units must be one of: ${UNIT_SYSTEMS.join(', ')}`)),
       };
     }
 
@@ -47,7 +111,7 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return {
         statusCode: 404,
         headers,
-        body: JSON.stringify({ message: 'Subscription not found' }),
+        body: JSON.stringify(errorBody('not_found', 'Subscription not found')),
       };
     }
 
@@ -55,65 +119,163 @@ export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayPr
       return {
         statusCode: 403,
         headers,
-        body: JSON.stringify({ message: 'Forbidden' }),
+        body: JSON.stringify(errorBody('forbidden', 'Forbidden')),
       };
     }
 
-    // Get the latest weather data for this subscription
-    const weatherResult = await docClient.send(new QueryCommand({
-      TableName: WEATHER_TABLE,
-      IndexName: 'SubscriptionIdIndex',
-      KeyConditionExpression: 'subscriptionId = :subscriptionId',
-      ExpressionAttributeValues: {
-        ':subscriptionId': subscriptionId,
-      },
-      ScanIndexForward: false, // Sort descending by timestamp
-      Limit: 1,
-    }));
+    // An explicit ?units= wins over the user's saved preference
+    const units = unitsParam ?? await getPreferredUnits(userId);
 
-    if (!weatherResult.Items || weatherResult.Items.length === 0) {
-      return {
-        statusCode: 404,
-        headers,
-        body: JSON.stringify({ message: 'No weather data available yet' }),
-      };
+    if (event.resource === '/weather/{subscriptionId}/history') {
+      return await getWeatherHistory(event, subscriptionId, units);
     }
 
-    const weatherData = weatherResult.Items[0] as WeatherData & { forecast?: WeatherForecast[] };
-
-    const response: GetWeatherResponse = {
-      current: {
-        id: weatherData.id,
-        subscriptionId: weatherData.subscriptionId,
-        location: weatherData.location,
-        temperature: weatherData.temperature,
-        feelsLike: weatherData.feelsLike,
-        humidity: weatherData.humidity,
-        pressure: weatherData.pressure,
-        windSpeed: weatherData.windSpeed,
-        windDirection: weatherData.windDirection,
-        description: weatherData.description,
-        icon: weatherData.icon,
-        timestamp: weatherData.timestamp,
-        fetchedAt: weatherData.fetchedAt,
-      },
-      forecast: weatherData.forecast || [],
+    return await getCurrentWeather(subscriptionId, units);
+  } catch (error) {
+    console.error('Error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify(internalError()),
     };
+  }
+}
 
+async function getCurrentWeather(subscriptionId: string, units: UnitSystem): Promise<APIGatewayProxyResult> {
+  // Get the latest weather data for this subscription
+  const weatherResult = await docClient.send(new QueryCommand({
+    TableName: WEATHER_TABLE,
+    IndexName: 'SubscriptionIdIndex',
+    KeyConditionExpression: 'subscriptionId = :subscriptionId',
+    ExpressionAttributeValues: {
+      ':subscriptionId': subscriptionId,
+    },
+    ScanIndexForward: false, // Sort descending by timestamp
+    Limit: 1,
+  }));
+
+  if (!weatherResult.Items || weatherResult.Items.length === 0) {
     return {
-      statusCode: 200,
+      statusCode: 404,
       headers,
-      body: JSON.stringify(response),
+      body: JSON.stringify(errorBody('not_found', 'No weather data available yet')),
     };
-  } catch (error) {
-    console.error('Error:', error);
+  }
+
+  const weatherData = weatherResult.Items[0] as WeatherData & { forecast?: WeatherForecast[] };
+
+  const response: GetWeatherResponse = {
+    current: convertCurrentWeather({
+      id: weatherData.id,
+      subscriptionId: weatherData.subscriptionId,
+      location: weatherData.location,
+      temperature: weatherData.temperature,
+      feelsLike: weatherData.feelsLike,
+      humidity: weatherData.humidity,
+      pressure: weatherData.pressure,
+      windSpeed: weatherData.windSpeed,
+      windDirection: weatherData.windDirection,
+      description: weatherData.description,
+      icon: weatherData.icon,
+      timestamp: weatherData.timestamp,
+      fetchedAt: weatherData.fetchedAt,
+    }, units),
+    forecast: (weatherData.forecast || []).map(day => convertForecast(day, units)),
+    units,
+  };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+async function getWeatherHistory(
+  event: APIGatewayProxyEvent,
+  subscriptionId: string,
+  units: UnitSystem
+): Promise<APIGatewayProxyResult> {
+  const params = event.queryStringParameters || {};
+
+  const interval = (params.interval || 'raw') as HistoryInterval;
+  if (!HISTORY_INTERVALS.includes(interval)) {
     return {
-      statusCode: 500,
+      statusCode: 400,
       headers,
-      body: JSON.stringify({
-        message: 'Internal server error',
-        error: error instanceof Error ? error.message : 'Unknown error'
-      }),
+      body: JSON.stringify(errorBody('bad_request', `Interval must be one of: ${HISTORY_INTERVALS.join(', ')}`)),
     };
   }
-};
+
+  const to = params.to ? new Date(params.to) : new Date();
+  const from = params.from ? new Date(params.from) : new Date(to.getTime() - DEFAULT_HISTORY_RANGE_MS);
+  if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', 'from and to must be ISO 8601 timestamps')),
+    };
+  }
+
+  if (from > to) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', 'from must be before to')),
+    };
+  }
+
+  const limit = params.limit ? Number(params.limit) : DEFAULT_HISTORY_LIMIT;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('bad_request', `Limit must be between 1 and ${MAX_HISTORY_LIMIT}`)),
+    };
+  }
+
+  try {
+    const page = await queryWeatherHistory(docClient, {
+      subscriptionId,
+      interval,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      limit,
+      cursor: params.cursor,
+    });
+
+    const response: GetWeatherHistoryResponse = {
+      subscriptionId,
+      interval,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      points: page.points.map(point => convertHistoryPoint(point, units)),
+      nextCursor: page.nextCursor,
+      units,
+    };
+
+    return {
+      statusCode: 200,
+      headers,
+      body: JSON.stringify(response),
+    };
+  } catch (error) {
+    if (error instanceof InvalidCursorError) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify(errorBody('bad_request', error.message)),
+      };
+    }
+    throw error;
+  }
+}
+
+async function getPreferredUnits(userId: string): Promise<UnitSystem> {
+  const result = await docClient.send(new GetCommand({
+    TableName: USERS_TABLE,
+    Key: { id: userId },
+  }));
+
+  return (result.Item as User | undefined)?.units ?? DEFAULT_UNIT_SYSTEM;
+}
@@ -1,9 +1,26 @@
+import type { UnitSystem } from '@weather-app/shared';
+
 // User types
+export type NotificationChannel = 'email' | 'webhook';
+
+export type OnboardingStep = 'add-location' | 'choose-units' | 'configure-notifications';
+
+export interface OnboardingState {
+  completedSteps: OnboardingStep[];
+  completedAt?: string; // Set once every step is done or the user skips the rest
+}
+
 export interface User {
-  id: string;
+  id: string; // Cognito sub
   email: string;
   cognitoSub: string;
+  timezone: string; // IANA timezone, e.g. "Europe/London"
+  locale: string; // BCP 47 tag, e.g. "en-GB"
+  units: UnitSystem;
+  notificationChannels: NotificationChannel[];
+  onboarding: OnboardingState;
   createdAt: string;
+  updatedAt: string;
 }
 
 // Location subscription types
@@ -69,6 +86,36 @@ export interface GetSubscriptionsResponse {
 export interface GetWeatherResponse {
   current: WeatherData;
   forecast: WeatherForecast[];
+  units: UnitSystem;
+}
+
+// Weather history types
+export type HistoryInterval = 'raw' | 'hourly' | 'daily';
+
+export interface MetricSummary {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export interface WeatherHistoryPoint {
+  timestamp: string; // Observation time (raw) or bucket start (hourly/daily)
+  samples: number;
+  temperature: MetricSummary;
+  feelsLike: MetricSummary;
+  humidity: MetricSummary;
+  pressure: MetricSummary;
+  windSpeed: MetricSummary;
+}
+
+export interface GetWeatherHistoryResponse {
+  subscriptionId: string;
+  interval: HistoryInterval;
+  from: string;
+  to: string;
+  points: WeatherHistoryPoint[];
+  nextCursor?: string;
+  units: UnitSystem;
 }
 
 // OpenWeatherMap API types
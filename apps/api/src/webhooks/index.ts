@@ -0,0 +1,461 @@
+import { PutCommand, QueryCommand, DeleteCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { validateCreateWebhookRequest, validateUpdateWebhookRequest } from '@weather-app/shared';
+import {
+  CreateWebhookRequest,
+  CreateWebhookResponse,
+  UpdateWebhookRequest,
+  ListWebhooksResponse,
+  ListWebhookDeliveriesResponse,
+} from './types.js';
+import { checkWebhookUrl, Webhook, WebhookDelivery } from '../lib/webhooks.js';
+import { createWebhookQueue, WebhookQueue } from '../lib/webhook-queue.js';
+import { CallerIdentity, canAccessSubscription, getIdentity, hasScope } from '../lib/auth.js';
+import { checkRateLimit } from '../lib/rate-limit.js';
+import { FieldError, parseRequestBody, validationError } from '../lib/validation.js';
+import { errorBody, internalError, withRequestId } from '../lib/errors.js';
+import { docClient } from '../lib/dynamodb.js';
+
+const TABLE_NAME = process.env.WEBHOOKS_TABLE!;
+const DELIVERIES_TABLE = process.env.WEBHOOK_DELIVERIES_TABLE!;
+const SUBSCRIPTIONS_TABLE = process.env.SUBSCRIPTIONS_TABLE!;
+
+const headers = {
+  'Content-Type': 'application/json',
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type,X-Amz-Date,Authorization,X-Api-Key,X-Amz-Security-Token',
+  'Access-Control-Allow-Methods': 'GET,POST,PATCH,DELETE,OPTIONS',
+};
+
+const MAX_WEBHOOKS_PER_USER = 10;
+const DELIVERIES_PAGE_SIZE = 50;
+const SECRET_PREFIX = 'whsec_';
+
+let webhookQueue: WebhookQueue | undefined;
+
+export const handler = async (event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> =>
+  withRequestId(await handleRequest(event), event.requestContext?.requestId);
+
+async function handleRequest(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+  console.log('Event:', JSON.stringify(event, null, 2));
+
+  try {
+    const identity = getIdentity(event);
+    if (!identity) {
+      return {
+        statusCode: 401,
+        headers,
+        body: JSON.stringify(errorBody('unauthorized', 'Unauthorized')),
+      };
+    }
+
+    const rateLimit = await checkRateLimit(identity);
+    if (rateLimit.limited) {
+      return {
+        statusCode: 429,
+        headers: { ...headers, ...rateLimit.headers },
+        body: JSON.stringify(errorBody('rate_limited', 'Rate limit exceeded, retry after the time in Retry-After')),
+      };
+    }
+
+    if (!hasScope(identity, 'webhooks:manage')) {
+      return {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('insufficient_scope', 'Token is missing the webhooks:manage scope')),
+      };
+    }
+
+    const route = `${event.httpMethod} ${event.resource}`;
+
+    switch (route) {
+      case 'POST /webhooks':
+        return await createWebhook(event, identity);
+      case 'GET /webhooks':
+        return await listWebhooks(identity);
+      case 'PATCH /webhooks/{id}':
+        return await updateWebhook(event, identity);
+      case 'DELETE /webhooks/{id}':
+        return await deleteWebhook(event, identity);
+      case 'GET /webhooks/{id}/deliveries':
+        return await listDeliveries(event, identity);
+      case 'POST /webhooks/{id}/deliveries/{deliveryId}/redeliver':
+        return await redeliver(event, identity);
+      default:
+        return {
+          statusCode: 405,
+          headers,
+          body: JSON.stringify(errorBody('method_not_allowed', 'Method not allowed')),
+        };
+    }
+  } catch (error) {
+    console.error('Error:', error);
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify(internalError()),
+    };
+  }
+}
+
+async function createWebhook(event: APIGatewayProxyEvent, identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const userId = identity.userId;
+  const parsed = parseRequestBody(event.body, validateCreateWebhookRequest);
+  if ('error' in parsed) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(parsed.error),
+    };
+  }
+
+  const request: CreateWebhookRequest = parsed.request;
+
+  if (!canAccessWebhook(identity, request.subscriptionIds ?? [])) {
+    return pinnedTokenError();
+  }
+
+  const fieldErrors = [
+    ...await checkUrl(request.url),
+    ...await checkSubscriptionOwnership(request.subscriptionIds, userId),
+  ];
+  if (fieldErrors.length > 0) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(validationError(fieldErrors)),
+    };
+  }
+
+  const existing = await queryWebhooks(userId);
+  if (existing.length >= MAX_WEBHOOKS_PER_USER) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(errorBody('limit_exceeded', `You can register at most ${MAX_WEBHOOKS_PER_USER} webhooks`)),
+    };
+  }
+
+  const now = new Date().toISOString();
+  const webhook: Webhook = {
+    id: uuidv4(),
+    userId,
+    url: request.url,
+    description: request.description?.trim() || '',
+    subscriptionIds: request.subscriptionIds || [],
+    secret: `${SECRET_PREFIX}${randomBytes(32).toString('base64url')}`,
+    enabled: request.enabled ?? true,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: webhook,
+  }));
+
+  const { secret, ...webhookInfo } = webhook;
+  const response: CreateWebhookResponse = {
+    webhook: webhookInfo,
+    secret, // Only shown this once!
+  };
+
+  return {
+    statusCode: 201,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+async function listWebhooks(identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const webhooks = (await queryWebhooks(identity.userId))
+    .filter(webhook => canAccessWebhook(identity, webhook.subscriptionIds))
+    .map(({ secret, ...webhookInfo }) => webhookInfo);
+  const response: ListWebhooksResponse = { webhooks };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+async function updateWebhook(event: APIGatewayProxyEvent, identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const parsed = parseRequestBody(event.body, validateUpdateWebhookRequest);
+  if ('error' in parsed) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(parsed.error),
+    };
+  }
+
+  const request: UpdateWebhookRequest = parsed.request;
+
+  const lookup = await getOwnedWebhook(event.pathParameters?.id, identity);
+  if ('error' in lookup) {
+    return lookup.error;
+  }
+
+  if (request.subscriptionIds && !canAccessWebhook(identity, request.subscriptionIds)) {
+    return pinnedTokenError();
+  }
+
+  const fieldErrors = [
+    ...await checkUrl(request.url),
+    ...await checkSubscriptionOwnership(request.subscriptionIds, identity.userId),
+  ];
+  if (fieldErrors.length > 0) {
+    return {
+      statusCode: 400,
+      headers,
+      body: JSON.stringify(validationError(fieldErrors)),
+    };
+  }
+
+  const merged: CreateWebhookRequest = {
+    url: request.url ?? lookup.webhook.url,
+    description: request.description ?? lookup.webhook.description,
+    subscriptionIds: request.subscriptionIds ?? lookup.webhook.subscriptionIds,
+    enabled: request.enabled ?? lookup.webhook.enabled,
+  };
+
+  const webhook: Webhook = {
+    ...lookup.webhook,
+    url: merged.url,
+    description: merged.description?.trim() || '',
+    subscriptionIds: merged.subscriptionIds || [],
+    enabled: merged.enabled ?? true,
+    updatedAt: new Date().toISOString(),
+  };
+
+  await docClient.send(new PutCommand({
+    TableName: TABLE_NAME,
+    Item: webhook,
+  }));
+
+  const { secret, ...webhookInfo } = webhook;
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ webhook: webhookInfo }),
+  };
+}
+
+async function deleteWebhook(event: APIGatewayProxyEvent, identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const lookup = await getOwnedWebhook(event.pathParameters?.id, identity);
+  if ('error' in lookup) {
+    return lookup.error;
+  }
+
+  // Delivery log entries expire on their own via TTL
+  await docClient.send(new DeleteCommand({
+    TableName: TABLE_NAME,
+    Key: { id: lookup.webhook.id },
+  }));
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify({ message: 'Webhook deleted successfully' }),
+  };
+}
+
+async function listDeliveries(event: APIGatewayProxyEvent, identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const lookup = await getOwnedWebhook(event.pathParameters?.id, identity);
+  if ('error' in lookup) {
+    return lookup.error;
+  }
+
+  const result = await docClient.send(new QueryCommand({
+    TableName: DELIVERIES_TABLE,
+    IndexName: 'WebhookIdIndex',
+    KeyConditionExpression: 'webhookId = :webhookId',
+    ExpressionAttributeValues: {
+      ':webhookId': lookup.webhook.id,
+    },
+    ScanIndexForward: false, // Newest first
+    Limit: DELIVERIES_PAGE_SIZE,
+  }));
+
+  const response: ListWebhookDeliveriesResponse = {
+    deliveries: ((result.Items || []) as WebhookDelivery[]).filter(delivery => canAccessDelivery(identity, delivery)),
+  };
+
+  return {
+    statusCode: 200,
+    headers,
+    body: JSON.stringify(response),
+  };
+}
+
+async function redeliver(event: APIGatewayProxyEvent, identity: CallerIdentity): Promise<APIGatewayProxyResult> {
+  const lookup = await getOwnedWebhook(event.pathParameters?.id, identity);
+  if ('error' in lookup) {
+    return lookup.error;
+  }
+
+  const deliveryId = event.pathParameters?.deliveryId;
+  const result = deliveryId
+    ? await docClient.send(new GetCommand({
+      TableName: DELIVERIES_TABLE,
+      Key: { id: deliveryId },
+    }))
+    : undefined;
+
+  const original = result?.Item as WebhookDelivery | undefined;
+  if (!original || original.webhookId !== lookup.webhook.id || !canAccessDelivery(identity, original)) {
+    return {
+      statusCode: 404,
+      headers,
+      body: JSON.stringify(errorBody('not_found', 'Delivery not found')),
+    };
+  }
+
+  if (!lookup.webhook.enabled) {
+    return {
+      statusCode: 409,
+      headers,
+      body: JSON.stringify(errorBody('conflict', 'Webhook is disabled')),
+    };
+  }
+
+  // Resend the exact original payload, signed with a fresh timestamp. Delivery can outlast the API
+  // Gateway timeout, so it is queued and the new delivery appears in the log once it finishes.
+  const redeliveryId = uuidv4();
+  webhookQueue ??= createWebhookQueue();
+  await webhookQueue.enqueue([{
+    deliveryId: redeliveryId,
+    webhookId: lookup.webhook.id,
+    event: original.event,
+    subscriptionId: original.subscriptionId,
+    payload: original.payload,
+    redeliveryOf: original.id,
+  }]);
+
+  return {
+    statusCode: 202,
+    headers,
+    body: JSON.stringify({ deliveryId: redeliveryId }),
+  };
+}
+
+async function getOwnedWebhook(
+  webhookId: string | undefined,
+  identity: CallerIdentity
+): Promise<{ webhook: Webhook } | { error: APIGatewayProxyResult }> {
+  if (!webhookId) {
+    return {
+      error: {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify(errorBody('bad_request', 'Webhook ID is required')),
+      },
+    };
+  }
+
+  const result = await docClient.send(new GetCommand({
+    TableName: TABLE_NAME,
+    Key: { id: webhookId },
+  }));
+
+  if (!result.Item) {
+    return {
+      error: {
+        statusCode: 404,
+        headers,
+        body: JSON.stringify(errorBody('not_found', 'Webhook not found')),
+      },
+    };
+  }
+
+  if (result.Item.userId !== identity.userId) {
+    return {
+      error: {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('forbidden', 'Forbidden')),
+      },
+    };
+  }
+
+  const webhook = result.Item as Webhook;
+  if (!canAccessWebhook(identity, webhook.subscriptionIds)) {
+    return {
+      error: {
+        statusCode: 403,
+        headers,
+        body: JSON.stringify(errorBody('forbidden', 'Token is not allowed to access this webhook')),
+      },
+    };
+  }
+
+  return { webhook };
+}
+
+// A token pinned to some subscriptions only reaches webhooks limited to a subset of them. A webhook
+// with no subscriptionIds covers every subscription and gets account events, so it is out of reach.
+function canAccessWebhook(identity: CallerIdentity, subscriptionIds: string[]): boolean {
+  return !identity.subscriptionIds ||
+    (subscriptionIds.length > 0 && subscriptionIds.every(id => canAccessSubscription(identity, id)));
+}
+
+// Deliveries without a subscription, such as token.expiring, are hidden from pinned tokens
+function canAccessDelivery(identity: CallerIdentity, delivery: WebhookDelivery): boolean {
+  return !identity.subscriptionIds ||
+    (delivery.subscriptionId !== undefined && canAccessSubscription(identity, delivery.subscriptionId));
+}
+
+function pinnedTokenError(): APIGatewayProxyResult {
+  return {
+    statusCode: 403,
+    headers,
+    body: JSON.stringify(errorBody(
+      'forbidden',
+      'This token is limited to specific subscriptions, so webhooks must be limited to a subset of them'
+    )),
+  };
+}
+
+async function queryWebhooks(userId: string): Promise<Webhook[]> {
+  const result = await docClient.send(new QueryCommand({
+    TableName: TABLE_NAME,
+    IndexName: 'UserIdIndex',
+    KeyConditionExpression: 'userId = :userId',
+    ExpressionAttributeValues: {
+      ':userId': userId,
+    },
+  }));
+
+  return (result.Items || []) as Webhook[];
+}
+
+// Resolves the host, so it can't run in the shared validator
+async function checkUrl(url: string | undefined): Promise<FieldError[]> {
+  if (url === undefined) {
+    return [];
+  }
+
+  const message = await checkWebhookUrl(url);
+  return message ? [{ field: 'url', message }] : [];
+}
+
+// Only allow the caller's own subscriptions
+async function checkSubscriptionOwnership(subscriptionIds: string[] | undefined, userId: string): Promise<FieldError[]> {
+  if (!subscriptionIds?.length) {
+    return [];
+  }
+
+  const subscriptions = await Promise.all(subscriptionIds.map(id => docClient.send(new GetCommand({
+    TableName: SUBSCRIPTIONS_TABLE,
+    Key: { id },
+  }))));
+  if (subscriptions.some(result => !result.Item || result.Item.userId !== userId)) {
+    return [{ field: 'subscriptionIds', message: 'One or more subscriptions were not found' }];
+  }
+
+  return [];
+}
@@ -0,0 +1,78 @@
+import { Webhook, WebhookDelivery, WebhookEvent } from '../lib/webhooks.js';
+
+// Location subscription types
+export interface LocationSubscription {
+  id: string;
+  userId: string;
+  location: string;
+  latitude: number;
+  longitude: number;
+  city: string;
+  country: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Weather data types
+export interface WeatherData {
+  id: string;
+  subscriptionId: string;
+  location: string;
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+  windDirection: number;
+  description: string;
+  icon: string;
+  timestamp: string;
+  fetchedAt: string;
+}
+
+export interface WeatherForecast {
+  date: string;
+  tempMin: number;
+  tempMax: number;
+  description: string;
+  icon: string;
+  precipitation: number;
+}
+
+export interface DetailedWeather extends WeatherData {
+  forecast: WeatherForecast[];
+}
+
+export interface WeatherUpdatedPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: {
+    subscription: Pick<LocationSubscription, 'id' | 'location' | 'latitude' | 'longitude' | 'city' | 'country'>;
+    current: WeatherData;
+    forecast: WeatherForecast[];
+  };
+}
+
+// API request/response types
+export interface CreateWebhookRequest {
+  url: string;
+  description?: string;
+  subscriptionIds?: string[];
+  enabled?: boolean;
+}
+
+export type UpdateWebhookRequest = Partial<CreateWebhookRequest>;
+
+export interface CreateWebhookResponse {
+  webhook: Omit<Webhook, 'secret'>;
+  secret: string; // Signing secret - only shown once!
+}
+
+export interface ListWebhooksResponse {
+  webhooks: Omit<Webhook, 'secret'>[];
+}
+
+export interface ListWebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/auth-context';
+import { apiClient } from '@/lib/api-client';
+import type { ActivityEntry, ActivityType } from '@weather-app/shared';
+
+const ACTIVITY_LABELS: Record<ActivityType, string> = {
+  'user.signed_in': 'Signed in',
+  'token.created': 'API token created',
+  'token.revoked': 'API token revoked',
+  'token.rotated': 'API token rotated',
+  'token.extended': 'API token extended',
+  'token.used_from_new_ip': 'API token used from a new IP address',
+  'subscription.created': 'Location added',
+  'subscription.updated': 'Location updated',
+  'subscription.deleted': 'Location deleted',
+};
+
+function describeTarget(entry: ActivityEntry): string | null {
+  if (entry.details?.name) {
+    return entry.details.name;
+  }
+  if (entry.details?.location) {
+    return entry.details.location;
+  }
+  return null;
+}
+
+export default function ActivityPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [activity, setActivity] = useState<ActivityEntry[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | undefined>();
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    if (user) {
+      loadActivity();
+    }
+  }, [user]);
+
+  async function loadActivity(cursor?: string) {
+    try {
+      setError('');
+      const page = await apiClient.listActivity({ cursor });
+      setActivity(current => (cursor ? [...current, ...page.activity] : page.activity));
+      setNextCursor(page.nextCursor);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load activity');
+    } finally {
+      setLoading(false);
+      setLoadingMore(false);
+    }
+  }
+
+  function handleLoadMore() {
+    setLoadingMore(true);
+    loadActivity(nextCursor);
+  }
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Activity</h1>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {error && (
+          <div className="mb-6 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md">
+            {error}
+          </div>
+        )}
+
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-6">
+          Sign-ins, API token changes and location changes on your account from the last year
+        </p>
+
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          {activity.length === 0 ? (
+            <div className="text-center py-12">
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white">No activity yet</h3>
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {activity.map((entry) => {
+                const target = describeTarget(entry);
+                return (
+                  <li key={entry.id} className="px-6 py-4">
+                    <div className="flex justify-between items-start gap-4">
+                      <div>
+                        <p className="text-sm font-medium text-gray-900 dark:text-white">
+                          {ACTIVITY_LABELS[entry.type] ?? entry.type}
+                          {target && <span className="font-normal text-gray-600 dark:text-gray-400"> · {target}</span>}
+                        </p>
+                        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          {entry.authType === 'apikey' ? 'Via API token' : 'Signed-in session'}
+                          {entry.ip && <> · <span className="font-mono">{entry.ip}</span></>}
+                          {entry.userAgent && <> · {entry.userAgent}</>}
+                        </p>
+                      </div>
+                      <time
+                        dateTime={entry.createdAt}
+                        className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap"
+                      >
+                        {new Date(entry.createdAt).toLocaleString()}
+                      </time>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {nextCursor && (
+          <div className="mt-6 text-center">
+            <button
+              onClick={handleLoadMore}
+              disabled={loadingMore}
+              className="px-4 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load more'}
+            </button>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -3,19 +3,36 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
-import { apiClient } from '@/lib/api-client';
-import type { LocationSubscription, GetWeatherResponse } from '@weather-app/shared';
+import { apiClient, getAllSubscriptions } from '@/lib/api-client';
+import type {
+  LocationSubscription,
+  GetWeatherResponse,
+  AlertRule,
+  UnitSystem,
+  User,
+  UpdateUserRequest,
+} from '@weather-app/shared';
+import { DEFAULT_UNIT_SYSTEM, UNIT_LABELS, UNIT_SYSTEMS } from '@weather-app/shared';
 import { AddSubscriptionModal } from '@/components/AddSubscriptionModal';
 import { WeatherCard } from '@/components/WeatherCard';
+import { DigestSettingsModal } from '@/components/DigestSettingsModal';
+import { EditSubscriptionModal } from '@/components/EditSubscriptionModal';
+import { OnboardingBanner } from '@/components/OnboardingBanner';
 
 export default function DashboardPage() {
-  const { user, loading: authLoading, signOut, getIdToken } = useAuth();
+  const { user, loading: authLoading, signOut } = useAuth();
   const router = useRouter();
   const [subscriptions, setSubscriptions] = useState<LocationSubscription[]>([]);
   const [weather, setWeather] = useState<Map<string, GetWeatherResponse>>(new Map());
+  const [alerts, setAlerts] = useState<Map<string, AlertRule[]>>(new Map());
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showDigestModal, setShowDigestModal] = useState(false);
+  const [editingSubscription, setEditingSubscription] = useState<LocationSubscription | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [profile, setProfile] = useState<User | null>(null);
+  const units = profile?.units ?? DEFAULT_UNIT_SYSTEM;
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -32,19 +49,18 @@ export default function DashboardPage() {
   async function loadSubscriptions() {
     try {
       setError('');
-      const token = await getIdToken();
 
-      if (!token) {
-        throw new Error('Not authenticated');
-      }
-
-      const subs = await apiClient.getSubscriptions(token);
+      const [subs, { user: me }] = await Promise.all([
+        getAllSubscriptions(),
+        apiClient.getMe(),
+      ]);
       setSubscriptions(subs);
+      setProfile(me);
 
       // Load weather for each subscription
       const weatherPromises = subs.map(async (sub) => {
         try {
-          const weatherData = await apiClient.getWeather(sub.id, token);
+          const weatherData = await apiClient.getWeather(sub.id);
           return [sub.id, weatherData] as const;
         } catch (err) {
           console.error(`Failed to load weather for ${sub.location}:`, err);
@@ -52,11 +68,28 @@ export default function DashboardPage() {
         }
       });
 
-      const weatherResults = await Promise.all(weatherPromises);
+      // Load alert rules for each subscription
+      const alertPromises = subs.map(async (sub) => {
+        try {
+          const { alerts: alertRules } = await apiClient.listAlertRules(sub.id);
+          return [sub.id, alertRules] as const;
+        } catch (err) {
+          console.error(`Failed to load alerts for ${sub.location}:`, err);
+          return null;
+        }
+      });
+
+      const [weatherResults, alertResults] = await Promise.all([
+        Promise.all(weatherPromises),
+        Promise.all(alertPromises),
+      ]);
       const weatherMap = new Map(
         weatherResults.filter((r): r is [string, GetWeatherResponse] => r !== null)
       );
       setWeather(weatherMap);
+      setAlerts(new Map(
+        alertResults.filter((r): r is [string, AlertRule[]] => r !== null)
+      ));
     } catch (err: any) {
       setError(err.message || 'Failed to load subscriptions');
     } finally {
@@ -70,10 +103,7 @@ export default function DashboardPage() {
     }
 
     try {
-      const token = await getIdToken();
-      if (!token) return;
-
-      await apiClient.deleteSubscription(id, token);
+      await apiClient.deleteSubscription(id);
       setSubscriptions(subs => subs.filter(s => s.id !== id));
       setWeather(w => {
         const newWeather = new Map(w);
@@ -85,6 +115,66 @@ export default function DashboardPage() {
     }
   }
 
+  async function handleSubscriptionUpdated(updated: LocationSubscription, coordinatesChanged: boolean) {
+    setEditingSubscription(null);
+    setSubscriptions(subs => subs.map(s => (s.id === updated.id ? updated : s)));
+
+    if (!coordinatesChanged) return;
+
+    try {
+      const weatherData = await apiClient.getWeather(updated.id);
+      setWeather(w => new Map(w).set(updated.id, weatherData));
+    } catch (err) {
+      console.error(`Failed to load weather for ${updated.location}:`, err);
+    }
+  }
+
+  async function handleDrop(targetId: string) {
+    const sourceId = draggedId;
+    setDraggedId(null);
+
+    if (!sourceId || sourceId === targetId) return;
+
+    const reordered = [...subscriptions];
+    const from = reordered.findIndex(s => s.id === sourceId);
+    const to = reordered.findIndex(s => s.id === targetId);
+    reordered.splice(to, 0, ...reordered.splice(from, 1));
+
+    const changed = reordered
+      .map((sub, index) => ({ ...sub, sortOrder: index }))
+      .filter((sub, index) => reordered[index].sortOrder !== sub.sortOrder);
+    setSubscriptions(reordered.map((sub, index) => ({ ...sub, sortOrder: index })));
+
+    try {
+      await Promise.all(
+        changed.map(sub => apiClient.updateSubscription(sub.id, { sortOrder: sub.sortOrder }))
+      );
+    } catch (err: any) {
+      alert(err.message || 'Failed to save order');
+      loadSubscriptions();
+    }
+  }
+
+  async function handleUnitsChange(next: UnitSystem) {
+    try {
+      const { user: updated } = await apiClient.updateMe({ units: next, onboarding: { completedSteps: ['choose-units'] } });
+      setProfile(updated);
+      // Weather comes back converted, so refetch it in the new units
+      await loadSubscriptions();
+    } catch (err: any) {
+      alert(err.message || 'Failed to save units');
+    }
+  }
+
+  async function updateOnboarding(onboarding: UpdateUserRequest['onboarding']) {
+    try {
+      const { user: updated } = await apiClient.updateMe({ onboarding });
+      setProfile(updated);
+    } catch (err) {
+      console.error('Failed to update onboarding:', err);
+    }
+  }
+
   async function handleSignOut() {
     await signOut();
     router.push('/login');
@@ -108,6 +198,36 @@ export default function DashboardPage() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Weather Dashboard</h1>
           <div className="flex gap-4 items-center">
+            <select
+              value={units}
+              onChange={(e) => handleUnitsChange(e.target.value as UnitSystem)}
+              className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+              title="Units"
+            >
+              {UNIT_SYSTEMS.map((system) => (
+                <option key={system} value={system}>
+                  {UNIT_LABELS[system].temperature}, {UNIT_LABELS[system].windSpeed}, {UNIT_LABELS[system].pressure}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowDigestModal(true)}
+              className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+            >
+              Email Digest
+            </button>
+            <button
+              onClick={() => router.push('/dashboard/settings')}
+              className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+            >
+              Settings
+            </button>
+            <button
+              onClick={() => router.push('/dashboard/activity')}
+              className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+            >
+              Activity
+            </button>
             <button
               onClick={() => router.push('/dashboard/tokens')}
               className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
@@ -132,6 +252,15 @@ export default function DashboardPage() {
           </div>
         )}
 
+        {profile && !profile.onboarding.completedAt && (
+          <OnboardingBanner
+            onboarding={profile.onboarding}
+            onAddLocation={() => setShowAddModal(true)}
+            onOpenSettings={() => router.push('/dashboard/settings')}
+            onSkip={() => updateOnboarding({ skip: true })}
+          />
+        )}
+
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
             Your Locations ({subscriptions.length})
@@ -167,12 +296,23 @@ export default function DashboardPage() {
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
             {subscriptions.map((sub) => (
-              <WeatherCard
+              <div
                 key={sub.id}
-                subscription={sub}
-                weather={weather.get(sub.id)}
-                onDelete={() => handleDeleteSubscription(sub.id)}
-              />
+                draggable
+                onDragStart={() => setDraggedId(sub.id)}
+                onDragEnd={() => setDraggedId(null)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(sub.id)}
+                className={`cursor-move ${draggedId === sub.id ? 'opacity-50' : ''}`}
+              >
+                <WeatherCard
+                  subscription={sub}
+                  weather={weather.get(sub.id)}
+                  alerts={alerts.get(sub.id)}
+                  onEdit={() => setEditingSubscription(sub)}
+                  onDelete={() => handleDeleteSubscription(sub.id)}
+                />
+              </div>
             ))}
           </div>
         )}
@@ -184,9 +324,24 @@ export default function DashboardPage() {
           onSuccess={() => {
             setShowAddModal(false);
             loadSubscriptions();
+            if (profile && !profile.onboarding.completedSteps.includes('add-location')) {
+              updateOnboarding({ completedSteps: ['add-location'] });
+            }
           }}
         />
       )}
+
+      {editingSubscription && (
+        <EditSubscriptionModal
+          subscription={editingSubscription}
+          onClose={() => setEditingSubscription(null)}
+          onSuccess={handleSubscriptionUpdated}
+        />
+      )}
+
+      {showDigestModal && (
+        <DigestSettingsModal onClose={() => setShowDigestModal(false)} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/lib/auth-context';
+import { apiClient } from '@/lib/api-client';
+import type { NotificationChannel, UnitSystem, User } from '@weather-app/shared';
+import { UNIT_LABELS, UNIT_SYSTEMS } from '@weather-app/shared';
+
+const NOTIFICATION_CHANNELS: { value: NotificationChannel; label: string; description: string }[] = [
+  { value: 'email', label: 'Email', description: 'Sent to your account email address' },
+  { value: 'webhook', label: 'Webhooks', description: 'Delivered to your enabled webhook endpoints' },
+];
+
+export default function SettingsPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [profile, setProfile] = useState<User | null>(null);
+  const [timezone, setTimezone] = useState('');
+  const [locale, setLocale] = useState('');
+  const [units, setUnits] = useState<UnitSystem>('metric');
+  const [channels, setChannels] = useState<NotificationChannel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+    }
+  }, [user, authLoading, router]);
+
+  useEffect(() => {
+    if (user) {
+      loadProfile();
+    }
+  }, [user]);
+
+  async function loadProfile() {
+    try {
+      setError('');
+      const { user: me } = await apiClient.getMe();
+      setProfile(me);
+      setTimezone(me.timezone);
+      setLocale(me.locale);
+      setUnits(me.units);
+      setChannels(me.notificationChannels);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load settings');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleChannel(channel: NotificationChannel) {
+    setChannels(current =>
+      current.includes(channel) ? current.filter(c => c !== channel) : [...current, channel]
+    );
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaved(false);
+    setSaving(true);
+
+    try {
+      const { user: updated } = await apiClient.updateMe({
+        timezone: timezone.trim(),
+        locale: locale.trim(),
+        units,
+        notificationChannels: channels,
+        onboarding: { completedSteps: ['choose-units', 'configure-notifications'] },
+      });
+      setProfile(updated);
+      setSaved(true);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save settings');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+          <p className="mt-4 text-gray-600">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 shadow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex justify-between items-center">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Settings</h1>
+          <button
+            onClick={() => router.push('/dashboard')}
+            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-6">
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          {saved && (
+            <div className="bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-green-700 dark:text-green-300 px-4 py-3 rounded-md text-sm">
+              Settings saved
+            </div>
+          )}
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Email
+            </span>
+            <p className="text-sm text-gray-900 dark:text-white">{profile?.email || user?.signInDetails?.loginId}</p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Timezone
+            </label>
+            <input
+              type="text"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              required
+              className={inputClassName}
+              placeholder="Europe/London"
+            />
+            <button
+              type="button"
+              onClick={() => setTimezone(Intl.DateTimeFormat().resolvedOptions().timeZone)}
+              className="mt-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Use this browser&apos;s timezone
+            </button>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Locale
+            </label>
+            <input
+              type="text"
+              value={locale}
+              onChange={(e) => setLocale(e.target.value)}
+              required
+              className={inputClassName}
+              placeholder="en-GB"
+            />
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Units
+            </span>
+            <div className="flex gap-6">
+              {UNIT_SYSTEMS.map((system) => (
+                <label key={system} className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+                  <input
+                    type="radio"
+                    name="units"
+                    value={system}
+                    checked={units === system}
+                    onChange={() => setUnits(system)}
+                  />
+                  <span className="capitalize">{system}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    ({UNIT_LABELS[system].temperature}, {UNIT_LABELS[system].windSpeed}, {UNIT_LABELS[system].pressure})
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Default notification channels
+            </span>
+            <div className="space-y-2">
+              {NOTIFICATION_CHANNELS.map(({ value, label, description }) => (
+                <label key={value} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={channels.includes(value)}
+                    onChange={() => toggleChannel(value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="text-gray-900 dark:text-white">{label}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="pt-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 text-white font-medium px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save Settings'}
+            </button>
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+}
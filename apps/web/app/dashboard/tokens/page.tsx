@@ -3,17 +3,53 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/lib/auth-context';
-import { apiClient } from '@/lib/api-client';
-import type { ApiToken, CreateTokenRequest } from '@weather-app/shared';
+import { apiClient, getAllSubscriptions, getAllTokens } from '@/lib/api-client';
+import { TokenUsageChart } from '@/components/TokenUsageChart';
+import type {
+  ApiToken,
+  CreateTokenRequest,
+  GetTokenUsageResponse,
+  LocationSubscription,
+  TokenScope,
+} from '@weather-app/shared';
+import { fieldErrorMap, validateCreateTokenRequest } from '@weather-app/shared';
+
+const TOKEN_SCOPES: { value: TokenScope; label: string; description: string }[] = [
+  { value: 'subscriptions:read', label: 'Read subscriptions', description: 'List and view your saved locations' },
+  { value: 'subscriptions:write', label: 'Write subscriptions', description: 'Add, edit and delete locations and alert rules' },
+  { value: 'weather:read', label: 'Read weather', description: 'Current weather, forecasts, history and place search' },
+  { value: 'webhooks:manage', label: 'Manage webhooks', description: 'Create, edit and delete webhook endpoints' },
+  { value: 'account:manage', label: 'Manage account', description: 'Profile, preferences and digest settings' },
+  { value: 'tokens:manage', label: 'Manage tokens', description: 'Create and revoke API tokens' },
+];
+
+const DEFAULT_SCOPES: TokenScope[] = ['subscriptions:read', 'weather:read'];
+
+// Matches the first expiry warning the owner is sent
+const EXPIRING_SOON_DAYS = 14;
+
+// Whole days left for tokens expiring within EXPIRING_SOON_DAYS, otherwise null
+function daysUntilExpiry(token: Omit<ApiToken, 'tokenHash'>): number | null {
+  if (token.revoked || !token.expiresAt) {
+    return null;
+  }
+
+  const daysLeft = Math.ceil((token.expiresAt * 1000 - Date.now()) / (24 * 60 * 60 * 1000));
+  return daysLeft > 0 && daysLeft <= EXPIRING_SOON_DAYS ? daysLeft : null;
+}
 
 export default function TokensPage() {
-  const { user, loading: authLoading, getIdToken } = useAuth();
+  const { user, loading: authLoading } = useAuth();
   const router = useRouter();
   const [tokens, setTokens] = useState<Omit<ApiToken, 'tokenHash'>[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [newToken, setNewToken] = useState<string | null>(null);
+  const [subscriptions, setSubscriptions] = useState<LocationSubscription[]>([]);
+  const [usageToken, setUsageToken] = useState<Omit<ApiToken, 'tokenHash'> | null>(null);
+  const [usage, setUsage] = useState<GetTokenUsageResponse | null>(null);
+  const [rotatingToken, setRotatingToken] = useState<Omit<ApiToken, 'tokenHash'> | null>(null);
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -30,11 +66,12 @@ export default function TokensPage() {
   async function loadTokens() {
     try {
       setError('');
-      const idToken = await getIdToken();
-      if (!idToken) throw new Error('Not authenticated');
-
-      const tokensList = await apiClient.listTokens(idToken);
+      const [tokensList, subscriptionsList] = await Promise.all([
+        getAllTokens(),
+        getAllSubscriptions(),
+      ]);
       setTokens(tokensList);
+      setSubscriptions(subscriptionsList);
     } catch (err: any) {
       setError(err.message || 'Failed to load tokens');
     } finally {
@@ -44,10 +81,7 @@ export default function TokensPage() {
 
   async function handleCreateToken(data: CreateTokenRequest) {
     try {
-      const idToken = await getIdToken();
-      if (!idToken) return;
-
-      const response = await apiClient.createToken(data, idToken);
+      const response = await apiClient.createToken(data);
       setNewToken(response.token);
       setTokens([response.tokenInfo, ...tokens]);
       setShowCreateModal(false);
@@ -62,16 +96,48 @@ export default function TokensPage() {
     }
 
     try {
-      const idToken = await getIdToken();
-      if (!idToken) return;
-
-      await apiClient.revokeToken(tokenId, idToken);
+      await apiClient.revokeToken(tokenId);
       setTokens(tokens.filter(t => t.id !== tokenId));
     } catch (err: any) {
       alert(err.message || 'Failed to revoke token');
     }
   }
 
+  async function handleRotateToken(tokenId: string, gracePeriodHours: number) {
+    try {
+      const response = await apiClient.rotateToken(tokenId, { gracePeriodHours });
+      setNewToken(response.token);
+      setTokens(tokens.map(t => (t.id === tokenId ? response.tokenInfo : t)));
+      setRotatingToken(null);
+    } catch (err: any) {
+      alert(err.message || 'Failed to rotate token');
+    }
+  }
+
+  async function handleExtendToken(tokenId: string) {
+    try {
+      const response = await apiClient.extendToken(tokenId);
+      setTokens(tokens.map(t => (t.id === tokenId ? response.tokenInfo : t)));
+    } catch (err: any) {
+      alert(err.message || 'Failed to extend token');
+    }
+  }
+
+  async function handleShowUsage(token: Omit<ApiToken, 'tokenHash'>) {
+    try {
+      const tokenUsage = await apiClient.getTokenUsage(token.id);
+      setUsageToken(token);
+      setUsage(tokenUsage);
+    } catch (err: any) {
+      alert(err.message || 'Failed to load token usage');
+    }
+  }
+
+  function closeUsage() {
+    setUsageToken(null);
+    setUsage(null);
+  }
+
   function copyToClipboard(text: string) {
     navigator.clipboard.writeText(text);
     alert('Token copied to clipboard!');
@@ -157,6 +223,10 @@ export default function TokensPage() {
           </button>
         </div>
 
+        {usageToken && usage && (
+          <TokenUsageChart tokenName={usageToken.name} usage={usage} onClose={closeUsage} />
+        )}
+
         {/* Tokens List */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
           {tokens.length === 0 ? (
@@ -189,9 +259,15 @@ export default function TokensPage() {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Token
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Scopes
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Created
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Last Used
+                  </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Expires
                   </th>
@@ -204,47 +280,108 @@ export default function TokensPage() {
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
-                {tokens.map((token) => (
-                  <tr key={token.id}>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
-                      {token.name}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      <code className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded font-mono">
-                        {token.prefix}...
-                      </code>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {new Date(token.createdAt).toLocaleDateString()}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                      {token.expiresAt
-                        ? new Date(token.expiresAt * 1000).toLocaleDateString()
-                        : 'Never'}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      {token.revoked ? (
-                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400">
-                          Revoked
-                        </span>
-                      ) : (
-                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400">
-                          Active
-                        </span>
-                      )}
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
-                      {!token.revoked && (
+                {tokens.map((token) => {
+                  const daysLeft = daysUntilExpiry(token);
+                  return (
+                    <tr key={token.id}>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900 dark:text-white">
+                        {token.name}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        <code className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded font-mono">
+                          {token.prefix}...
+                        </code>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+                        <div className="flex flex-wrap gap-1">
+                          {(token.scopes ?? DEFAULT_SCOPES).map((scope) => (
+                            <span
+                              key={scope}
+                              className="px-2 py-0.5 text-xs rounded bg-blue-50 text-blue-700 dark:bg-blue-900/20 dark:text-blue-300 font-mono"
+                            >
+                              {scope}
+                            </span>
+                          ))}
+                        </div>
+                        {token.rateLimitPerMinute && (
+                          <p className="mt-1 text-xs">
+                            {token.rateLimitPerMinute}/min, {token.dailyQuota}/day
+                          </p>
+                        )}
+                        {token.subscriptionIds && (
+                          <p className="mt-1 text-xs">
+                            Limited to {token.subscriptionIds.length} location{token.subscriptionIds.length === 1 ? '' : 's'}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {new Date(token.createdAt).toLocaleDateString()}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleDateString() : 'Never'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
+                        {token.expiresAt
+                          ? new Date(token.expiresAt * 1000).toLocaleDateString()
+                          : 'Never'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        {token.revoked ? (
+                          <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400">
+                            Revoked
+                          </span>
+                        ) : (
+                          <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400">
+                            Active
+                          </span>
+                        )}
+                        {daysLeft !== null && (
+                          <span className="ml-1 px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-400">
+                            Expires in {daysLeft} day{daysLeft === 1 ? '' : 's'}
+                          </span>
+                        )}
+                        {!token.revoked && token.previousTokenExpiresAt && token.previousTokenExpiresAt * 1000 > Date.now() && (
+                          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                            Old secret valid until {new Date(token.previousTokenExpiresAt * 1000).toLocaleString()}
+                          </p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-4">
                         <button
-                          onClick={() => handleRevokeToken(token.id)}
-                          className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                          onClick={() => handleShowUsage(token)}
+                          className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
                         >
-                          Revoke
+                          Usage
                         </button>
-                      )}
-                    </td>
-                  </tr>
-                ))}
+                        {daysLeft !== null && (
+                          <button
+                            onClick={() => handleExtendToken(token.id)}
+                            title="Renew the expiry without changing the secret"
+                            className="text-amber-600 hover:text-amber-900 dark:text-amber-400 dark:hover:text-amber-300"
+                          >
+                            Extend
+                          </button>
+                        )}
+                        {!token.revoked && (
+                          <button
+                            onClick={() => setRotatingToken(token)}
+                            className="text-blue-600 hover:text-blue-900 dark:text-blue-400 dark:hover:text-blue-300"
+                          >
+                            Rotate
+                          </button>
+                        )}
+                        {!token.revoked && (
+                          <button
+                            onClick={() => handleRevokeToken(token.id)}
+                            className="text-red-600 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+                          >
+                            Revoke
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
               </tbody>
             </table>
           )}
@@ -254,29 +391,79 @@ export default function TokensPage() {
       {/* Create Token Modal */}
       {showCreateModal && (
         <CreateTokenModal
+          subscriptions={subscriptions}
           onClose={() => setShowCreateModal(false)}
           onCreate={handleCreateToken}
         />
       )}
+
+      {/* Rotate Token Modal */}
+      {rotatingToken && (
+        <RotateTokenModal
+          token={rotatingToken}
+          onClose={() => setRotatingToken(null)}
+          onRotate={(gracePeriodHours) => handleRotateToken(rotatingToken.id, gracePeriodHours)}
+        />
+      )}
     </div>
   );
 }
 
 function CreateTokenModal({
+  subscriptions,
   onClose,
   onCreate,
 }: {
+  subscriptions: LocationSubscription[];
   onClose: () => void;
   onCreate: (data: CreateTokenRequest) => void;
 }) {
   const [name, setName] = useState('');
   const [expiresInDays, setExpiresInDays] = useState<number | undefined>(90);
+  const [scopes, setScopes] = useState<TokenScope[]>(DEFAULT_SCOPES);
+  const [limitSubscriptions, setLimitSubscriptions] = useState(false);
+  const [subscriptionIds, setSubscriptionIds] = useState<string[]>([]);
+  const [rateLimitPerMinute, setRateLimitPerMinute] = useState('');
+  const [dailyQuota, setDailyQuota] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  function toggleScope(scope: TokenScope) {
+    setScopes(current =>
+      current.includes(scope) ? current.filter(s => s !== scope) : [...current, scope]
+    );
+  }
+
+  function toggleSubscription(id: string) {
+    setSubscriptionIds(current =>
+      current.includes(id) ? current.filter(s => s !== id) : [...current, id]
+    );
+  }
 
   function handleSubmit(e: React.FormEvent) {
     e.preventDefault();
-    onCreate({ name, expiresInDays });
+
+    // Same checks as the API; the account's own limits are only checked there
+    const validation = validateCreateTokenRequest({
+      name,
+      expiresInDays,
+      scopes,
+      subscriptionIds: limitSubscriptions ? subscriptionIds : undefined,
+      rateLimitPerMinute: rateLimitPerMinute ? Number(rateLimitPerMinute) : undefined,
+      dailyQuota: dailyQuota ? Number(dailyQuota) : undefined,
+    });
+    if ('errors' in validation) {
+      setFieldErrors(fieldErrorMap(validation.errors));
+      return;
+    }
+
+    setFieldErrors({});
+    onCreate(validation.value);
   }
 
+  const fieldError = (field: keyof CreateTokenRequest) => fieldErrors[field] && (
+    <p className="mt-1 text-xs text-red-600 dark:text-red-400">{fieldErrors[field]}</p>
+  );
+
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4">
@@ -299,6 +486,7 @@ function CreateTokenModal({
               required
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
             />
+            {fieldError('name')}
             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
               A descriptive name to help you identify this token
             </p>
@@ -327,6 +515,94 @@ function CreateTokenModal({
             </p>
           </div>
 
+          <div className="mb-6">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Scopes
+            </span>
+            <div className="space-y-2">
+              {TOKEN_SCOPES.map(({ value, label, description }) => (
+                <label key={value} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={scopes.includes(value)}
+                    onChange={() => toggleScope(value)}
+                    className="mt-1"
+                  />
+                  <span>
+                    <span className="text-gray-900 dark:text-white">{label}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">{description}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+            {fieldError('scopes')}
+          </div>
+
+          <div className="mb-6">
+            <label className="flex items-center gap-2 text-sm text-gray-900 dark:text-white">
+              <input
+                type="checkbox"
+                checked={limitSubscriptions}
+                onChange={(e) => setLimitSubscriptions(e.target.checked)}
+              />
+              Only allow specific locations
+            </label>
+            {limitSubscriptions && (
+              <div className="mt-2 ml-6 max-h-40 overflow-y-auto space-y-1">
+                {subscriptions.length === 0 ? (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">You have no locations yet</p>
+                ) : (
+                  subscriptions.map((subscription) => (
+                    <label key={subscription.id} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={subscriptionIds.includes(subscription.id)}
+                        onChange={() => toggleSubscription(subscription.id)}
+                      />
+                      {subscription.nickname || subscription.location}
+                    </label>
+                  ))
+                )}
+              </div>
+            )}
+            {fieldError('subscriptionIds')}
+          </div>
+
+          <div className="mb-6">
+            <span className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Rate limits
+            </span>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                Requests per minute
+                <input
+                  type="number"
+                  min="1"
+                  value={rateLimitPerMinute}
+                  onChange={(e) => setRateLimitPerMinute(e.target.value)}
+                  placeholder="60"
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+              </label>
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                Requests per day
+                <input
+                  type="number"
+                  min="1"
+                  value={dailyQuota}
+                  onChange={(e) => setDailyQuota(e.target.value)}
+                  placeholder="10000"
+                  className="mt-1 w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+              </label>
+            </div>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Leave blank for the defaults. Your account&apos;s own limits still apply.
+            </p>
+            {fieldError('rateLimitPerMinute')}
+            {fieldError('dailyQuota')}
+          </div>
+
           <div className="flex gap-3">
             <button
               type="button"
@@ -337,7 +613,8 @@ function CreateTokenModal({
             </button>
             <button
               type="submit"
-              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+              disabled={scopes.length === 0 || (limitSubscriptions && subscriptionIds.length === 0)}
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Generate Token
             </button>
@@ -347,3 +624,72 @@ function CreateTokenModal({
     </div>
   );
 }
+
+function RotateTokenModal({
+  token,
+  onClose,
+  onRotate,
+}: {
+  token: Omit<ApiToken, 'tokenHash'>;
+  onClose: () => void;
+  onRotate: (gracePeriodHours: number) => void;
+}) {
+  const [gracePeriodHours, setGracePeriodHours] = useState(24);
+
+  function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    onRotate(gracePeriodHours);
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full mx-4">
+        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">
+            Rotate {token.name}
+          </h2>
+        </div>
+
+        <form onSubmit={handleSubmit} className="px-6 py-4">
+          <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">
+            A new secret is generated with the same name, scopes and lifetime. Update your jobs with it before the
+            old secret stops working.
+          </p>
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Keep the old secret working for
+            </label>
+            <select
+              value={gracePeriodHours}
+              onChange={(e) => setGracePeriodHours(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+            >
+              <option value="0">Stop it immediately</option>
+              <option value="1">1 hour</option>
+              <option value="24">24 hours</option>
+              <option value="72">3 days</option>
+              <option value="168">7 days</option>
+            </select>
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md transition-colors"
+            >
+              Rotate Token
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,59 +1,143 @@
 'use client';
 
-import { useState } from 'react';
-import { useAuth } from '@/lib/auth-context';
+import { useEffect, useState } from 'react';
 import { apiClient } from '@/lib/api-client';
+import type { CreateSubscriptionRequest, GeocodingResult } from '@weather-app/shared';
+import { fieldErrorMap, validateCreateSubscriptionRequest } from '@weather-app/shared';
 
 interface AddSubscriptionModalProps {
   onClose: () => void;
   onSuccess: () => void;
 }
 
+const SEARCH_DEBOUNCE_MS = 300;
+const MIN_SEARCH_LENGTH = 2;
+
+function formatPlace(place: GeocodingResult): string {
+  return [place.city, place.region, place.countryCode].filter(Boolean).join(', ');
+}
+
 export function AddSubscriptionModal({ onClose, onSuccess }: AddSubscriptionModalProps) {
-  const { getIdToken } = useAuth();
-  const [city, setCity] = useState('');
-  const [country, setCountry] = useState('');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeocodingResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [place, setPlace] = useState<GeocodingResult | null>(null);
+  const [manualEntry, setManualEntry] = useState(false);
   const [latitude, setLatitude] = useState('');
   const [longitude, setLongitude] = useState('');
+  const [lookingUp, setLookingUp] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
 
-  async function handleSubmit(e: React.FormEvent) {
-    e.preventDefault();
+  // Debounced autocomplete; each keystroke cancels the previous request
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_SEARCH_LENGTH || (place && trimmed === formatPlace(place))) {
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const response = await apiClient.searchLocations({ q: trimmed }, { signal: controller.signal });
+        setResults(response.results);
+      } catch (err: any) {
+        if (err.name !== 'AbortError') {
+          setError(err.message || 'Location search failed');
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setSearching(false);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    // The aborted request skips its own reset, so the next search or early return starts clean
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+      setSearching(false);
+    };
+  }, [query, place]);
+
+  function selectPlace(result: GeocodingResult) {
+    setPlace(result);
+    setQuery(formatPlace(result));
+    setResults([]);
+    setLatitude(String(result.latitude));
+    setLongitude(String(result.longitude));
     setError('');
-    setLoading(true);
+    setFieldErrors({});
+  }
+
+  // Without a looked-up place the API fills in names from the coordinates
+  function buildRequest(): CreateSubscriptionRequest {
+    const lat = parseFloat(latitude);
+    const lon = parseFloat(longitude);
+
+    return {
+      location: place ? `${place.city}, ${place.countryCode}` : `${lat.toFixed(4)}, ${lon.toFixed(4)}`,
+      city: place?.city,
+      region: place?.region,
+      country: place?.countryCode,
+      latitude: lat,
+      longitude: lon,
+    };
+  }
+
+  // Same checks as the API. Coordinate errors go next to the inputs, anything else in the banner.
+  function validate(): CreateSubscriptionRequest | null {
+    const result = validateCreateSubscriptionRequest(buildRequest());
+    if (!('errors' in result)) {
+      setFieldErrors({});
+      return result.value;
+    }
+
+    const { latitude: latitudeError, longitude: longitudeError, ...others } = fieldErrorMap(result.errors);
+    setFieldErrors({ latitude: latitudeError, longitude: longitudeError });
+    setError(Object.values(others).join('. '));
+    return null;
+  }
+
+  async function handleLookup() {
+    setError('');
+    setLookingUp(true);
 
     try {
-      const token = await getIdToken();
-      if (!token) {
-        throw new Error('Not authenticated');
+      const request = validate();
+      if (!request) {
+        return;
       }
 
-      const lat = parseFloat(latitude);
-      const lon = parseFloat(longitude);
+      const { result } = await apiClient.reverseGeocode({ lat: request.latitude, lon: request.longitude });
+      // Keep the exact coordinates the user entered, only take the names
+      setPlace({ ...result, latitude: request.latitude, longitude: request.longitude });
+    } catch (err: any) {
+      setError(err.message || 'No place found near these coordinates');
+    } finally {
+      setLookingUp(false);
+    }
+  }
 
-      if (isNaN(lat) || isNaN(lon)) {
-        throw new Error('Invalid coordinates');
-      }
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
 
-      if (lat < -90 || lat > 90) {
-        throw new Error('Latitude must be between -90 and 90');
+    try {
+      if (!place && !manualEntry) {
+        throw new Error('Choose a location from the search results');
       }
 
-      if (lon < -180 || lon > 180) {
-        throw new Error('Longitude must be between -180 and 180');
+      const request = validate();
+      if (!request) {
+        return;
       }
 
-      await apiClient.createSubscription(
-        {
-          location: `${city}, ${country}`,
-          city,
-          country,
-          latitude: lat,
-          longitude: lon,
-        },
-        token
-      );
+      await apiClient.createSubscription(request);
 
       onSuccess();
     } catch (err: any) {
@@ -90,76 +174,116 @@ export function AddSubscriptionModal({ onClose, onSuccess }: AddSubscriptionModa
             </div>
           )}
 
-          <div>
+          <div className="relative">
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              City
+              Location
             </label>
             <input
               type="text"
-              value={city}
-              onChange={(e) => setCity(e.target.value)}
-              required
+              value={query}
+              onChange={(e) => {
+                setQuery(e.target.value);
+                setPlace(null);
+              }}
+              autoFocus
+              autoComplete="off"
               className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-              placeholder="New York"
+              placeholder="Search for a city, e.g. Portland, Maine"
             />
+            {searching && (
+              <div className="absolute right-3 top-10 animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            )}
+            {results.length > 0 && (
+              <ul className="absolute z-10 mt-1 w-full bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded-md shadow-lg max-h-60 overflow-auto">
+                {results.map((result) => (
+                  <li key={`${result.latitude},${result.longitude}`}>
+                    <button
+                      type="button"
+                      onClick={() => selectPlace(result)}
+                      className="w-full text-left px-4 py-2 text-sm text-gray-900 dark:text-white hover:bg-blue-50 dark:hover:bg-gray-600"
+                    >
+                      {formatPlace(result)}
+                      <span className="ml-2 text-xs text-gray-400">
+                        {result.latitude.toFixed(2)}, {result.longitude.toFixed(2)}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
           </div>
 
-          <div>
-            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Country
-            </label>
-            <input
-              type="text"
-              value={country}
-              onChange={(e) => setCountry(e.target.value)}
-              required
-              className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-              placeholder="US"
-            />
-          </div>
+          <button
+            type="button"
+            onClick={() => setManualEntry(!manualEntry)}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            {manualEntry ? 'Hide coordinates' : 'Enter coordinates instead'}
+          </button>
 
-          <div className="grid grid-cols-2 gap-4">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Latitude
-              </label>
-              <input
-                type="text"
-                value={latitude}
-                onChange={(e) => setLatitude(e.target.value)}
-                required
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-                placeholder="40.7128"
-              />
-            </div>
+          {manualEntry && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Latitude
+                  </label>
+                  <input
+                    type="text"
+                    value={latitude}
+                    onChange={(e) => {
+                      setLatitude(e.target.value);
+                      setPlace(null);
+                    }}
+                    required
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                    placeholder="40.7128"
+                  />
+                  {fieldErrors.latitude && (
+                    <p className="mt-1 text-xs text-red-600 dark:text-red-400">{fieldErrors.latitude}</p>
+                  )}
+                </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                Longitude
-              </label>
-              <input
-                type="text"
-                value={longitude}
-                onChange={(e) => setLongitude(e.target.value)}
-                required
-                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-                placeholder="-74.0060"
-              />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Longitude
+                  </label>
+                  <input
+                    type="text"
+                    value={longitude}
+                    onChange={(e) => {
+                      setLongitude(e.target.value);
+                      setPlace(null);
+                    }}
+                    required
+                    className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                    placeholder="-74.0060"
+                  />
+                  {fieldErrors.longitude && (
+                    <p className="mt-1 text-xs text-red-600 dark:text-red-400">{fieldErrors.longitude}</p>
+                  )}
+                </div>
+              </div>
+
+              <button
+                type="button"
+                onClick={handleLookup}
+                disabled={lookingUp || !latitude || !longitude}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {lookingUp ? 'Looking up...' : 'Look up place name'}
+              </button>
             </div>
-          </div>
+          )}
 
-          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md p-3 text-sm text-blue-700 dark:text-blue-400">
-            <strong>Tip:</strong> Find coordinates on{' '}
-            <a
-              href="https://www.google.com/maps"
-              target="_blank"
-              rel="noopener noreferrer"
-              className="underline hover:text-blue-900 dark:hover:text-blue-300"
-            >
-              Google Maps
-            </a>
-            {' '}by right-clicking a location.
-          </div>
+          {place && (
+            <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md p-3 text-sm text-blue-700 dark:text-blue-400">
+              <strong>{formatPlace(place)}</strong>
+              <span className="ml-2">
+                ({place.latitude.toFixed(4)}, {place.longitude.toFixed(4)})
+              </span>
+            </div>
+          )}
 
           <div className="flex gap-3 pt-4">
             <button
@@ -0,0 +1,211 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth-context';
+import { apiClient } from '@/lib/api-client';
+import type { DigestFrequency, UpdateDigestSettingsRequest } from '@weather-app/shared';
+import { fieldErrorMap, validateUpdateDigestSettingsRequest } from '@weather-app/shared';
+
+interface DigestSettingsModalProps {
+  onClose: () => void;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function DigestSettingsModal({ onClose }: DigestSettingsModalProps) {
+  const { user } = useAuth();
+  const email = user?.signInDetails?.loginId || '';
+  const [frequency, setFrequency] = useState<DigestFrequency>('daily');
+  const [sendHour, setSendHour] = useState(7);
+  const [sendWeekday, setSendWeekday] = useState(1);
+  const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadSettings();
+  }, []);
+
+  async function loadSettings() {
+    try {
+      const { settings } = await apiClient.getDigestSettings();
+      if (settings) {
+        setFrequency(settings.frequency);
+        setSendHour(settings.sendHour);
+        setSendWeekday(settings.sendWeekday ?? 1);
+        setTimezone(settings.timezone);
+      }
+    } catch (err: any) {
+      setError(err.message || 'Failed to load digest settings');
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+
+    try {
+      // Same checks as the API, shown next to each field
+      const validation = validateUpdateDigestSettingsRequest({
+        frequency,
+        sendHour,
+        sendWeekday: frequency === 'weekly' ? sendWeekday : undefined,
+        timezone,
+      });
+      if ('errors' in validation) {
+        setFieldErrors(fieldErrorMap(validation.errors));
+        return;
+      }
+      setFieldErrors({});
+
+      await apiClient.updateDigestSettings(validation.value);
+
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to save digest settings');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const fieldError = (field: keyof UpdateDigestSettingsRequest) => fieldErrors[field] && (
+    <p className="mt-1 text-xs text-red-600 dark:text-red-400">{fieldErrors[field]}</p>
+  );
+
+  const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Email Digest</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="py-8 text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md text-sm">
+                {error}
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Frequency
+              </label>
+              <select
+                value={frequency}
+                onChange={(e) => setFrequency(e.target.value as DigestFrequency)}
+                className={inputClassName}
+              >
+                <option value="daily">Daily</option>
+                <option value="weekly">Weekly</option>
+                <option value="off">Off</option>
+              </select>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Email
+              </label>
+              {/* Digests only go to the account email */}
+              <p className="text-sm text-gray-900 dark:text-white">{email}</p>
+              {fieldError('email')}
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {frequency === 'weekly' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Day
+                  </label>
+                  <select
+                    value={sendWeekday}
+                    onChange={(e) => setSendWeekday(Number(e.target.value))}
+                    className={inputClassName}
+                  >
+                    {WEEKDAYS.map((day, index) => (
+                      <option key={day} value={index}>{day}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Time
+                </label>
+                <select
+                  value={sendHour}
+                  onChange={(e) => setSendHour(Number(e.target.value))}
+                  className={inputClassName}
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <option key={hour} value={hour}>
+                      {hour.toString().padStart(2, '0')}:00
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Timezone
+              </label>
+              <input
+                type="text"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                required
+                className={inputClassName}
+                placeholder="Europe/London"
+              />
+              {fieldError('timezone')}
+            </div>
+
+            <div className="flex gap-3 pt-4">
+              <button
+                type="button"
+                onClick={onClose}
+                className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {saving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+'use client';
+
+import { useState } from 'react';
+import { apiClient, ApiError } from '@/lib/api-client';
+import type { LocationSubscription, UpdateSubscriptionRequest } from '@weather-app/shared';
+import { fieldErrorMap, validateUpdateSubscriptionRequest } from '@weather-app/shared';
+
+interface EditSubscriptionModalProps {
+  subscription: LocationSubscription;
+  onClose: () => void;
+  onSuccess: (subscription: LocationSubscription, coordinatesChanged: boolean) => void;
+}
+
+export function EditSubscriptionModal({ subscription, onClose, onSuccess }: EditSubscriptionModalProps) {
+  const [location, setLocation] = useState(subscription.location);
+  const [nickname, setNickname] = useState(subscription.nickname || '');
+  const [city, setCity] = useState(subscription.city);
+  const [region, setRegion] = useState(subscription.region || '');
+  const [country, setCountry] = useState(subscription.country);
+  const [latitude, setLatitude] = useState(String(subscription.latitude));
+  const [longitude, setLongitude] = useState(String(subscription.longitude));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setError('');
+    setSaving(true);
+
+    try {
+      const lat = parseFloat(latitude);
+      const lon = parseFloat(longitude);
+
+      // Only send what changed so an untouched field never overwrites a concurrent edit
+      const changes: UpdateSubscriptionRequest = {};
+      if (location !== subscription.location) changes.location = location;
+      if (nickname !== (subscription.nickname || '')) changes.nickname = nickname;
+      if (city !== subscription.city) changes.city = city;
+      if (region !== (subscription.region || '')) changes.region = region;
+      if (country !== subscription.country) changes.country = country;
+      if (lat !== subscription.latitude) changes.latitude = lat;
+      if (lon !== subscription.longitude) changes.longitude = lon;
+
+      if (Object.keys(changes).length === 0) {
+        onClose();
+        return;
+      }
+
+      // Same checks as the API, shown next to each field
+      const validation = validateUpdateSubscriptionRequest(changes);
+      if ('errors' in validation) {
+        setFieldErrors(fieldErrorMap(validation.errors));
+        return;
+      }
+      setFieldErrors({});
+
+      const { subscription: updated } = await apiClient.updateSubscription(subscription.id, changes);
+      onSuccess(updated, changes.latitude !== undefined || changes.longitude !== undefined);
+    } catch (err: any) {
+      // The API may be running newer checks than this bundle; its field errors go next to the inputs too
+      if (err instanceof ApiError && err.details) {
+        setFieldErrors(fieldErrorMap(err.details));
+        return;
+      }
+      setError(err.message || 'Failed to update subscription');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const fieldError = (field: keyof UpdateSubscriptionRequest) => fieldErrors[field] && (
+    <p className="mt-1 text-xs text-red-600 dark:text-red-400">{fieldErrors[field]}</p>
+  );
+
+  const inputClassName =
+    'w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full p-6">
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Edit Location</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+          >
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {error && (
+            <div className="bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-red-600 dark:text-red-400 px-4 py-3 rounded-md text-sm">
+              {error}
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Nickname
+            </label>
+            <input
+              type="text"
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+              maxLength={100}
+              className={inputClassName}
+              placeholder="Home, Office, Cabin..."
+            />
+            {fieldError('nickname')}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Display Name
+            </label>
+            <input
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              required
+              maxLength={100}
+              className={inputClassName}
+            />
+            {fieldError('location')}
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                City
+              </label>
+              <input
+                type="text"
+                value={city}
+                onChange={(e) => setCity(e.target.value)}
+                required
+                maxLength={100}
+                className={inputClassName}
+              />
+              {fieldError('city')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Region
+              </label>
+              <input
+                type="text"
+                value={region}
+                onChange={(e) => setRegion(e.target.value)}
+                maxLength={100}
+                className={inputClassName}
+              />
+              {fieldError('region')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Country
+              </label>
+              <input
+                type="text"
+                value={country}
+                onChange={(e) => setCountry(e.target.value.toUpperCase())}
+                required
+                maxLength={2}
+                pattern="[A-Za-z]{2}"
+                title="Two-letter country code, e.g. GB"
+                className={inputClassName}
+              />
+              {fieldError('country')}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Latitude
+              </label>
+              <input
+                type="text"
+                value={latitude}
+                onChange={(e) => setLatitude(e.target.value)}
+                required
+                className={inputClassName}
+              />
+              {fieldError('latitude')}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Longitude
+              </label>
+              <input
+                type="text"
+                value={longitude}
+                onChange={(e) => setLongitude(e.target.value)}
+                required
+                className={inputClassName}
+              />
+              {fieldError('longitude')}
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Changing the coordinates fetches fresh weather. Past weather history is kept.
+          </p>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 text-white font-medium px-4 py-2 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
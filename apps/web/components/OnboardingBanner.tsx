@@ -0,0 +1,68 @@
+import type { OnboardingState, OnboardingStep } from '@weather-app/shared';
+
+interface OnboardingBannerProps {
+  onboarding: OnboardingState;
+  onAddLocation: () => void;
+  onOpenSettings: () => void;
+  onSkip: () => void;
+}
+
+const STEPS: { step: OnboardingStep; label: string; action: 'add' | 'settings' }[] = [
+  { step: 'add-location', label: 'Add your first location', action: 'add' },
+  { step: 'choose-units', label: 'Choose metric or imperial units', action: 'settings' },
+  { step: 'configure-notifications', label: 'Pick how you want to be notified', action: 'settings' },
+];
+
+export function OnboardingBanner({ onboarding, onAddLocation, onOpenSettings, onSkip }: OnboardingBannerProps) {
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 border border-blue-200 dark:border-blue-800 rounded-lg shadow p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Welcome! Let&apos;s get you set up</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {onboarding.completedSteps.length} of {STEPS.length} steps done
+          </p>
+        </div>
+        <button
+          onClick={onSkip}
+          className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+        >
+          Skip
+        </button>
+      </div>
+
+      <ul className="space-y-2">
+        {STEPS.map(({ step, label, action }) => {
+          const done = onboarding.completedSteps.includes(step);
+          return (
+            <li key={step} className="flex items-center gap-3 text-sm">
+              <span
+                className={`flex items-center justify-center w-5 h-5 rounded-full border ${
+                  done
+                    ? 'bg-green-500 border-green-500 text-white'
+                    : 'border-gray-300 dark:border-gray-600'
+                }`}
+              >
+                {done && (
+                  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M5 13l4 4L19 7" />
+                  </svg>
+                )}
+              </span>
+              {done ? (
+                <span className="text-gray-500 dark:text-gray-400 line-through">{label}</span>
+              ) : (
+                <button
+                  onClick={action === 'add' ? onAddLocation : onOpenSettings}
+                  className="text-blue-600 dark:text-blue-400 hover:underline"
+                >
+                  {label}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import type { GetTokenUsageResponse } from '@weather-app/shared';
+
+interface TokenUsageChartProps {
+  tokenName: string;
+  usage: GetTokenUsageResponse;
+  onClose: () => void;
+}
+
+export function TokenUsageChart({ tokenName, usage, onClose }: TokenUsageChartProps) {
+  const maxRequests = Math.max(1, ...usage.days.map(day => day.requests));
+  const firstDay = usage.days[0]?.date;
+  const lastDay = usage.days[usage.days.length - 1]?.date;
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Usage: {tokenName}</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {usage.totalRequests} request{usage.totalRequests === 1 ? '' : 's'} in the last {usage.days.length} days
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="text-sm text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+        >
+          Close
+        </button>
+      </div>
+
+      <div className="flex items-end gap-px h-32 border-b border-gray-200 dark:border-gray-700">
+        {usage.days.map((day) => (
+          <div
+            key={day.date}
+            title={`${day.date}: ${day.requests} request${day.requests === 1 ? '' : 's'}`}
+            className="flex-1 bg-blue-500 dark:bg-blue-400 rounded-t-sm min-h-px"
+            style={{ height: `${(day.requests / maxRequests) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-gray-500 dark:text-gray-400">
+        <span>{firstDay}</span>
+        <span>{lastDay}</span>
+      </div>
+
+      <dl className="mt-4 grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Last used</dt>
+          <dd className="text-gray-900 dark:text-white">
+            {usage.lastUsedAt ? new Date(usage.lastUsedAt).toLocaleString() : 'Never'}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Last IP address</dt>
+          <dd className="text-gray-900 dark:text-white font-mono">{usage.lastUsedIp || '—'}</dd>
+        </div>
+        <div>
+          <dt className="text-gray-500 dark:text-gray-400">Last user agent</dt>
+          <dd className="text-gray-900 dark:text-white truncate" title={usage.lastUsedUserAgent}>
+            {usage.lastUsedUserAgent || '—'}
+          </dd>
+        </div>
+      </dl>
+    </div>
+  );
+}
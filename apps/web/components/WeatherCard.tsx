@@ -1,12 +1,46 @@
-import type { LocationSubscription, GetWeatherResponse } from '@weather-app/shared';
+import type { LocationSubscription, GetWeatherResponse, AlertMetric, AlertRule, UnitSystem } from '@weather-app/shared';
+import {
+  convertPressure,
+  convertTemperature,
+  convertWindSpeed,
+  DEFAULT_UNIT_SYSTEM,
+  UNIT_LABELS,
+} from '@weather-app/shared';
+import { formatForecastWeekday, formatLocationTime, getLocationDate } from '@/lib/time';
 
 interface WeatherCardProps {
   subscription: LocationSubscription;
   weather?: GetWeatherResponse;
+  alerts?: AlertRule[];
+  onEdit: () => void;
   onDelete: () => void;
 }
 
-export function WeatherCard({ subscription, weather, onDelete }: WeatherCardProps) {
+// Alert values are stored in metric, like the weather they were read from
+function formatAlertValue(metric: AlertMetric, value: number, units: UnitSystem): string {
+  const labels = UNIT_LABELS[units];
+
+  switch (metric) {
+    case 'temperature':
+    case 'feelsLike':
+    case 'forecastTempMin':
+    case 'forecastTempMax':
+      return `${convertTemperature(value, units)}${labels.temperature}`;
+    case 'pressure':
+      return `${convertPressure(value, units)} ${labels.pressure}`;
+    case 'windSpeed':
+      return `${convertWindSpeed(value, units)} ${labels.windSpeed}`;
+    case 'humidity':
+    case 'precipitationProbability':
+      return `${value}%`;
+  }
+}
+
+export function WeatherCard({ subscription, weather, alerts = [], onEdit, onDelete }: WeatherCardProps) {
+  const activeAlerts = alerts.filter((alert) => alert.enabled && alert.state === 'triggered');
+  const today = getLocationDate(subscription);
+  const units = weather?.units ?? DEFAULT_UNIT_SYSTEM;
+  const labels = UNIT_LABELS[units];
   const iconUrl = weather?.current.icon
     ? `https://openweathermap.org/img/wn/${weather.current.icon}@2x.png`
     : null;
@@ -17,26 +51,74 @@ export function WeatherCard({ subscription, weather, onDelete }: WeatherCardProp
       <div className="bg-gradient-to-r from-blue-500 to-indigo-600 px-6 py-4">
         <div className="flex justify-between items-start">
           <div>
-            <h3 className="text-xl font-bold text-white">{subscription.city}</h3>
-            <p className="text-blue-100 text-sm">{subscription.country}</p>
+            <h3 className="text-xl font-bold text-white">{subscription.nickname || subscription.city}</h3>
+            <p className="text-blue-100 text-sm">
+              {subscription.nickname
+                ? [subscription.city, subscription.country].join(', ')
+                : subscription.country}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={onEdit}
+              className="text-white hover:text-blue-200 transition-colors"
+              title="Edit subscription"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z"
+                />
+              </svg>
+            </button>
+            <button
+              onClick={onDelete}
+              className="text-white hover:text-red-200 transition-colors"
+              title="Delete subscription"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                />
+              </svg>
+            </button>
           </div>
-          <button
-            onClick={onDelete}
-            className="text-white hover:text-red-200 transition-colors"
-            title="Delete subscription"
-          >
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-              <path
-                strokeLinecap="round"
-                strokeLinejoin="round"
-                strokeWidth={2}
-                d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-              />
-            </svg>
-          </button>
         </div>
       </div>
 
+      {/* Active Alerts */}
+      {activeAlerts.length > 0 && (
+        <div className="px-6 py-3 bg-amber-50 dark:bg-amber-900/20 border-b border-amber-200 dark:border-amber-800 space-y-1">
+          {activeAlerts.map((alert) => (
+            <div
+              key={alert.id}
+              className="flex items-center gap-2 text-sm text-amber-800 dark:text-amber-300"
+              title={alert.triggeredAt ? `Triggered ${new Date(alert.triggeredAt).toLocaleString()}` : undefined}
+            >
+              <svg className="w-4 h-4 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path
+                  strokeLinecap="round"
+                  strokeLinejoin="round"
+                  strokeWidth={2}
+                  d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
+                />
+              </svg>
+              <span className="font-medium">{alert.name}</span>
+              {alert.lastValue !== undefined && (
+                <span className="text-amber-600 dark:text-amber-400">
+                  ({formatAlertValue(alert.metric, alert.lastValue, units)})
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {/* Weather Data */}
       {!weather ? (
         <div className="px-6 py-8 text-center">
@@ -50,13 +132,13 @@ export function WeatherCard({ subscription, weather, onDelete }: WeatherCardProp
             <div className="flex items-center justify-between">
               <div>
                 <div className="text-4xl font-bold text-gray-900 dark:text-white">
-                  {Math.round(weather.current.temperature)}°C
+                  {Math.round(weather.current.temperature)}{labels.temperature}
                 </div>
                 <div className="text-sm text-gray-500 dark:text-gray-400 capitalize">
                   {weather.current.description}
                 </div>
                 <div className="text-xs text-gray-400 dark:text-gray-500 mt-1">
-                  Feels like {Math.round(weather.current.feelsLike)}°C
+                  Feels like {Math.round(weather.current.feelsLike)}{labels.temperature}
                 </div>
               </div>
               {iconUrl && (
@@ -75,22 +157,19 @@ export function WeatherCard({ subscription, weather, onDelete }: WeatherCardProp
               <div>
                 <div className="text-xs text-gray-500 dark:text-gray-400">Wind</div>
                 <div className="text-sm font-medium text-gray-900 dark:text-white">
-                  {Math.round(weather.current.windSpeed)} m/s
+                  {Math.round(weather.current.windSpeed)} {labels.windSpeed}
                 </div>
               </div>
               <div>
                 <div className="text-xs text-gray-500 dark:text-gray-400">Pressure</div>
                 <div className="text-sm font-medium text-gray-900 dark:text-white">
-                  {weather.current.pressure} hPa
+                  {weather.current.pressure} {labels.pressure}
                 </div>
               </div>
               <div>
                 <div className="text-xs text-gray-500 dark:text-gray-400">Updated</div>
                 <div className="text-sm font-medium text-gray-900 dark:text-white">
-                  {new Date(weather.current.fetchedAt).toLocaleTimeString([], {
-                    hour: '2-digit',
-                    minute: '2-digit',
-                  })}
+                  {formatLocationTime(weather.current.fetchedAt, subscription)}
                 </div>
               </div>
             </div>
@@ -103,12 +182,10 @@ export function WeatherCard({ subscription, weather, onDelete }: WeatherCardProp
                 5-Day Forecast
               </h4>
               <div className="space-y-2">
-                {weather.forecast.slice(0, 5).map((day, index) => (
+                {weather.forecast.slice(0, 5).map((day) => (
                   <div key={day.date} className="flex items-center justify-between text-sm">
                     <div className="text-gray-600 dark:text-gray-400">
-                      {index === 0
-                        ? 'Today'
-                        : new Date(day.date).toLocaleDateString('en-US', { weekday: 'short' })}
+                      {day.date === today ? 'Today' : formatForecastWeekday(day.date)}
                     </div>
                     <div className="flex items-center gap-2">
                       <img
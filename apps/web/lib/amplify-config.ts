@@ -15,3 +15,6 @@ export const apiConfig = {
   baseUrl: process.env.NEXT_PUBLIC_API_URL!,
   region: process.env.NEXT_PUBLIC_AWS_REGION!,
 };
+
+// Set when running against the local dev server (apps/api/local), which replaces Cognito
+export const localAuthUrl = process.env.NEXT_PUBLIC_LOCAL_AUTH_URL;
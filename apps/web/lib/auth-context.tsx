@@ -9,11 +9,62 @@ import {
   confirmSignUp,
   getCurrentUser,
   fetchAuthSession,
+  type AuthUser,
   type SignInOutput,
 } from 'aws-amplify/auth';
-import { amplifyConfig } from './amplify-config';
+import { amplifyConfig, localAuthUrl } from './amplify-config';
+import { createLocalAuth } from './local-auth';
 
-Amplify.configure(amplifyConfig, { ssr: true });
+// What the provider needs from the service that signs users in
+export interface AuthBackend {
+  getCurrentUser(): Promise<AuthUser>;
+  getIdToken(): Promise<string | undefined>;
+  signIn(email: string, password: string): Promise<SignInOutput>;
+  signUp(email: string, password: string): Promise<void>;
+  confirmSignUp(email: string, code: string): Promise<void>;
+  signOut(): Promise<void>;
+}
+
+const cognitoAuth: AuthBackend = {
+  getCurrentUser: () => getCurrentUser(),
+  // Amplify refreshes the ID token when it has expired
+  async getIdToken() {
+    const session = await fetchAuthSession();
+    return session.tokens?.idToken?.toString();
+  },
+  signIn: (email, password) => signIn({ username: email, password }),
+  async signUp(email, password) {
+    await signUp({
+      username: email,
+      password,
+      options: {
+        userAttributes: {
+          email,
+        },
+      },
+    });
+  },
+  async confirmSignUp(email, code) {
+    await confirmSignUp({ username: email, confirmationCode: code });
+  },
+  signOut: () => signOut(),
+};
+
+// NEXT_PUBLIC_LOCAL_AUTH_URL swaps Cognito for the local dev server's issuer (apps/api/local)
+const auth = localAuthUrl ? createLocalAuth(localAuthUrl) : cognitoAuth;
+if (!localAuthUrl) {
+  Amplify.configure(amplifyConfig, { ssr: true });
+}
+
+// Current ID token for API requests
+export async function getIdToken(): Promise<string | undefined> {
+  try {
+    return await auth.getIdToken();
+  } catch (error) {
+    console.error('Error getting ID token:', error);
+    return undefined;
+  }
+}
 
 interface AuthContextType {
   user: any | null;
@@ -37,7 +88,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   async function checkUser() {
     try {
-      const currentUser = await getCurrentUser();
+      const currentUser = await auth.getCurrentUser();
       setUser(currentUser);
     } catch (error) {
       setUser(null);
@@ -47,42 +98,24 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }
 
   async function handleSignIn(email: string, password: string) {
-    const result = await signIn({ username: email, password });
+    const result = await auth.signIn(email, password);
     await checkUser();
     return result;
   }
 
   async function handleSignUp(email: string, password: string) {
-    await signUp({
-      username: email,
-      password,
-      options: {
-        userAttributes: {
-          email,
-        },
-      },
-    });
+    await auth.signUp(email, password);
   }
 
   async function handleConfirmSignUp(email: string, code: string) {
-    await confirmSignUp({ username: email, confirmationCode: code });
+    await auth.confirmSignUp(email, code);
   }
 
   async function handleSignOut() {
-    await signOut();
+    await auth.signOut();
     setUser(null);
   }
 
-  async function getIdToken() {
-    try {
-      const session = await fetchAuthSession();
-      return session.tokens?.idToken?.toString();
-    } catch (error) {
-      console.error('Error getting ID token:', error);
-      return undefined;
-    }
-  }
-
   return (
     <AuthContext.Provider
       value={{
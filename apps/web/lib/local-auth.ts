@@ -0,0 +1,77 @@
+import type { AuthUser, SignInOutput } from 'aws-amplify/auth';
+import type { AuthBackend } from './auth-context';
+
+const SESSION_KEY = 'weather-app:local-session';
+
+interface LocalSession {
+  idToken: string;
+  expiresAt: number; // Unix seconds
+  sub: string;
+  email: string;
+}
+
+function readSession(): LocalSession | undefined {
+  if (typeof window === 'undefined') {
+    return undefined;
+  }
+  const stored = window.localStorage.getItem(SESSION_KEY);
+  const session: LocalSession | undefined = stored ? JSON.parse(stored) : undefined;
+  return session && session.expiresAt * 1000 > Date.now() ? session : undefined;
+}
+
+/**
+ * Signs in against the local dev server's issuer (apps/api/local) instead of Cognito. The ID token
+ * is kept in localStorage until it expires; there is no refresh token, so the user signs in again.
+ */
+export function createLocalAuth(baseUrl: string): AuthBackend {
+  async function call<T>(action: string, body: object): Promise<T> {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.message || `HTTP ${response.status}`);
+    }
+    return result;
+  }
+
+  return {
+    async getCurrentUser(): Promise<AuthUser> {
+      const session = readSession();
+      if (!session) {
+        throw new Error('Not signed in');
+      }
+      return { username: session.sub, userId: session.sub, signInDetails: { loginId: session.email } };
+    },
+
+    async getIdToken() {
+      return readSession()?.idToken;
+    },
+
+    async signIn(email, password): Promise<SignInOutput> {
+      const { idToken, expiresAt, user } = await call<{
+        idToken: string;
+        expiresAt: number;
+        user: { sub: string; email: string };
+      }>('sign-in', { email, password });
+
+      const session: LocalSession = { idToken, expiresAt, sub: user.sub, email: user.email };
+      window.localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+      return { isSignedIn: true, nextStep: { signInStep: 'DONE' } };
+    },
+
+    async signUp(email, password) {
+      await call('sign-up', { email, password });
+    },
+
+    async confirmSignUp(email, code) {
+      await call('confirm-sign-up', { email, code });
+    },
+
+    async signOut() {
+      window.localStorage.removeItem(SESSION_KEY);
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import type { LocationSubscription } from '@weather-app/shared';
+
+type LocationTime = Pick<LocationSubscription, 'timezone' | 'utcOffsetSeconds'>;
+
+/**
+ * Formats a timestamp in the location's own time. Falls back to a fixed UTC
+ * offset when the provider has no IANA timezone, and to the browser's time
+ * for subscriptions that have not been fetched yet.
+ */
+export function formatLocationTime(
+  timestamp: string,
+  location: LocationTime,
+  options: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' }
+): string {
+  const date = new Date(timestamp);
+
+  if (location.timezone) {
+    return date.toLocaleTimeString([], { ...options, timeZone: location.timezone });
+  }
+
+  if (location.utcOffsetSeconds !== undefined) {
+    const shifted = new Date(date.getTime() + location.utcOffsetSeconds * 1000);
+    return shifted.toLocaleTimeString([], { ...options, timeZone: 'UTC' });
+  }
+
+  return date.toLocaleTimeString([], options);
+}
+
+/** Today's date (YYYY-MM-DD) at the location. */
+export function getLocationDate(location: LocationTime, now: Date = new Date()): string {
+  if (location.timezone) {
+    // en-CA formats dates as YYYY-MM-DD
+    return now.toLocaleDateString('en-CA', { timeZone: location.timezone });
+  }
+
+  const offsetMs = (location.utcOffsetSeconds ?? -now.getTimezoneOffset() * 60) * 1000;
+  return new Date(now.getTime() + offsetMs).toISOString().split('T')[0];
+}
+
+/** Short weekday for a forecast date, which is already in the location's local calendar. */
+export function formatForecastWeekday(date: string): string {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'short', timeZone: 'UTC' });
+}
@@ -0,0 +1,183 @@
+// Generates src/generated.ts from the API's OpenAPI document: one type per schema and one client
+// method per operation. Run `npm run generate` after changing apps/api/src/openapi/openapi.json.
+import { readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, relative } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const specPath = join(root, '../../apps/api/src/openapi/openapi.json');
+const outputPath = join(root, 'src/generated.ts');
+
+const spec = JSON.parse(readFileSync(specPath, 'utf8'));
+const METHODS = ['get', 'put', 'post', 'patch', 'delete'];
+
+function refName(ref) {
+  return ref.slice(ref.lastIndexOf('/') + 1);
+}
+
+function pascalCase(name) {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function docComment(text, indent) {
+  if (!text) {
+    return '';
+  }
+  const lines = text.split('\n');
+  if (lines.length === 1) {
+    return `${indent}/** ${text} */\n`;
+  }
+  return `${indent}/**\n${lines.map(line => `${indent} *${line ? ` ${line}` : ''}`).join('\n')}\n${indent} */\n`;
+}
+
+// Array element types need parentheses when they are unions
+function element(schema, indent) {
+  const type = typeOf(schema, indent);
+  return type.includes(' | ') && !type.startsWith('{') ? `(${type})` : type;
+}
+
+function typeOf(schema, indent = '') {
+  if (schema.$ref) {
+    return refName(schema.$ref);
+  }
+  if (schema.oneOf || schema.anyOf) {
+    return (schema.oneOf || schema.anyOf).map(option => typeOf(option, indent)).join(' | ');
+  }
+  if (schema.enum) {
+    return schema.enum.map(value => `'${value}'`).join(' | ');
+  }
+  if (Array.isArray(schema.type)) {
+    return schema.type.map(type => typeOf({ ...schema, type }, indent)).join(' | ');
+  }
+
+  switch (schema.type) {
+    case 'null':
+      return 'null';
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'array':
+      return `${element(schema.items, indent)}[]`;
+    case 'object':
+      if (schema.properties) {
+        return objectType(schema, indent);
+      }
+      if (schema.additionalProperties && schema.additionalProperties !== true) {
+        return `Record<string, ${typeOf(schema.additionalProperties, indent)}>`;
+      }
+      return 'Record<string, unknown>';
+    default:
+      return 'unknown';
+  }
+}
+
+function properties(schema, indent) {
+  const required = new Set(schema.required || []);
+  return Object.entries(schema.properties)
+    .map(([name, property]) =>
+      docComment(property.description, indent) +
+      `${indent}${name}${required.has(name) ? '' : '?'}: ${typeOf(property, indent)};\n`
+    )
+    .join('');
+}
+
+function objectType(schema, indent) {
+  return `{\n${properties(schema, `${indent}  `)}${indent}}`;
+}
+
+function schemaDeclaration(name, schema) {
+  const doc = docComment(schema.description, '');
+  if (schema.type === 'object' && schema.properties) {
+    return `${doc}export interface ${name} {\n${properties(schema, '  ')}}\n`;
+  }
+  return `${doc}export type ${name} = ${typeOf(schema)};\n`;
+}
+
+function successSchema(operation) {
+  const [, response] = Object.entries(operation.responses).find(([status]) => status.startsWith('2'));
+  return response.content?.['application/json']?.schema;
+}
+
+function operationMethod(path, method, operation) {
+  const name = operation.operationId;
+  const parameters = operation.parameters || [];
+  const pathParams = parameters.filter(parameter => parameter.in === 'path');
+  const queryParams = parameters.filter(parameter => parameter.in === 'query');
+  const body = operation.requestBody;
+  const declarations = [];
+  const args = pathParams.map(parameter => `${parameter.name}: string`);
+  const init = [];
+
+  if (body) {
+    const bodyType = typeOf(body.content['application/json'].schema);
+    args.push(body.required ? `body: ${bodyType}` : `body: ${bodyType} = {}`);
+    init.push('body');
+  }
+
+  if (queryParams.length > 0) {
+    const queryType = `${pascalCase(name)}Query`;
+    const queryRequired = queryParams.some(parameter => parameter.required);
+    declarations.push(schemaDeclaration(queryType, {
+      type: 'object',
+      properties: Object.fromEntries(queryParams.map(parameter => [
+        parameter.name,
+        { ...parameter.schema, description: parameter.description },
+      ])),
+      required: queryParams.filter(parameter => parameter.required).map(parameter => parameter.name),
+    }));
+    args.push(queryRequired ? `query: ${queryType}` : `query: ${queryType} = {}`);
+    init.push('query');
+  }
+
+  args.push('options?: RequestOptions');
+  init.push('options');
+  if (operation.security && operation.security.length === 0) {
+    init.push('authenticate: false');
+  }
+
+  const schema = successSchema(operation);
+  const returnType = schema ? typeOf(schema, '  ') : 'void';
+  const url = path.replace(/\{(\w+)\}/g, (_, param) => `\${encodeURIComponent(${param})}`);
+  const description = [operation.summary, operation.description].filter(Boolean).join('\n\n');
+
+  const source =
+    docComment(`${description}\n\n\`${method.toUpperCase()} ${path}\``, '  ') +
+    `  ${name}(${args.join(', ')}): Promise<${returnType}> {\n` +
+    `    return this.request('${method.toUpperCase()}', \`${url}\`, { ${init.join(', ')} });\n` +
+    '  }\n';
+
+  return { declarations, method: source };
+}
+
+const schemaDeclarations = Object.entries(spec.components.schemas)
+  .map(([name, schema]) => schemaDeclaration(name, schema));
+
+const queryDeclarations = [];
+const methods = [];
+for (const [path, item] of Object.entries(spec.paths)) {
+  for (const method of METHODS) {
+    if (item[method]) {
+      const generated = operationMethod(path, method, item[method]);
+      queryDeclarations.push(...generated.declarations);
+      methods.push(generated.method);
+    }
+  }
+}
+
+const output = `// Generated by scripts/generate.mjs from ${relative(join(root, '../..'), specPath)}. Do not edit.
+// ${spec.info.title} ${spec.info.version}
+
+import { BaseClient, RequestOptions } from './client';
+
+${schemaDeclarations.join('\n')}
+${queryDeclarations.join('\n')}
+export class WeatherApiClient extends BaseClient {
+${methods.join('\n')}}
+`;
+
+writeFileSync(outputPath, output);
+console.log(`Wrote ${relative(root, outputPath)}: ${schemaDeclarations.length} types, ${methods.length} operations`);
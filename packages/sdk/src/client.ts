@@ -0,0 +1,238 @@
+import type { ApiErrorCode, ApiErrorResponse, FieldError } from './generated';
+
+const DEFAULT_TIMEOUT_MS = 15000; // Per attempt, so a retry gets a fresh budget
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 10000; // A longer Retry-After is reported to the caller instead of waited out
+
+// Safe to send again after a failure the server may have partly handled
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'PUT', 'DELETE'];
+
+// A fixed token, or a function asked before every request (e.g. to refresh a Cognito session)
+export type TokenSource = string | (() => string | undefined | Promise<string | undefined>);
+
+export type ClientAuth =
+  | { apiToken: TokenSource } // Sent as is: `Authorization: wea_...`
+  | { idToken: TokenSource }; // Cognito ID token: `Authorization: Bearer <token>`
+
+export interface ClientOptions {
+  baseUrl: string; // Stage URL, e.g. the stack's ApiEndpoint output
+  auth?: ClientAuth;
+  timeoutMs?: number; // Per attempt, default 15 seconds
+  maxRetries?: number; // Default 2; 0 turns retries off
+  fetch?: typeof fetch; // Defaults to the global fetch (browsers, Node 18+)
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request and any pending retry
+  headers?: Record<string, string>;
+}
+
+// Failures that never got an API response carry status 0 and one of the client-side codes
+export type ApiClientErrorCode = ApiErrorCode | 'network_error' | 'timeout';
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiClientErrorCode;
+  readonly details?: FieldError[];
+  readonly requestId?: string;
+  readonly retryAfterSeconds?: number;
+
+  constructor(
+    message: string,
+    status: number,
+    code: ApiClientErrorCode,
+    options: { details?: FieldError[]; requestId?: string; retryAfterSeconds?: number } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = options.details;
+    this.requestId = options.requestId;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+}
+
+// Gateway and proxy errors don't always carry the API's envelope
+function codeForStatus(status: number): ApiErrorCode {
+  switch (status) {
+    case 401:
+      return 'unauthorized';
+    case 403:
+      return 'forbidden';
+    case 404:
+      return 'not_found';
+    case 429:
+      return 'rate_limited';
+    default:
+      return status >= 500 ? 'internal_error' : 'bad_request';
+  }
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  const body: Partial<ApiErrorResponse> = await response.json().catch(() => ({}));
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  // Server faults are only useful to support with the request ID, so it goes where the user sees it
+  const message = body.message || `HTTP ${response.status}`;
+
+  return new ApiError(
+    response.status >= 500 && body.requestId ? `${message} (request ${body.requestId})` : message,
+    response.status,
+    body.code ?? codeForStatus(response.status),
+    {
+      details: body.details,
+      requestId: body.requestId,
+      retryAfterSeconds: retryAfter > 0 ? retryAfter : undefined,
+    }
+  );
+}
+
+// A rate-limited request was rejected before any work was done, so it can always be repeated.
+// Anything else may have reached the server, so only idempotent methods are retried.
+function isRetryable(error: ApiError, method: string): boolean {
+  if (error.code === 'rate_limited') {
+    return (error.retryAfterSeconds ?? 0) * 1000 <= MAX_RETRY_DELAY_MS;
+  }
+  return (error.status === 0 || error.status >= 500) && IDEMPOTENT_METHODS.includes(method);
+}
+
+// Honours Retry-After, otherwise exponential backoff with jitter so clients don't retry in step
+function retryDelay(error: ApiError, attempt: number): number {
+  if (error.retryAfterSeconds) {
+    return error.retryAfterSeconds * 1000;
+  }
+  const delay = RETRY_BASE_DELAY_MS * 2 ** attempt;
+  return Math.min(MAX_RETRY_DELAY_MS, delay / 2 + Math.random() * delay / 2);
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted', 'AbortError');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function queryString(query?: object): string {
+  const params = new URLSearchParams();
+  Object.entries(query || {}).forEach(([key, value]) => {
+    if (value !== undefined) {
+      params.set(key, String(value));
+    }
+  });
+  const encoded = params.toString();
+  return encoded ? `?${encoded}` : '';
+}
+
+/**
+ * Transport shared by the generated operations. Failures are thrown as ApiError; rate limits,
+ * server faults and network failures are retried first (see isRetryable). Aborting a request's
+ * `signal` throws the usual AbortError.
+ */
+export class BaseClient {
+  private readonly baseUrl: string;
+  private readonly auth?: ClientAuth;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: ClientOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+    this.auth = options.auth;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+    // Called through a wrapper so browsers don't reject fetch invoked on another object
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  protected async request<T>(
+    method: string,
+    path: string,
+    init: { body?: unknown; query?: object; options?: RequestOptions; authenticate?: boolean } = {}
+  ): Promise<T> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...init.options?.headers,
+    };
+
+    if (init.authenticate !== false && this.auth) {
+      headers['Authorization'] = await this.authorization(this.auth);
+    }
+
+    const url = `${this.baseUrl}${path}${queryString(init.query)}`;
+    const requestInit: RequestInit = {
+      method,
+      headers,
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    };
+    const signal = init.options?.signal;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(url, requestInit, signal);
+      } catch (error) {
+        if (!(error instanceof ApiError) || attempt >= this.maxRetries || !isRetryable(error, method)) {
+          throw error;
+        }
+        await sleep(retryDelay(error, attempt), signal);
+      }
+    }
+  }
+
+  private async authorization(auth: ClientAuth): Promise<string> {
+    const source = 'apiToken' in auth ? auth.apiToken : auth.idToken;
+    const token = typeof source === 'function' ? await source() : source;
+    if (!token) {
+      throw new ApiError('Not authenticated', 0, 'unauthorized');
+    }
+    return 'apiToken' in auth ? token : `Bearer ${token}`;
+  }
+
+  private async send<T>(url: string, init: RequestInit, callerSignal?: AbortSignal): Promise<T> {
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    const timer = setTimeout(onAbort, this.timeoutMs);
+    if (callerSignal?.aborted) {
+      controller.abort();
+    }
+    callerSignal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await this.fetchImpl(url, { ...init, signal: controller.signal });
+      if (!response.ok) {
+        throw await toApiError(response);
+      }
+      return await response.json();
+    } catch (error) {
+      if (error instanceof ApiError || callerSignal?.aborted) {
+        throw error;
+      }
+      if (controller.signal.aborted) {
+        throw new ApiError(`Request timed out after ${this.timeoutMs / 1000}s`, 0, 'timeout');
+      }
+      // fetch rejects with a TypeError when the request never got a response
+      if (error instanceof TypeError) {
+        throw new ApiError('Could not reach the server, check your connection', 0, 'network_error');
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onAbort);
+    }
+  }
+}
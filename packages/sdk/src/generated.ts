@@ -0,0 +1,909 @@
+// Generated by scripts/generate.mjs from apps/api/src/openapi/openapi.json. Do not edit.
+// Weather Subscription API 1.0.0
+
+import { BaseClient, RequestOptions } from './client';
+
+export type WeatherProviderName = 'openweathermap' | 'open-meteo' | 'nws' | 'fixture';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type NotificationChannel = 'email' | 'webhook';
+
+export type OnboardingStep = 'add-location' | 'choose-units' | 'configure-notifications';
+
+export interface OnboardingState {
+  completedSteps: OnboardingStep[];
+  /** Set once every step is done or the user skips the rest */
+  completedAt?: string;
+}
+
+export interface User {
+  /** Cognito sub */
+  id: string;
+  email: string;
+  cognitoSub: string;
+  /** IANA timezone, e.g. "Europe/London" */
+  timezone: string;
+  /** BCP 47 tag, e.g. "en-GB" */
+  locale: string;
+  units: UnitSystem;
+  /** Where notifications go unless a feature says otherwise */
+  notificationChannels: NotificationChannel[];
+  onboarding: OnboardingState;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface LocationSubscription {
+  id: string;
+  userId: string;
+  /** Display name */
+  location: string;
+  nickname?: string;
+  latitude: number;
+  longitude: number;
+  city: string;
+  region?: string;
+  /** ISO 3166-1 alpha-2 code */
+  country: string;
+  /** Overrides the deployment's default provider. `fixture` is only accepted when that default is `fixture` */
+  provider?: WeatherProviderName;
+  locationId?: string;
+  /** IANA timezone of the location, when the provider reports one */
+  timezone?: string;
+  /** Location's offset from UTC as of the last fetch */
+  utcOffsetSeconds?: number;
+  /** Position on the dashboard; unordered subscriptions sort last */
+  sortOrder?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WeatherData {
+  id: string;
+  subscriptionId: string;
+  location: string;
+  temperature: number;
+  feelsLike: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+  windDirection: number;
+  description: string;
+  icon: string;
+  timestamp: string;
+  fetchedAt: string;
+  provider?: WeatherProviderName;
+}
+
+export interface WeatherForecast {
+  date: string;
+  tempMin: number;
+  tempMax: number;
+  description: string;
+  icon: string;
+  /** Probability of precipitation, in percent */
+  precipitation: number;
+}
+
+export interface FieldError {
+  /** Request body property, or "body" when the body as a whole is unusable */
+  field: string;
+  message: string;
+}
+
+/** Stable, machine-readable reason carried by every error response */
+export type ApiErrorCode = 'bad_request' | 'validation_failed' | 'limit_exceeded' | 'unauthorized' | 'insufficient_scope' | 'forbidden' | 'not_found' | 'method_not_allowed' | 'conflict' | 'rate_limited' | 'internal_error';
+
+/** Body of every 4xx/5xx response */
+export interface ApiErrorResponse {
+  code: ApiErrorCode;
+  /** Human-readable; the wording may change */
+  message: string;
+  /** validation_failed only: one entry per invalid field */
+  details?: FieldError[];
+  /** Quote this when reporting a problem */
+  requestId?: string;
+}
+
+export interface MessageResponse {
+  message: string;
+}
+
+export interface CreateSubscriptionRequest {
+  location: string;
+  latitude: number;
+  longitude: number;
+  /** Filled in by reverse geocoding when omitted */
+  city?: string;
+  region?: string;
+  /** ISO 3166-1 alpha-2 code */
+  country?: string;
+  provider?: WeatherProviderName;
+}
+
+export interface UpdateSubscriptionRequest {
+  location?: string;
+  /** Empty string clears it */
+  nickname?: string;
+  latitude?: number;
+  longitude?: number;
+  city?: string;
+  region?: string;
+  country?: string;
+  sortOrder?: number;
+}
+
+export interface SubscriptionResponse {
+  subscription: LocationSubscription;
+}
+
+export interface GetSubscriptionsResponse {
+  subscriptions: LocationSubscription[];
+  /** Pass as ?cursor= to fetch the next page */
+  nextCursor?: string;
+}
+
+export interface GetWeatherResponse {
+  current: WeatherData;
+  forecast: WeatherForecast[];
+  units: UnitSystem;
+}
+
+export type HistoryInterval = 'raw' | 'hourly' | 'daily';
+
+export interface MetricSummary {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export interface WeatherHistoryPoint {
+  /** Observation time (raw) or bucket start (hourly/daily) */
+  timestamp: string;
+  samples: number;
+  temperature: MetricSummary;
+  feelsLike: MetricSummary;
+  humidity: MetricSummary;
+  pressure: MetricSummary;
+  windSpeed: MetricSummary;
+}
+
+export interface GetWeatherHistoryResponse {
+  subscriptionId: string;
+  interval: HistoryInterval;
+  from: string;
+  to: string;
+  points: WeatherHistoryPoint[];
+  nextCursor?: string;
+  units: UnitSystem;
+}
+
+export type AlertMetric = 'temperature' | 'feelsLike' | 'humidity' | 'pressure' | 'windSpeed' | 'forecastTempMin' | 'forecastTempMax' | 'precipitationProbability';
+
+export type AlertOperator = 'above' | 'below';
+
+export type AlertState = 'ok' | 'triggered';
+
+export interface AlertRule {
+  id: string;
+  subscriptionId: string;
+  userId: string;
+  name: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  /** Forecast metrics only: 0 = today, 1 = tomorrow, ... */
+  forecastDay?: number;
+  /** How far the value must recover past the threshold to clear */
+  hysteresis: number;
+  /** Minimum time between two triggers */
+  cooldownMinutes: number;
+  enabled: boolean;
+  state: AlertState;
+  lastValue?: number;
+  lastEvaluatedAt?: string;
+  triggeredAt?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAlertRuleRequest {
+  name?: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  forecastDay?: number;
+  hysteresis?: number;
+  cooldownMinutes?: number;
+  enabled?: boolean;
+}
+
+export interface UpdateAlertRuleRequest {
+  name?: string;
+  metric?: AlertMetric;
+  operator?: AlertOperator;
+  threshold?: number;
+  forecastDay?: number;
+  hysteresis?: number;
+  cooldownMinutes?: number;
+  enabled?: boolean;
+}
+
+export interface AlertRuleResponse {
+  alert: AlertRule;
+}
+
+export interface ListAlertRulesResponse {
+  alerts: AlertRule[];
+}
+
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface DigestSettings {
+  userId: string;
+  email: string;
+  frequency: DigestFrequency;
+  /** In the user's timezone */
+  sendHour: number;
+  /** Weekly only: 0 = Sunday ... 6 = Saturday */
+  sendWeekday?: number;
+  /** IANA timezone, e.g. "Europe/London" */
+  timezone: string;
+  /** Local date of the last digest sent */
+  lastSentOn?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdateDigestSettingsRequest {
+  email?: string;
+  frequency: DigestFrequency;
+  sendHour: number;
+  sendWeekday?: number;
+  timezone: string;
+}
+
+export interface GetDigestSettingsResponse {
+  settings: DigestSettings | null;
+}
+
+export interface DigestSettingsResponse {
+  settings: DigestSettings;
+}
+
+export type WebhookEvent = 'weather.updated' | 'token.expiring';
+
+/** The signing secret is only returned when the webhook is created */
+export interface Webhook {
+  id: string;
+  userId: string;
+  url: string;
+  description: string;
+  /** Empty = all of the user's subscriptions */
+  subscriptionIds: string[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  userId: string;
+  event: WebhookEvent;
+  /** Set for weather.updated only */
+  subscriptionId?: string;
+  /** Exact JSON body that was sent */
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+  redeliveryOf?: string;
+  createdAt: string;
+  ttl: number;
+}
+
+export interface CreateWebhookRequest {
+  /** Must use https and resolve only to public addresses */
+  url: string;
+  description?: string;
+  subscriptionIds?: string[];
+  enabled?: boolean;
+}
+
+export interface UpdateWebhookRequest {
+  /** Must use https and resolve only to public addresses */
+  url?: string;
+  description?: string;
+  subscriptionIds?: string[];
+  enabled?: boolean;
+}
+
+export interface CreateWebhookResponse {
+  webhook: Webhook;
+  /** HMAC-SHA256 signing secret - only shown once! */
+  secret: string;
+}
+
+export interface WebhookResponse {
+  webhook: Webhook;
+}
+
+export interface ListWebhooksResponse {
+  webhooks: Webhook[];
+}
+
+export interface ListWebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+}
+
+export interface RedeliveryResponse {
+  /** ID of the queued delivery */
+  deliveryId: string;
+}
+
+export interface WeatherUpdatedPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: {
+    subscription: {
+      id: string;
+      location: string;
+      latitude: number;
+      longitude: number;
+      city: string;
+      country: string;
+    };
+    current: WeatherData;
+    forecast: WeatherForecast[];
+  };
+}
+
+export interface TokenExpiringPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: {
+    token: {
+      id: string;
+      name: string;
+      prefix: string;
+      expiresAt?: number;
+    };
+    /** The warning threshold that was reached: 14, 7 or 1 */
+    daysLeft: number;
+  };
+}
+
+export interface GeocodingResult {
+  city: string;
+  region?: string;
+  /** ISO 3166-1 alpha-2, e.g. GB */
+  countryCode: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeSearchResponse {
+  results: GeocodingResult[];
+}
+
+export interface ReverseGeocodeResponse {
+  result: GeocodingResult;
+}
+
+export interface UpdateUserRequest {
+  timezone?: string;
+  locale?: string;
+  units?: UnitSystem;
+  notificationChannels?: NotificationChannel[];
+  onboarding?: {
+    /** Added to the steps already completed */
+    completedSteps?: OnboardingStep[];
+    /** Marks onboarding complete without finishing every step */
+    skip?: boolean;
+  };
+}
+
+export interface GetUserResponse {
+  user: User;
+}
+
+export type TokenScope = 'subscriptions:read' | 'subscriptions:write' | 'weather:read' | 'webhooks:manage' | 'account:manage' | 'tokens:manage';
+
+export interface ApiToken {
+  id: string;
+  userId: string;
+  name: string;
+  /** First 12 chars for display (e.g., "wea_12345678...") */
+  prefix: string;
+  createdAt: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  lastUsedUserAgent?: string;
+  /** Unix timestamp */
+  expiresAt?: number;
+  /** Lifetime requested at creation; rotation and extension renew it */
+  expiresInDays?: number;
+  revoked: boolean;
+  /** Missing on tokens created before scopes; treated as read-only */
+  scopes?: TokenScope[];
+  /** Only these subscriptions are reachable when set */
+  subscriptionIds?: string[];
+  /** Overrides the default per-token limits when both are set */
+  rateLimitPerMinute?: number;
+  dailyQuota?: number;
+  rotatedAt?: string;
+  /** Unix timestamp; the secret replaced by the last rotation works until then */
+  previousTokenExpiresAt?: number;
+  /** Smallest expiry warning threshold (14, 7 or 1 days) already sent */
+  expiryWarningSentFor?: number;
+}
+
+export interface CreateTokenRequest {
+  name: string;
+  expiresInDays?: number;
+  scopes: TokenScope[];
+  /** Pins the token to these subscriptions */
+  subscriptionIds?: string[];
+  /** Defaults apply when omitted; at most the account's own limits */
+  rateLimitPerMinute?: number;
+  dailyQuota?: number;
+}
+
+export interface CreateTokenResponse {
+  /** Plain text token - only shown once! */
+  token: string;
+  tokenInfo: ApiToken;
+}
+
+export interface ListTokensResponse {
+  tokens: ApiToken[];
+  /** Pass as ?cursor= to fetch the next page */
+  nextCursor?: string;
+}
+
+export interface RotateTokenRequest {
+  /** How long the old secret keeps working, default 24 */
+  gracePeriodHours?: number;
+}
+
+export interface RotateTokenResponse {
+  /** New plain text token - only shown once! */
+  token: string;
+  tokenInfo: ApiToken;
+}
+
+export interface ExtendTokenRequest {
+  /** New lifetime from now, defaults to the token's current lifetime */
+  expiresInDays?: number;
+}
+
+export interface ExtendTokenResponse {
+  tokenInfo: ApiToken;
+}
+
+export interface TokenUsageDay {
+  /** UTC */
+  date: string;
+  requests: number;
+}
+
+export interface GetTokenUsageResponse {
+  tokenId: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  lastUsedUserAgent?: string;
+  totalRequests: number;
+  /** Oldest first, one entry per day including days without requests */
+  days: TokenUsageDay[];
+}
+
+export type ActivityType = 'user.signed_in' | 'token.created' | 'token.revoked' | 'token.rotated' | 'token.extended' | 'token.used_from_new_ip' | 'subscription.created' | 'subscription.updated' | 'subscription.deleted';
+
+export interface ActivityEntry {
+  id: string;
+  type: ActivityType;
+  createdAt: string;
+  authType: 'cognito' | 'apikey';
+  /** Set when the action was taken with an API token */
+  tokenId?: string;
+  ip?: string;
+  userAgent?: string;
+  /** Token or subscription the action applied to */
+  targetId?: string;
+  details?: Record<string, string>;
+}
+
+export interface ListActivityResponse {
+  /** Newest first */
+  activity: ActivityEntry[];
+  nextCursor?: string;
+}
+
+export interface ListSubscriptionsQuery {
+  /** nextCursor from the previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface GetWeatherQuery {
+  /** Defaults to the user's saved preference */
+  units?: UnitSystem;
+}
+
+export interface GetWeatherHistoryQuery {
+  /** Defaults to 24 hours before to */
+  from?: string;
+  /** Defaults to now */
+  to?: string;
+  interval?: HistoryInterval;
+  limit?: number;
+  /** nextCursor from the previous page */
+  cursor?: string;
+  /** Defaults to the user's saved preference */
+  units?: UnitSystem;
+}
+
+export interface ListActivityQuery {
+  /** nextCursor from the previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface SearchLocationsQuery {
+  q: string;
+  limit?: number;
+}
+
+export interface ReverseGeocodeQuery {
+  lat: number;
+  lon: number;
+}
+
+export interface ListTokensQuery {
+  /** nextCursor from the previous page */
+  cursor?: string;
+  limit?: number;
+}
+
+export interface GetTokenUsageQuery {
+  days?: number;
+}
+
+export class WeatherApiClient extends BaseClient {
+  /**
+   * List subscriptions
+   *
+   * One page of the caller's subscriptions. Tokens pinned to subscriptions only see those. API tokens need the `subscriptions:read` scope.
+   *
+   * `GET /subscriptions`
+   */
+  listSubscriptions(query: ListSubscriptionsQuery = {}, options?: RequestOptions): Promise<GetSubscriptionsResponse> {
+    return this.request('GET', `/subscriptions`, { query, options });
+  }
+
+  /**
+   * Create a subscription
+   *
+   * City and country are filled in by reverse geocoding when omitted. Tokens pinned to subscriptions can't create one. API tokens need the `subscriptions:write` scope.
+   *
+   * `POST /subscriptions`
+   */
+  createSubscription(body: CreateSubscriptionRequest, options?: RequestOptions): Promise<SubscriptionResponse> {
+    return this.request('POST', `/subscriptions`, { body, options });
+  }
+
+  /**
+   * Update a subscription
+   *
+   * API tokens need the `subscriptions:write` scope.
+   *
+   * `PATCH /subscriptions/{id}`
+   */
+  updateSubscription(id: string, body: UpdateSubscriptionRequest, options?: RequestOptions): Promise<SubscriptionResponse> {
+    return this.request('PATCH', `/subscriptions/${encodeURIComponent(id)}`, { body, options });
+  }
+
+  /**
+   * Delete a subscription and its alert rules
+   *
+   * API tokens need the `subscriptions:write` scope.
+   *
+   * `DELETE /subscriptions/{id}`
+   */
+  deleteSubscription(id: string, options?: RequestOptions): Promise<MessageResponse> {
+    return this.request('DELETE', `/subscriptions/${encodeURIComponent(id)}`, { options });
+  }
+
+  /**
+   * List a subscription's alert rules
+   *
+   * API tokens need the `subscriptions:read` scope.
+   *
+   * `GET /subscriptions/{id}/alerts`
+   */
+  listAlertRules(id: string, options?: RequestOptions): Promise<ListAlertRulesResponse> {
+    return this.request('GET', `/subscriptions/${encodeURIComponent(id)}/alerts`, { options });
+  }
+
+  /**
+   * Create an alert rule
+   *
+   * A subscription can have at most 10 alert rules (limit_exceeded). API tokens need the `subscriptions:write` scope.
+   *
+   * `POST /subscriptions/{id}/alerts`
+   */
+  createAlertRule(id: string, body: CreateAlertRuleRequest, options?: RequestOptions): Promise<AlertRuleResponse> {
+    return this.request('POST', `/subscriptions/${encodeURIComponent(id)}/alerts`, { body, options });
+  }
+
+  /**
+   * Update an alert rule
+   *
+   * API tokens need the `subscriptions:write` scope.
+   *
+   * `PATCH /subscriptions/{id}/alerts/{alertId}`
+   */
+  updateAlertRule(id: string, alertId: string, body: UpdateAlertRuleRequest, options?: RequestOptions): Promise<AlertRuleResponse> {
+    return this.request('PATCH', `/subscriptions/${encodeURIComponent(id)}/alerts/${encodeURIComponent(alertId)}`, { body, options });
+  }
+
+  /**
+   * Delete an alert rule
+   *
+   * API tokens need the `subscriptions:write` scope.
+   *
+   * `DELETE /subscriptions/{id}/alerts/{alertId}`
+   */
+  deleteAlertRule(id: string, alertId: string, options?: RequestOptions): Promise<MessageResponse> {
+    return this.request('DELETE', `/subscriptions/${encodeURIComponent(id)}/alerts/${encodeURIComponent(alertId)}`, { options });
+  }
+
+  /**
+   * Latest weather and forecast for a subscription
+   *
+   * API tokens need the `weather:read` scope.
+   *
+   * `GET /weather/{subscriptionId}`
+   */
+  getWeather(subscriptionId: string, query: GetWeatherQuery = {}, options?: RequestOptions): Promise<GetWeatherResponse> {
+    return this.request('GET', `/weather/${encodeURIComponent(subscriptionId)}`, { query, options });
+  }
+
+  /**
+   * Weather history for a subscription
+   *
+   * API tokens need the `weather:read` scope.
+   *
+   * `GET /weather/{subscriptionId}/history`
+   */
+  getWeatherHistory(subscriptionId: string, query: GetWeatherHistoryQuery = {}, options?: RequestOptions): Promise<GetWeatherHistoryResponse> {
+    return this.request('GET', `/weather/${encodeURIComponent(subscriptionId)}/history`, { query, options });
+  }
+
+  /**
+   * Get the caller's profile
+   *
+   * Created on the first signed-in request. API tokens need the `account:manage` scope, and get a 404 until the profile exists.
+   *
+   * `GET /me`
+   */
+  getMe(options?: RequestOptions): Promise<GetUserResponse> {
+    return this.request('GET', `/me`, { options });
+  }
+
+  /**
+   * Update the caller's profile
+   *
+   * API tokens need the `account:manage` scope, and get a 404 until the profile exists.
+   *
+   * `PATCH /me`
+   */
+  updateMe(body: UpdateUserRequest, options?: RequestOptions): Promise<GetUserResponse> {
+    return this.request('PATCH', `/me`, { body, options });
+  }
+
+  /**
+   * List the caller's activity, newest first
+   *
+   * API tokens need the `account:manage` scope.
+   *
+   * `GET /activity`
+   */
+  listActivity(query: ListActivityQuery = {}, options?: RequestOptions): Promise<ListActivityResponse> {
+    return this.request('GET', `/activity`, { query, options });
+  }
+
+  /**
+   * Get email digest settings
+   *
+   * API tokens need the `account:manage` scope.
+   *
+   * `GET /digest/settings`
+   */
+  getDigestSettings(options?: RequestOptions): Promise<GetDigestSettingsResponse> {
+    return this.request('GET', `/digest/settings`, { options });
+  }
+
+  /**
+   * Replace email digest settings
+   *
+   * Digests are sent to the account email. `email` may be omitted; any other address is rejected. API tokens need the `account:manage` scope, and get a 404 until the profile exists.
+   *
+   * `PUT /digest/settings`
+   */
+  updateDigestSettings(body: UpdateDigestSettingsRequest, options?: RequestOptions): Promise<DigestSettingsResponse> {
+    return this.request('PUT', `/digest/settings`, { body, options });
+  }
+
+  /**
+   * List webhooks
+   *
+   * API tokens need the `webhooks:manage` scope. Tokens pinned to subscriptions only reach webhooks whose subscriptionIds are a non-empty subset of theirs.
+   *
+   * `GET /webhooks`
+   */
+  listWebhooks(options?: RequestOptions): Promise<ListWebhooksResponse> {
+    return this.request('GET', `/webhooks`, { options });
+  }
+
+  /**
+   * Register a webhook
+   *
+   * The signing secret is only returned here. A user can register at most 10 webhooks (limit_exceeded). API tokens need the `webhooks:manage` scope. Tokens pinned to subscriptions only reach webhooks whose subscriptionIds are a non-empty subset of theirs.
+   *
+   * `POST /webhooks`
+   */
+  createWebhook(body: CreateWebhookRequest, options?: RequestOptions): Promise<CreateWebhookResponse> {
+    return this.request('POST', `/webhooks`, { body, options });
+  }
+
+  /**
+   * Update a webhook
+   *
+   * API tokens need the `webhooks:manage` scope. Tokens pinned to subscriptions only reach webhooks whose subscriptionIds are a non-empty subset of theirs.
+   *
+   * `PATCH /webhooks/{id}`
+   */
+  updateWebhook(id: string, body: UpdateWebhookRequest, options?: RequestOptions): Promise<WebhookResponse> {
+    return this.request('PATCH', `/webhooks/${encodeURIComponent(id)}`, { body, options });
+  }
+
+  /**
+   * Delete a webhook
+   *
+   * API tokens need the `webhooks:manage` scope. Tokens pinned to subscriptions only reach webhooks whose subscriptionIds are a non-empty subset of theirs.
+   *
+   * `DELETE /webhooks/{id}`
+   */
+  deleteWebhook(id: string, options?: RequestOptions): Promise<MessageResponse> {
+    return this.request('DELETE', `/webhooks/${encodeURIComponent(id)}`, { options });
+  }
+
+  /**
+   * List a webhook's 50 most recent deliveries
+   *
+   * API tokens need the `webhooks:manage` scope. Tokens pinned to subscriptions only reach webhooks whose subscriptionIds are a non-empty subset of theirs.
+   *
+   * `GET /webhooks/{id}/deliveries`
+   */
+  listWebhookDeliveries(id: string, options?: RequestOptions): Promise<ListWebhookDeliveriesResponse> {
+    return this.request('GET', `/webhooks/${encodeURIComponent(id)}/deliveries`, { options });
+  }
+
+  /**
+   * Send a delivery's payload again
+   *
+   * Queues the original payload to be sent again with a fresh signature. The new delivery shows up in the deliveries list once it finishes. API tokens need the `webhooks:manage` scope. Tokens pinned to subscriptions only reach webhooks whose subscriptionIds are a non-empty subset of theirs.
+   *
+   * `POST /webhooks/{id}/deliveries/{deliveryId}/redeliver`
+   */
+  redeliverWebhook(id: string, deliveryId: string, options?: RequestOptions): Promise<RedeliveryResponse> {
+    return this.request('POST', `/webhooks/${encodeURIComponent(id)}/deliveries/${encodeURIComponent(deliveryId)}/redeliver`, { options });
+  }
+
+  /**
+   * Search places by name
+   *
+   * API tokens need the `weather:read` scope.
+   *
+   * `GET /geocode`
+   */
+  searchLocations(query: SearchLocationsQuery, options?: RequestOptions): Promise<GeocodeSearchResponse> {
+    return this.request('GET', `/geocode`, { query, options });
+  }
+
+  /**
+   * Find the place nearest to coordinates
+   *
+   * API tokens need the `weather:read` scope.
+   *
+   * `GET /geocode/reverse`
+   */
+  reverseGeocode(query: ReverseGeocodeQuery, options?: RequestOptions): Promise<ReverseGeocodeResponse> {
+    return this.request('GET', `/geocode/reverse`, { query, options });
+  }
+
+  /**
+   * List API tokens
+   *
+   * API tokens need the `tokens:manage` scope.
+   *
+   * `GET /tokens`
+   */
+  listTokens(query: ListTokensQuery = {}, options?: RequestOptions): Promise<ListTokensResponse> {
+    return this.request('GET', `/tokens`, { query, options });
+  }
+
+  /**
+   * Create an API token
+   *
+   * The token is only returned here. A token can't grant scopes or subscriptions the caller lacks. API tokens need the `tokens:manage` scope.
+   *
+   * `POST /tokens`
+   */
+  createToken(body: CreateTokenRequest, options?: RequestOptions): Promise<CreateTokenResponse> {
+    return this.request('POST', `/tokens`, { body, options });
+  }
+
+  /**
+   * Revoke an API token
+   *
+   * API tokens need the `tokens:manage` scope.
+   *
+   * `DELETE /tokens/{id}`
+   */
+  revokeToken(id: string, options?: RequestOptions): Promise<MessageResponse> {
+    return this.request('DELETE', `/tokens/${encodeURIComponent(id)}`, { options });
+  }
+
+  /**
+   * Replace a token's secret
+   *
+   * The old secret keeps working for gracePeriodHours. API tokens need the `tokens:manage` scope.
+   *
+   * `POST /tokens/{id}/rotate`
+   */
+  rotateToken(id: string, body: RotateTokenRequest = {}, options?: RequestOptions): Promise<RotateTokenResponse> {
+    return this.request('POST', `/tokens/${encodeURIComponent(id)}/rotate`, { body, options });
+  }
+
+  /**
+   * Push back a token's expiry
+   *
+   * API tokens need the `tokens:manage` scope.
+   *
+   * `POST /tokens/{id}/extend`
+   */
+  extendToken(id: string, body: ExtendTokenRequest = {}, options?: RequestOptions): Promise<ExtendTokenResponse> {
+    return this.request('POST', `/tokens/${encodeURIComponent(id)}/extend`, { body, options });
+  }
+
+  /**
+   * Daily request counts for a token
+   *
+   * API tokens need the `tokens:manage` scope.
+   *
+   * `GET /tokens/{id}/usage`
+   */
+  getTokenUsage(id: string, query: GetTokenUsageQuery = {}, options?: RequestOptions): Promise<GetTokenUsageResponse> {
+    return this.request('GET', `/tokens/${encodeURIComponent(id)}/usage`, { query, options });
+  }
+
+  /**
+   * This document
+   *
+   * `GET /openapi.json`
+   */
+  getOpenApiDocument(options?: RequestOptions): Promise<Record<string, unknown>> {
+    return this.request('GET', `/openapi.json`, { options, authenticate: false });
+  }
+}
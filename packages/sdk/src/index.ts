@@ -0,0 +1,3 @@
+export * from './generated';
+export * from './client';
+export * from './pagination';
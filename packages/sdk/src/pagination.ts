@@ -0,0 +1,19 @@
+/**
+ * Follows `nextCursor` until the last page and returns every item, e.g.
+ * `collectPages(cursor => client.listTokens({ cursor }), page => page.tokens)`.
+ */
+export async function collectPages<P extends { nextCursor?: string }, T>(
+  fetchPage: (cursor?: string) => Promise<P>,
+  getItems: (page: P) => T[]
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const page = await fetchPage(cursor);
+    items.push(...getItems(page));
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  return items;
+}
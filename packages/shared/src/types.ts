@@ -1,20 +1,47 @@
+import type { UnitSystem } from './units';
+
+// Weather provider types
+export type WeatherProviderName = 'openweathermap' | 'open-meteo' | 'nws' | 'fixture';
+
 // User types
+export type NotificationChannel = 'email' | 'webhook';
+
+export type OnboardingStep = 'add-location' | 'choose-units' | 'configure-notifications';
+
+export interface OnboardingState {
+  completedSteps: OnboardingStep[];
+  completedAt?: string; // Set once every step is done or the user skips the rest
+}
+
 export interface User {
-  id: string;
+  id: string; // Cognito sub
   email: string;
   cognitoSub: string;
+  timezone: string; // IANA timezone, e.g. "Europe/London"
+  locale: string; // BCP 47 tag, e.g. "en-GB"
+  units: UnitSystem;
+  notificationChannels: NotificationChannel[]; // Where notifications go unless a feature says otherwise
+  onboarding: OnboardingState;
   createdAt: string;
+  updatedAt: string;
 }
 
 // Location subscription types
 export interface LocationSubscription {
   id: string;
   userId: string;
-  location: string;
+  location: string; // Display name
+  nickname?: string;
   latitude: number;
   longitude: number;
   city: string;
-  country: string;
+  region?: string;
+  country: string; // ISO 3166-1 alpha-2 code
+  provider?: WeatherProviderName; // Overrides the deployment's default provider
+  locationId?: string;
+  timezone?: string; // IANA timezone of the location, when the provider reports one
+  utcOffsetSeconds?: number; // Location's offset from UTC as of the last fetch
+  sortOrder?: number; // Position on the dashboard; unordered subscriptions sort last
   createdAt: string;
   updatedAt: string;
 }
@@ -34,6 +61,7 @@ export interface WeatherData {
   icon: string;
   timestamp: string;
   fetchedAt: string;
+  provider?: WeatherProviderName;
 }
 
 export interface WeatherForecast {
@@ -50,12 +78,52 @@ export interface DetailedWeather extends WeatherData {
 }
 
 // API request/response types
+export interface FieldError {
+  field: string; // Request body property, or "body" when the body as a whole is unusable
+  message: string;
+}
+
+// Stable, machine-readable reason carried by every error response
+export type ApiErrorCode =
+  | 'bad_request'
+  | 'validation_failed'
+  | 'limit_exceeded'
+  | 'unauthorized'
+  | 'insufficient_scope'
+  | 'forbidden'
+  | 'not_found'
+  | 'method_not_allowed'
+  | 'conflict'
+  | 'rate_limited'
+  | 'internal_error';
+
+// Body of every 4xx/5xx response
+export interface ApiErrorResponse {
+  code: ApiErrorCode;
+  message: string;
+  details?: FieldError[]; // validation_failed only: one entry per invalid field
+  requestId?: string; // Quote this when reporting a problem
+}
+
 export interface CreateSubscriptionRequest {
   location: string;
   latitude: number;
   longitude: number;
-  city: string;
-  country: string;
+  city?: string; // Filled in by reverse geocoding when omitted
+  region?: string;
+  country?: string; // ISO 3166-1 alpha-2 code
+  provider?: WeatherProviderName;
+}
+
+export interface UpdateSubscriptionRequest {
+  location?: string;
+  nickname?: string; // Empty string clears it
+  latitude?: number;
+  longitude?: number;
+  city?: string;
+  region?: string;
+  country?: string;
+  sortOrder?: number;
 }
 
 export interface CreateSubscriptionResponse {
@@ -64,14 +132,243 @@ export interface CreateSubscriptionResponse {
 
 export interface GetSubscriptionsResponse {
   subscriptions: LocationSubscription[];
+  nextCursor?: string; // Pass as ?cursor= to fetch the next page
 }
 
 export interface GetWeatherResponse {
   current: WeatherData;
   forecast: WeatherForecast[];
+  units: UnitSystem;
+}
+
+// Weather history types
+export type HistoryInterval = 'raw' | 'hourly' | 'daily';
+
+export interface MetricSummary {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export interface WeatherHistoryPoint {
+  timestamp: string; // Observation time (raw) or bucket start (hourly/daily)
+  samples: number;
+  temperature: MetricSummary;
+  feelsLike: MetricSummary;
+  humidity: MetricSummary;
+  pressure: MetricSummary;
+  windSpeed: MetricSummary;
+}
+
+export interface GetWeatherHistoryResponse {
+  subscriptionId: string;
+  interval: HistoryInterval;
+  from: string;
+  to: string;
+  points: WeatherHistoryPoint[];
+  nextCursor?: string;
+  units: UnitSystem;
+}
+
+// Alert rule types
+export type AlertMetric =
+  | 'temperature'
+  | 'feelsLike'
+  | 'humidity'
+  | 'pressure'
+  | 'windSpeed'
+  | 'forecastTempMin'
+  | 'forecastTempMax'
+  | 'precipitationProbability';
+
+export type AlertOperator = 'above' | 'below';
+
+export type AlertState = 'ok' | 'triggered';
+
+export interface AlertRule {
+  id: string;
+  subscriptionId: string;
+  userId: string;
+  name: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  forecastDay?: number; // Forecast metrics only: 0 = today, 1 = tomorrow, ...
+  hysteresis: number; // How far the value must recover past the threshold to clear
+  cooldownMinutes: number; // Minimum time between two triggers
+  enabled: boolean;
+  state: AlertState;
+  lastValue?: number;
+  lastEvaluatedAt?: string;
+  triggeredAt?: string;
+  resolvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAlertRuleRequest {
+  name?: string;
+  metric: AlertMetric;
+  operator: AlertOperator;
+  threshold: number;
+  forecastDay?: number;
+  hysteresis?: number;
+  cooldownMinutes?: number;
+  enabled?: boolean;
+}
+
+export type UpdateAlertRuleRequest = Partial<CreateAlertRuleRequest>;
+
+export interface ListAlertRulesResponse {
+  alerts: AlertRule[];
+}
+
+// Email digest types
+export type DigestFrequency = 'off' | 'daily' | 'weekly';
+
+export interface DigestSettings {
+  userId: string;
+  email: string;
+  frequency: DigestFrequency;
+  sendHour: number; // 0-23, in the user's timezone
+  sendWeekday?: number; // Weekly only: 0 = Sunday ... 6 = Saturday
+  timezone: string; // IANA timezone, e.g. "Europe/London"
+  lastSentOn?: string; // Local date (YYYY-MM-DD) of the last digest sent
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UpdateDigestSettingsRequest {
+  email?: string; // Defaults to the account email, the only address digests are sent to
+  frequency: DigestFrequency;
+  sendHour: number;
+  sendWeekday?: number;
+  timezone: string;
+}
+
+export interface GetDigestSettingsResponse {
+  settings: DigestSettings | null;
+}
+
+// Webhook types
+export type WebhookEvent = 'weather.updated' | 'token.expiring';
+
+export interface Webhook {
+  id: string;
+  userId: string;
+  url: string;
+  description: string;
+  subscriptionIds: string[]; // Empty = all of the user's subscriptions
+  secret: string; // HMAC-SHA256 signing key
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type WebhookDeliveryStatus = 'succeeded' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  userId: string;
+  event: WebhookEvent;
+  subscriptionId?: string; // Set for weather.updated only
+  payload: string; // Exact JSON body that was sent
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus?: number;
+  error?: string;
+  durationMs: number;
+  redeliveryOf?: string;
+  createdAt: string;
+  ttl: number;
+}
+
+export interface WeatherUpdatedPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: {
+    subscription: Pick<LocationSubscription, 'id' | 'location' | 'latitude' | 'longitude' | 'city' | 'country'>;
+    current: WeatherData;
+    forecast: WeatherForecast[];
+  };
+}
+
+export interface TokenExpiringPayload {
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: {
+    token: Pick<ApiToken, 'id' | 'name' | 'prefix' | 'expiresAt'>;
+    daysLeft: number; // The warning threshold that was reached: 14, 7 or 1
+  };
+}
+
+export interface CreateWebhookRequest {
+  url: string;
+  description?: string;
+  subscriptionIds?: string[];
+  enabled?: boolean;
+}
+
+export type UpdateWebhookRequest = Partial<CreateWebhookRequest>;
+
+export interface CreateWebhookResponse {
+  webhook: Omit<Webhook, 'secret'>;
+  secret: string; // Signing secret - only shown once!
+}
+
+export interface ListWebhooksResponse {
+  webhooks: Omit<Webhook, 'secret'>[];
+}
+
+export interface ListWebhookDeliveriesResponse {
+  deliveries: WebhookDelivery[];
+}
+
+// Geocoding types
+export interface GeocodingResult {
+  city: string;
+  region?: string;
+  countryCode: string; // ISO 3166-1 alpha-2, e.g. GB
+  latitude: number;
+  longitude: number;
+}
+
+export interface GeocodeSearchResponse {
+  results: GeocodingResult[];
+}
+
+export interface ReverseGeocodeResponse {
+  result: GeocodingResult;
+}
+
+// User profile types
+export interface UpdateUserRequest {
+  timezone?: string;
+  locale?: string;
+  units?: UnitSystem;
+  notificationChannels?: NotificationChannel[];
+  onboarding?: {
+    completedSteps?: OnboardingStep[]; // Added to the steps already completed
+    skip?: boolean; // Marks onboarding complete without finishing every step
+  };
+}
+
+export interface GetUserResponse {
+  user: User;
 }
 
 // API Token types
+export type TokenScope =
+  | 'subscriptions:read'
+  | 'subscriptions:write'
+  | 'weather:read'
+  | 'webhooks:manage'
+  | 'account:manage'
+  | 'tokens:manage';
+
 export interface ApiToken {
   id: string;
   userId: string;
@@ -79,13 +376,27 @@ export interface ApiToken {
   prefix: string; // First 12 chars for display (e.g., "wea_12345678...")
   createdAt: string;
   lastUsedAt?: string;
+  lastUsedIp?: string;
+  lastUsedUserAgent?: string;
   expiresAt?: number; // Unix timestamp
+  expiresInDays?: number; // Lifetime requested at creation; rotation and extension renew it
   revoked: boolean;
+  scopes?: TokenScope[]; // Missing on tokens created before scopes; treated as read-only
+  subscriptionIds?: string[]; // Only these subscriptions are reachable when set
+  rateLimitPerMinute?: number; // Overrides the default per-token limits when both are set
+  dailyQuota?: number;
+  rotatedAt?: string;
+  previousTokenExpiresAt?: number; // Unix timestamp; the secret replaced by the last rotation works until then
+  expiryWarningSentFor?: number; // Smallest expiry warning threshold (14, 7 or 1 days) already sent
 }
 
 export interface CreateTokenRequest {
   name: string;
   expiresInDays?: number; // Optional, max 365 days
+  scopes: TokenScope[];
+  subscriptionIds?: string[]; // Optional, pins the token to these subscriptions
+  rateLimitPerMinute?: number; // Optional, defaults apply when omitted; at most the account's own limits
+  dailyQuota?: number;
 }
 
 export interface CreateTokenResponse {
@@ -95,6 +406,67 @@ export interface CreateTokenResponse {
 
 export interface ListTokensResponse {
   tokens: Omit<ApiToken, 'tokenHash'>[];
+  nextCursor?: string; // Pass as ?cursor= to fetch the next page
+}
+
+export interface RotateTokenRequest {
+  gracePeriodHours?: number; // How long the old secret keeps working, default 24, max 168
+}
+
+export interface RotateTokenResponse {
+  token: string; // New plain text token - only shown once!
+  tokenInfo: Omit<ApiToken, 'tokenHash'>;
+}
+
+export interface ExtendTokenRequest {
+  expiresInDays?: number; // New lifetime from now, defaults to the token's current lifetime
+}
+
+export interface ExtendTokenResponse {
+  tokenInfo: Omit<ApiToken, 'tokenHash'>;
+}
+
+export interface TokenUsageDay {
+  date: string; // YYYY-MM-DD (UTC)
+  requests: number;
+}
+
+export interface GetTokenUsageResponse {
+  tokenId: string;
+  lastUsedAt?: string;
+  lastUsedIp?: string;
+  lastUsedUserAgent?: string;
+  totalRequests: number;
+  days: TokenUsageDay[]; // Oldest first, one entry per day including days without requests
+}
+
+// Activity log types
+export type ActivityType =
+  | 'user.signed_in'
+  | 'token.created'
+  | 'token.revoked'
+  | 'token.rotated'
+  | 'token.extended'
+  | 'token.used_from_new_ip'
+  | 'subscription.created'
+  | 'subscription.updated'
+  | 'subscription.deleted';
+
+export interface ActivityEntry {
+  id: string;
+  type: ActivityType;
+  createdAt: string;
+  authType: 'cognito' | 'apikey';
+  tokenId?: string; // Set when the action was taken with an API token
+  ip?: string;
+  userAgent?: string;
+  targetId?: string; // Token or subscription the action applied to
+  details?: Record<string, string>;
+}
+
+export interface ListActivityResponse {
+  activity: ActivityEntry[]; // Newest first
+  nextCursor?: string;
 }
 
 // OpenWeatherMap API types
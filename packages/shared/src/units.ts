@@ -0,0 +1,107 @@
+// Unit systems. Weather is stored in metric (°C, m/s, hPa) and converted on the way out.
+export type UnitSystem = 'metric' | 'imperial';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+export interface UnitLabels {
+  temperature: string;
+  windSpeed: string;
+  pressure: string;
+}
+
+export const UNIT_LABELS: Record<UnitSystem, UnitLabels> = {
+  metric: { temperature: '°C', windSpeed: 'm/s', pressure: 'hPa' },
+  imperial: { temperature: '°F', windSpeed: 'mph', pressure: 'inHg' },
+};
+
+const MPH_PER_MS = 2.236936;
+const INHG_PER_HPA = 0.02953;
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return typeof value === 'string' && UNIT_SYSTEMS.includes(value as UnitSystem);
+}
+
+export function convertTemperature(celsius: number, units: UnitSystem): number {
+  return units === 'imperial' ? round(celsius * 9 / 5 + 32, 1) : celsius;
+}
+
+export function convertWindSpeed(metersPerSecond: number, units: UnitSystem): number {
+  return units === 'imperial' ? round(metersPerSecond * MPH_PER_MS, 1) : metersPerSecond;
+}
+
+export function convertPressure(hectopascals: number, units: UnitSystem): number {
+  return units === 'imperial' ? round(hectopascals * INHG_PER_HPA, 2) : hectopascals;
+}
+
+interface CurrentConditions {
+  temperature: number;
+  feelsLike: number;
+  pressure: number;
+  windSpeed: number;
+}
+
+interface ForecastTemperatures {
+  tempMin: number;
+  tempMax: number;
+}
+
+interface MetricRange {
+  min: number;
+  max: number;
+  avg: number;
+}
+
+interface HistoryMetrics {
+  temperature: MetricRange;
+  feelsLike: MetricRange;
+  pressure: MetricRange;
+  windSpeed: MetricRange;
+}
+
+/** Converts stored (metric) current conditions. Other fields are passed through untouched. */
+export function convertCurrentWeather<T extends CurrentConditions>(weather: T, units: UnitSystem): T {
+  if (units === 'metric') return weather;
+
+  return {
+    ...weather,
+    temperature: convertTemperature(weather.temperature, units),
+    feelsLike: convertTemperature(weather.feelsLike, units),
+    pressure: convertPressure(weather.pressure, units),
+    windSpeed: convertWindSpeed(weather.windSpeed, units),
+  };
+}
+
+export function convertForecast<T extends ForecastTemperatures>(day: T, units: UnitSystem): T {
+  if (units === 'metric') return day;
+
+  return {
+    ...day,
+    tempMin: convertTemperature(day.tempMin, units),
+    tempMax: convertTemperature(day.tempMax, units),
+  };
+}
+
+export function convertHistoryPoint<T extends HistoryMetrics>(point: T, units: UnitSystem): T {
+  if (units === 'metric') return point;
+
+  const range = (summary: MetricRange, convert: (value: number, units: UnitSystem) => number): MetricRange => ({
+    min: convert(summary.min, units),
+    max: convert(summary.max, units),
+    avg: convert(summary.avg, units),
+  });
+
+  return {
+    ...point,
+    temperature: range(point.temperature, convertTemperature),
+    feelsLike: range(point.feelsLike, convertTemperature),
+    pressure: range(point.pressure, convertPressure),
+    windSpeed: range(point.windSpeed, convertWindSpeed),
+  };
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,338 @@
+// Request validators shared by the API handlers and the web forms, so both reject the same input
+// with the same messages. Each returns the request unchanged when it is valid, or one error per
+// invalid field.
+import type {
+  AlertMetric,
+  AlertOperator,
+  CreateAlertRuleRequest,
+  CreateSubscriptionRequest,
+  CreateTokenRequest,
+  CreateWebhookRequest,
+  DigestFrequency,
+  ExtendTokenRequest,
+  FieldError,
+  NotificationChannel,
+  OnboardingStep,
+  RotateTokenRequest,
+  TokenScope,
+  UpdateAlertRuleRequest,
+  UpdateDigestSettingsRequest,
+  UpdateSubscriptionRequest,
+  UpdateUserRequest,
+  UpdateWebhookRequest,
+  WeatherProviderName,
+} from './types';
+import { UNIT_SYSTEMS } from './units';
+
+export type ValidationResult<T> = { value: T } | { errors: FieldError[] };
+
+// Checks one field. Returns an error message, or null when the value is acceptable.
+// Fields are optional unless wrapped in required().
+export type FieldRule = (value: unknown) => string | null;
+
+export type Schema<T> = { [K in keyof T]-?: FieldRule };
+
+// The API additionally rejects 'fixture' unless the deployment itself runs on fixtures
+export const WEATHER_PROVIDERS: WeatherProviderName[] = ['openweathermap', 'open-meteo', 'nws', 'fixture'];
+export const ALERT_METRICS: AlertMetric[] = [
+  'temperature',
+  'feelsLike',
+  'humidity',
+  'pressure',
+  'windSpeed',
+  'forecastTempMin',
+  'forecastTempMax',
+  'precipitationProbability',
+];
+export const ALERT_OPERATORS: AlertOperator[] = ['above', 'below'];
+export const DIGEST_FREQUENCIES: DigestFrequency[] = ['off', 'daily', 'weekly'];
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'webhook'];
+export const ONBOARDING_STEPS: OnboardingStep[] = ['add-location', 'choose-units', 'configure-notifications'];
+export const TOKEN_SCOPES: TokenScope[] = [
+  'subscriptions:read',
+  'subscriptions:write',
+  'weather:read',
+  'webhooks:manage',
+  'account:manage',
+  'tokens:manage',
+];
+
+export const MAX_NAME_LENGTH = 100;
+export const MAX_WEBHOOK_DESCRIPTION_LENGTH = 200;
+export const MAX_FORECAST_DAY = 4; // Forecast covers 5 days
+export const MAX_ALERT_COOLDOWN_MINUTES = 7 * 24 * 60;
+export const MAX_TOKEN_EXPIRY_DAYS = 365;
+export const MAX_TOKEN_SUBSCRIPTIONS = 25;
+export const MAX_ROTATION_GRACE_HOURS = 7 * 24;
+
+const COUNTRY_CODE_PATTERN = /^[A-Z]{2}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function createValidator<T>(
+  schema: Schema<T>,
+  refine?: (value: T) => FieldError[]
+): (input: unknown) => ValidationResult<T> {
+  return input => {
+    if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+      return { errors: [{ field: 'body', message: 'Request body must be a JSON object' }] };
+    }
+
+    const errors: FieldError[] = [];
+    for (const field of Object.keys(schema) as (keyof T & string)[]) {
+      const message = schema[field]((input as Record<string, unknown>)[field]);
+      if (message) {
+        errors.push({ field, message });
+      }
+    }
+
+    // Cross-field checks only run once every field has the right shape
+    if (errors.length === 0 && refine) {
+      errors.push(...refine(input as T));
+    }
+
+    return errors.length > 0 ? { errors } : { value: input as T };
+  };
+}
+
+/** First message per field, for showing errors next to form inputs. */
+export function fieldErrorMap(errors: FieldError[]): Record<string, string> {
+  const map: Record<string, string> = {};
+  errors.forEach(error => {
+    if (!(error.field in map)) {
+      map[error.field] = error.message;
+    }
+  });
+  return map;
+}
+
+function required(label: string, rule: FieldRule): FieldRule {
+  return value => value === undefined || value === null ? `${label} is required` : rule(value);
+}
+
+function text(label: string, options: { maxLength?: number; allowEmpty?: boolean } = {}): FieldRule {
+  const { maxLength = MAX_NAME_LENGTH, allowEmpty = false } = options;
+
+  return value => {
+    if (value === undefined) return null;
+    if (typeof value !== 'string') return `${label} must be a string`;
+    if (!allowEmpty && !value.trim()) return `${label} cannot be empty`;
+    if (value.length > maxLength) return `${label} must be at most ${maxLength} characters`;
+    return null;
+  };
+}
+
+function number(label: string, options: { min?: number; max?: number; integer?: boolean } = {}): FieldRule {
+  const { min, max, integer = false } = options;
+  const kind = integer ? 'an integer' : 'a number';
+  const message =
+    min !== undefined && max !== undefined ? `${label} must be ${kind} between ${min} and ${max}` :
+    min === 0 ? `${label} must be a non-negative ${integer ? 'integer' : 'number'}` :
+    min !== undefined ? `${label} must be ${kind} of at least ${min}` :
+    `${label} must be ${kind}`;
+
+  return value => {
+    if (value === undefined) return null;
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value)) ||
+      (min !== undefined && value < min) || (max !== undefined && value > max)) {
+      return message;
+    }
+    return null;
+  };
+}
+
+function boolean(label: string): FieldRule {
+  return value => value === undefined || typeof value === 'boolean' ? null : `${label} must be true or false`;
+}
+
+function oneOf<T extends string>(label: string, values: readonly T[]): FieldRule {
+  return value => value === undefined || values.includes(value as T)
+    ? null
+    : `${label} must be one of: ${values.join(', ')}`;
+}
+
+function listOf<T extends string>(
+  label: string,
+  values: readonly T[],
+  options: { nonEmpty?: boolean; distinct?: boolean } = {}
+): FieldRule {
+  const { nonEmpty = false, distinct = false } = options;
+  const message = `${label} must be a ${nonEmpty ? 'non-empty ' : ''}list of ${distinct ? 'distinct ' : ''}` +
+    `values from: ${values.join(', ')}`;
+
+  return value => {
+    if (value === undefined) return null;
+    if (!Array.isArray(value) || (nonEmpty && value.length === 0) ||
+      value.some(item => !values.includes(item)) ||
+      (distinct && new Set(value).size !== value.length)) {
+      return message;
+    }
+    return null;
+  };
+}
+
+function idList(label: string, maxItems?: number): FieldRule {
+  return value => {
+    if (value === undefined) return null;
+    if (!Array.isArray(value) || value.some(id => typeof id !== 'string' || id.length === 0)) {
+      return `${label} must be a list of subscription IDs`;
+    }
+    if (maxItems !== undefined && value.length > maxItems) {
+      return `${label} can list at most ${maxItems} subscriptions`;
+    }
+    return null;
+  };
+}
+
+// ISO 3166-1 alpha-2, in either case
+const countryCode: FieldRule = value =>
+  value === undefined || (typeof value === 'string' && COUNTRY_CODE_PATTERN.test(value.toUpperCase()))
+    ? null
+    : 'Country must be an ISO 3166-1 alpha-2 code, e.g. GB';
+
+const email: FieldRule = value =>
+  typeof value === 'string' && EMAIL_PATTERN.test(value.trim()) ? null : 'A valid email address is required';
+
+const timezone: FieldRule = value => {
+  if (value === undefined) return null;
+  if (typeof value === 'string' && value) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return null;
+    } catch {
+      // Falls through to the error
+    }
+  }
+  return 'Timezone must be a valid IANA timezone, e.g. Europe/London';
+};
+
+const locale: FieldRule = value => {
+  if (value === undefined) return null;
+  if (typeof value === 'string' && value) {
+    try {
+      if (Intl.getCanonicalLocales(value).length === 1) return null;
+    } catch {
+      // Falls through to the error
+    }
+  }
+  return 'Locale must be a valid BCP 47 language tag, e.g. en-GB';
+};
+
+const webhookUrl: FieldRule = value => {
+  let url: URL;
+  try {
+    url = new URL(value as string);
+  } catch {
+    return 'A valid webhook URL is required';
+  }
+  if (url.protocol !== 'https:') {
+    return 'Webhook URL must use https';
+  }
+  // The API also resolves the host and rejects private addresses; this catches the obvious cases early
+  return url.hostname === 'localhost' || url.hostname.endsWith('.localhost')
+    ? 'Webhook URL must point to a public host'
+    : null;
+};
+
+// Subscriptions
+const subscriptionFields = {
+  location: text('Location'),
+  latitude: number('Latitude', { min: -90, max: 90 }),
+  longitude: number('Longitude', { min: -180, max: 180 }),
+  city: text('City'),
+  region: text('Region', { allowEmpty: true }), // Empty clears it
+  country: countryCode,
+};
+
+export const validateCreateSubscriptionRequest = createValidator<CreateSubscriptionRequest>({
+  ...subscriptionFields,
+  location: required('Location', subscriptionFields.location),
+  latitude: required('Latitude', subscriptionFields.latitude),
+  longitude: required('Longitude', subscriptionFields.longitude),
+  provider: oneOf('Provider', WEATHER_PROVIDERS),
+});
+
+export const validateUpdateSubscriptionRequest = createValidator<UpdateSubscriptionRequest>({
+  ...subscriptionFields,
+  nickname: text('Nickname', { allowEmpty: true }), // Empty clears it
+  sortOrder: number('Sort order', { min: 0, integer: true }),
+});
+
+// Alert rules
+const alertRuleFields: Schema<UpdateAlertRuleRequest> = {
+  name: text('Name', { allowEmpty: true }), // Empty falls back to a generated name
+  metric: oneOf('Metric', ALERT_METRICS),
+  operator: oneOf('Operator', ALERT_OPERATORS),
+  threshold: number('Threshold'),
+  forecastDay: number('Forecast day', { min: 0, max: MAX_FORECAST_DAY, integer: true }),
+  hysteresis: number('Hysteresis', { min: 0 }),
+  cooldownMinutes: number('Cooldown', { min: 0, max: MAX_ALERT_COOLDOWN_MINUTES, integer: true }),
+  enabled: boolean('Enabled'),
+};
+
+export const validateCreateAlertRuleRequest = createValidator<CreateAlertRuleRequest>({
+  ...alertRuleFields,
+  metric: required('Metric', alertRuleFields.metric),
+  operator: required('Operator', alertRuleFields.operator),
+  threshold: required('Threshold', alertRuleFields.threshold),
+});
+
+export const validateUpdateAlertRuleRequest = createValidator<UpdateAlertRuleRequest>(alertRuleFields);
+
+// Email digest
+export const validateUpdateDigestSettingsRequest = createValidator<UpdateDigestSettingsRequest>({
+  email: value => value === undefined ? null : email(value),
+  frequency: required('Frequency', oneOf('Frequency', DIGEST_FREQUENCIES)),
+  sendHour: required('Send hour', number('Send hour', { min: 0, max: 23, integer: true })),
+  sendWeekday: number('Send weekday (0 = Sunday)', { min: 0, max: 6, integer: true }),
+  timezone: required('Timezone', timezone),
+});
+
+// Webhooks
+const webhookFields: Schema<UpdateWebhookRequest> = {
+  url: value => value === undefined ? null : webhookUrl(value),
+  description: text('Description', { maxLength: MAX_WEBHOOK_DESCRIPTION_LENGTH, allowEmpty: true }),
+  subscriptionIds: idList('subscriptionIds'),
+  enabled: boolean('Enabled'),
+};
+
+export const validateCreateWebhookRequest = createValidator<CreateWebhookRequest>({
+  ...webhookFields,
+  url: webhookUrl,
+});
+
+export const validateUpdateWebhookRequest = createValidator<UpdateWebhookRequest>(webhookFields);
+
+// User profile
+export const validateUpdateUserRequest = createValidator<UpdateUserRequest>({
+  timezone,
+  locale,
+  units: oneOf('Units', UNIT_SYSTEMS),
+  notificationChannels: listOf('Notification channels', NOTIFICATION_CHANNELS, { distinct: true }),
+  onboarding: value => {
+    if (value === undefined) return null;
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return 'Onboarding must be an object';
+
+    const { completedSteps, skip } = value as Record<string, unknown>;
+    return listOf('Onboarding steps', ONBOARDING_STEPS)(completedSteps) ?? boolean('Onboarding skip')(skip);
+  },
+});
+
+// API tokens
+const tokenExpiry = number('Expiry in days', { min: 1, max: MAX_TOKEN_EXPIRY_DAYS, integer: true });
+
+export const validateCreateTokenRequest = createValidator<CreateTokenRequest>({
+  name: required('Token name', text('Token name')),
+  expiresInDays: tokenExpiry,
+  scopes: required('Scopes', listOf('Scopes', TOKEN_SCOPES, { nonEmpty: true })),
+  subscriptionIds: idList('subscriptionIds', MAX_TOKEN_SUBSCRIPTIONS),
+  rateLimitPerMinute: number('rateLimitPerMinute', { min: 1, integer: true }), // Upper bound is the account limit
+  dailyQuota: number('dailyQuota', { min: 1, integer: true }),
+});
+
+export const validateRotateTokenRequest = createValidator<RotateTokenRequest>({
+  gracePeriodHours: number('Grace period in hours', { min: 0, max: MAX_ROTATION_GRACE_HOURS }),
+});
+
+export const validateExtendTokenRequest = createValidator<ExtendTokenRequest>({
+  expiresInDays: tokenExpiry,
+});